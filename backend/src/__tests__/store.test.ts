@@ -0,0 +1,112 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The store reads DATA_DIR when it loads, so point it at a scratch directory first
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'workbook-store-'));
+const store: typeof import('../store') = require('../store');
+
+const ID = 'test';
+
+const content = (amount: number) => ({
+  columns: [{ name: 'Product', key: 'product' }, { name: '2024', key: '2024' }],
+  items: [{ product: 'Widget A', '2024': amount }]
+});
+
+/** Current revision of the test workbook */
+const revision = () => store.getWorkbook(ID)!.revision;
+
+beforeEach(() => {
+  const current = store.getWorkbook(ID)?.revision ?? 0;
+  const result = store.saveWorkbook(ID, current, content(100));
+  assert.equal(result.ok, true);
+});
+
+test('PUT replaces a workbook based on its current revision', () => {
+  const base = revision();
+  const result = store.saveWorkbook(ID, base, content(200));
+
+  assert.equal(result.ok, true);
+  assert.equal(revision(), base + 1);
+  assert.equal(store.getWorkbook(ID)!.items[0]['2024'], 200);
+});
+
+test('PUT based on an older revision does not overwrite edits made since', () => {
+  const base = revision();
+  const patched = store.applyCellChanges(ID, base, [{ row: 0, columnKey: '2024', value: 150 }]);
+  assert.equal(patched.ok, true);
+
+  const result = store.saveWorkbook(ID, base, content(200));
+
+  assert.deepEqual(result, { ok: false, reason: 'stale', revision: base + 1 });
+  assert.equal(store.getWorkbook(ID)!.items[0]['2024'], 150);
+});
+
+test('PUT and PATCH reject a base revision the workbook has not reached', () => {
+  const base = revision();
+
+  assert.deepEqual(store.saveWorkbook(ID, base + 1, content(200)), {
+    ok: false,
+    reason: 'unknown_revision',
+    revision: base
+  });
+
+  // Another client changes the cell; a patch claiming a future revision must not overwrite it
+  assert.equal(store.applyCellChanges(ID, base, [{ row: 0, columnKey: '2024', value: 150 }]).ok, true);
+  const result = store.applyCellChanges(ID, 999, [{ row: 0, columnKey: '2024', value: 300 }]);
+
+  assert.equal(result.ok, false);
+  assert.equal(!result.ok && result.reason, 'unknown_revision');
+  assert.equal(store.getWorkbook(ID)!.items[0]['2024'], 150);
+});
+
+test('PATCH merges edits to cells nobody else changed and rejects the rest', () => {
+  const base = revision();
+  assert.equal(store.applyCellChanges(ID, base, [{ row: 0, columnKey: '2024', value: 150 }]).ok, true);
+
+  const merged = store.applyCellChanges(ID, base, [{ row: 0, columnKey: 'product', value: 'Widget B' }]);
+  assert.equal(merged.ok, true);
+
+  const rejected = store.applyCellChanges(ID, base, [{ row: 0, columnKey: '2024', value: 300 }]);
+  assert.equal(!rejected.ok && rejected.reason, 'conflict');
+});
+
+test('formats are stored by PUT and PATCH and returned with conflicts', () => {
+  const saved = store.saveWorkbook(ID, revision(), { ...content(100), formats: { '0:product': { bold: true } } });
+  assert.equal(saved.ok, true);
+  assert.deepEqual(store.getWorkbook(ID)!.formats, { '0:product': { bold: true } });
+
+  const base = revision();
+  const patched = store.applyCellChanges(ID, base, [
+    { row: 0, columnKey: 'product', value: 'Widget A', format: null },
+    { row: 0, columnKey: '2024', value: 100, format: { alignment: 'right', backgroundColor: '#fef3c7' } }
+  ]);
+  assert.equal(patched.ok, true);
+  assert.deepEqual(store.getWorkbook(ID)!.formats, { '0:2024': { alignment: 'right', backgroundColor: '#fef3c7' } });
+
+  const rejected = store.applyCellChanges(ID, base, [{ row: 0, columnKey: '2024', value: 300 }]);
+  assert.equal(!rejected.ok && rejected.reason, 'conflict');
+  assert.deepEqual(!rejected.ok && rejected.reason === 'conflict' && rejected.conflicts[0].format, {
+    alignment: 'right',
+    backgroundColor: '#fef3c7'
+  });
+});
+
+test('formats must be valid cell formats', () => {
+  assert.equal(store.validateWorkbookContent({ ...content(100), formats: { '0:product': { bold: 'yes' } } }),
+    'formats must be an object of cell formats');
+  assert.equal(store.validateCellChanges({
+    changes: [{ row: 0, columnKey: 'product', value: 'x', format: { alignment: 'middle' } }]
+  }), 'each change must be { row, columnKey, value, formula?, format? }');
+});
+
+test('named ranges are stored by PUT and must have a name and a reference', () => {
+  const names = [{ name: 'Revenue2024', reference: 'B2:B2' }];
+  assert.equal(store.saveWorkbook(ID, revision(), { ...content(100), names }).ok, true);
+  assert.deepEqual(store.getWorkbook(ID)!.names, names);
+
+  assert.equal(store.validateWorkbookContent({ ...content(100), names: [{ name: 'Revenue2024' }] }),
+    'names must be an array of { name, reference } objects');
+});
@@ -1,5 +1,14 @@
 import express from 'express';
 import cors from 'cors';
+import {
+  initializeStore,
+  getWorkbook,
+  listWorkbooks,
+  saveWorkbook,
+  applyCellChanges,
+  validateWorkbookContent,
+  validateCellChanges
+} from './store';
 
 // ============================================================================
 // CONFIGURATION
@@ -14,12 +23,15 @@ const CORS_OPTIONS = {
   credentials: true
 };
 
+/** Id of the workbook served by the legacy /api/data endpoint */
+const DEFAULT_WORKBOOK_ID = 'default';
+
 // ============================================================================
 // DATA MODULE
 // ============================================================================
 
 /**
- * Sample financial data for the spreadsheet application
+ * Sample financial data used to seed the default workbook
  * Contains product portfolio revenue data across multiple years (2020-2023)
  * 
  * This data represents a fictional company's product portfolio with:
@@ -127,6 +139,27 @@ const getFinancialData = () => ({
   }
 });
 
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Build the ETag header value for a workbook revision
+ * @param revision - Workbook revision number
+ * @returns Quoted ETag string
+ */
+const toETag = (revision: number) => `"${revision}"`;
+
+/**
+ * Read the base revision from an If-Match header
+ * @param header - Raw If-Match header value
+ * @returns The revision number, or undefined if the header is missing or malformed
+ */
+const parseIfMatch = (header: string | undefined): number | undefined => {
+  const match = header?.match(/^(?:W\/)?"(\d+)"$/);
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
 // ============================================================================
 // MIDDLEWARE
 // ============================================================================
@@ -184,15 +217,29 @@ const healthCheck = (req: express.Request, res: express.Response) => {
 };
 
 /**
- * Data endpoint - returns financial data for the spreadsheet
+ * Data endpoint - returns the default workbook for the spreadsheet
  * This is the main endpoint that the frontend calls to get spreadsheet data
  * @param req - Express request object
  * @param res - Express response object
  */
 const getData = (req: express.Request, res: express.Response) => {
   try {
-    const data = getFinancialData();
-    res.json(data);
+    const workbook = getWorkbook(DEFAULT_WORKBOOK_ID);
+    if (!workbook) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Default workbook has not been initialized'
+      });
+      return;
+    }
+    res.json({
+      Values: { columns: workbook.columns, items: workbook.items },
+      formulas: workbook.formulas,
+      formats: workbook.formats,
+      names: workbook.names,
+      workbookId: workbook.id,
+      revision: workbook.revision
+    });
   } catch (error) {
     console.error('Error fetching data:', error);
     res.status(500).json({
@@ -202,6 +249,174 @@ const getData = (req: express.Request, res: express.Response) => {
   }
 };
 
+/**
+ * List endpoint - returns a summary of every stored workbook
+ * @param req - Express request object
+ * @param res - Express response object
+ */
+const getWorkbooks = (req: express.Request, res: express.Response) => {
+  res.json({ workbooks: listWorkbooks() });
+};
+
+/**
+ * Workbook endpoint - returns a single workbook with its columns and items
+ * @param req - Express request object with the workbook id in params
+ * @param res - Express response object
+ */
+const getWorkbookById = (req: express.Request<{ id: string }>, res: express.Response) => {
+  const workbook = getWorkbook(req.params.id);
+  if (!workbook) {
+    res.status(404).json({
+      error: 'Not Found',
+      message: `Workbook ${req.params.id} not found`
+    });
+    return;
+  }
+  res.setHeader('ETag', toETag(workbook.revision));
+  res.json(workbook);
+};
+
+/**
+ * Save endpoint - replaces the columns, items, formulas, formats and named ranges of a workbook
+ * Creates the workbook if it does not exist yet (base revision 0). The base
+ * revision comes from the body's baseRevision or the If-Match header; a
+ * replace based on any revision but the current one is rejected with 409, so
+ * edits made since are never overwritten.
+ * @param req - Express request object with the workbook id in params
+ * @param res - Express response object
+ */
+const putWorkbook = (req: express.Request<{ id: string }>, res: express.Response) => {
+  const validationError = validateWorkbookContent(req.body);
+  if (validationError) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: validationError
+    });
+    return;
+  }
+
+  const baseRevision = req.body.baseRevision ?? parseIfMatch(req.get('If-Match'));
+  if (baseRevision === undefined) {
+    res.status(428).json({
+      error: 'Precondition Required',
+      message: 'Provide baseRevision in the body or an If-Match header'
+    });
+    return;
+  }
+
+  try {
+    const result = saveWorkbook(req.params.id, baseRevision, req.body);
+
+    if (!result.ok) {
+      res.setHeader('ETag', toETag(result.revision));
+      res.status(409).json({
+        error: 'Conflict',
+        message: result.reason === 'stale'
+          ? 'Workbook changed since the base revision; reload before saving'
+          : `Base revision ${baseRevision} is newer than the workbook's revision ${result.revision}`,
+        revision: result.revision,
+        conflicts: []
+      });
+      return;
+    }
+
+    res.setHeader('ETag', toETag(result.workbook.revision));
+    res.json(result.workbook);
+  } catch (error) {
+    console.error('Error saving workbook:', error);
+    res.status(500).json({
+      error: 'Failed to save data',
+      message: 'Unable to persist workbook'
+    });
+  }
+};
+
+/**
+ * Cell patch endpoint - applies a batch of cell edits to a workbook
+ * The base revision comes from the body's baseRevision or the If-Match header.
+ * Stale edits to cells someone else has changed are rejected with 409 and
+ * the current contents of the conflicting cells.
+ * @param req - Express request object with the workbook id in params
+ * @param res - Express response object
+ */
+const patchCells = (req: express.Request<{ id: string }>, res: express.Response) => {
+  const validationError = validateCellChanges(req.body);
+  if (validationError) {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: validationError
+    });
+    return;
+  }
+
+  const baseRevision = req.body.baseRevision ?? parseIfMatch(req.get('If-Match'));
+  if (baseRevision === undefined) {
+    res.status(428).json({
+      error: 'Precondition Required',
+      message: 'Provide baseRevision in the body or an If-Match header'
+    });
+    return;
+  }
+
+  try {
+    const result = applyCellChanges(req.params.id, baseRevision, req.body.changes);
+
+    if (result.ok) {
+      res.setHeader('ETag', toETag(result.workbook.revision));
+      res.json({ revision: result.workbook.revision, applied: req.body.changes.length });
+      return;
+    }
+
+    switch (result.reason) {
+      case 'not_found':
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Workbook ${req.params.id} not found`
+        });
+        return;
+      case 'invalid_cell':
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `No cell at row ${result.change.row}, column ${result.change.columnKey}`
+        });
+        return;
+      case 'unknown_revision':
+        res.setHeader('ETag', toETag(result.workbook.revision));
+        res.status(409).json({
+          error: 'Conflict',
+          message: `Base revision ${baseRevision} is newer than the workbook's revision ${result.workbook.revision}`,
+          revision: result.workbook.revision,
+          conflicts: []
+        });
+        return;
+      case 'structure_changed':
+        res.setHeader('ETag', toETag(result.workbook.revision));
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'Workbook structure changed since the base revision; reload before editing',
+          revision: result.workbook.revision,
+          conflicts: []
+        });
+        return;
+      case 'conflict':
+        res.setHeader('ETag', toETag(result.workbook.revision));
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'Some cells were changed by someone else since the base revision',
+          revision: result.workbook.revision,
+          conflicts: result.conflicts
+        });
+        return;
+    }
+  } catch (error) {
+    console.error('Error patching cells:', error);
+    res.status(500).json({
+      error: 'Failed to save data',
+      message: 'Unable to apply cell changes'
+    });
+  }
+};
+
 // ============================================================================
 // APPLICATION SETUP
 // ============================================================================
@@ -209,16 +424,24 @@ const getData = (req: express.Request, res: express.Response) => {
 /** Express application instance */
 const app = express();
 
+// Load stored workbooks, seeding the default one on first run
+initializeStore({
+  id: DEFAULT_WORKBOOK_ID,
+  name: 'Product Portfolio Revenue',
+  ...getFinancialData().Values
+});
+
 // Apply middleware
 app.use(cors(CORS_OPTIONS));
-app.use(express.json());
+app.use(express.json({ limit: '5mb' }));
 app.use(requestLogger);
 
 // Additional CORS headers as fallback
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Methods', 'GET,PUT,POST,DELETE,OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Content-Length, X-Requested-With');
+  res.header('Access-Control-Allow-Methods', 'GET,PUT,POST,PATCH,DELETE,OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Content-Length, X-Requested-With, If-Match');
+  res.header('Access-Control-Expose-Headers', 'ETag');
   if (req.method === 'OPTIONS') {
     res.sendStatus(200);
   } else {
@@ -229,6 +452,10 @@ app.use((req, res, next) => {
 // Define routes
 app.get('/health', healthCheck);
 app.get('/api/data', getData);
+app.get('/api/workbooks', getWorkbooks);
+app.get('/api/workbooks/:id', getWorkbookById);
+app.put('/api/workbooks/:id', putWorkbook);
+app.patch('/api/workbooks/:id/cells', patchCells);
 
 // Apply error handling middleware last
 app.use(errorHandler);
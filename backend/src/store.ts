@@ -0,0 +1,465 @@
+import fs from 'fs';
+import path from 'path';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Represents a column in a workbook
+ * @property name - Display name shown in the header row
+ * @property key - Unique identifier used to access data in rows
+ */
+export type Column = { name: string; key: string };
+
+/**
+ * Represents a row of data as key-value pairs
+ * Keys correspond to column keys, values can be strings or numbers
+ */
+export type Row = Record<string, string | number>;
+
+/**
+ * Visual formatting of a cell
+ * @property bold - Whether text is bold
+ * @property italic - Whether text is italic
+ * @property alignment - Text alignment within the cell
+ * @property backgroundColor - Background color of the cell
+ */
+export type CellFormat = {
+  bold?: boolean;
+  italic?: boolean;
+  alignment?: 'left' | 'center' | 'right';
+  backgroundColor?: string;
+};
+
+/**
+ * A name formulas can use in place of a reference
+ * @property name - Name as typed in formulas (e.g. Revenue2023)
+ * @property reference - Cell or range it stands for (e.g. E2:E12)
+ */
+export type NamedRange = { name: string; reference: string };
+
+/**
+ * A stored workbook - the unit of persistence for the spreadsheet
+ * Cell-keyed maps use `${row}:${columnKey}` as their key
+ * @property id - Unique identifier used in API routes
+ * @property name - Human readable workbook name
+ * @property revision - Incremented on every successful write
+ * @property structureRevision - Revision of the last whole-workbook replace
+ * @property updatedAt - ISO timestamp of the last write
+ * @property columns - Column definitions in display order
+ * @property items - Row data keyed by column key
+ * @property formulas - Raw formula text for formula cells
+ * @property formats - Formatting of formatted cells
+ * @property names - Named ranges formulas can use
+ * @property cellRevisions - Revision at which each cell was last patched
+ */
+export type Workbook = {
+  id: string;
+  name: string;
+  revision: number;
+  structureRevision: number;
+  updatedAt: string;
+  columns: Column[];
+  items: Row[];
+  formulas: Record<string, string>;
+  formats: Record<string, CellFormat>;
+  names: NamedRange[];
+  cellRevisions: Record<string, number>;
+};
+
+/**
+ * Subset of a workbook that clients are allowed to replace via PUT
+ */
+export type WorkbookContent = Pick<Workbook, 'columns' | 'items'> & {
+  name?: string;
+  formulas?: Record<string, string>;
+  formats?: Record<string, CellFormat>;
+  names?: NamedRange[];
+};
+
+/**
+ * A single cell edit sent to the PATCH endpoint
+ * @property row - Zero-based data row index
+ * @property columnKey - Key of the column being edited
+ * @property value - New computed or literal value
+ * @property formula - Formula text, or null/undefined for a literal value
+ * @property format - Formatting, or null/undefined for an unformatted cell
+ */
+export type CellChange = {
+  row: number;
+  columnKey: string;
+  value: string | number;
+  formula?: string | null;
+  format?: CellFormat | null;
+};
+
+/**
+ * A cell that was changed by someone else since the client's base revision
+ */
+export type CellConflict = {
+  row: number;
+  columnKey: string;
+  value: string | number;
+  formula: string | null;
+  format: CellFormat | null;
+  revision: number;
+};
+
+/**
+ * Outcome of applying a batch of cell changes
+ * - unknown_revision: the base revision is newer than the workbook, so it
+ *   cannot be one the client read
+ */
+export type PatchResult =
+  | { ok: true; workbook: Workbook }
+  | { ok: false; reason: 'not_found' }
+  | { ok: false; reason: 'invalid_cell'; change: CellChange }
+  | { ok: false; reason: 'unknown_revision'; workbook: Workbook }
+  | { ok: false; reason: 'structure_changed'; workbook: Workbook }
+  | { ok: false; reason: 'conflict'; workbook: Workbook; conflicts: CellConflict[] };
+
+/**
+ * Outcome of replacing a workbook
+ * - stale: the workbook was written after the base revision
+ * - unknown_revision: the base revision is newer than the workbook
+ */
+export type SaveResult =
+  | { ok: true; workbook: Workbook }
+  | { ok: false; reason: 'stale' | 'unknown_revision'; revision: number };
+
+/**
+ * On-disk file layout
+ */
+type StoreFile = {
+  workbooks: Record<string, Workbook>;
+};
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/** Directory holding the store file - defaults to backend/data */
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, '..', 'data');
+
+/** JSON file all workbooks are persisted to */
+const STORE_PATH = path.join(DATA_DIR, 'workbooks.json');
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+/** In-memory copy of the store, loaded once at startup */
+let state: StoreFile = { workbooks: {} };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Build the key used by the formula and revision maps
+ * @param row - Zero-based data row index
+ * @param columnKey - Column key
+ */
+export const cellKey = (row: number, columnKey: string) => `${row}:${columnKey}`;
+
+/**
+ * Check that a value is a cell format
+ * @param format - Value to check
+ */
+const isCellFormat = (format: unknown): format is CellFormat => {
+  if (!format || typeof format !== 'object' || Array.isArray(format)) return false;
+  const { bold, italic, alignment, backgroundColor } = format as Record<string, unknown>;
+  return (bold === undefined || typeof bold === 'boolean') &&
+    (italic === undefined || typeof italic === 'boolean') &&
+    (alignment === undefined || alignment === 'left' || alignment === 'center' || alignment === 'right') &&
+    (backgroundColor === undefined || typeof backgroundColor === 'string');
+};
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/**
+ * Write the in-memory state to disk
+ * Writes to a temporary file first and renames it so a crash mid-write
+ * never leaves a truncated store behind
+ */
+const persist = () => {
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  const tempPath = `${STORE_PATH}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(state, null, 2));
+  fs.renameSync(tempPath, STORE_PATH);
+};
+
+/**
+ * Load the store from disk and seed it if the default workbook is missing
+ * @param seed - Workbook content used when no stored copy exists yet
+ */
+export const initializeStore = (seed: { id: string; name: string } & WorkbookContent) => {
+  if (fs.existsSync(STORE_PATH)) {
+    state = JSON.parse(fs.readFileSync(STORE_PATH, 'utf8')) as StoreFile;
+
+    // Fill in fields added after the store file was first written
+    Object.values(state.workbooks).forEach(workbook => {
+      workbook.structureRevision ??= workbook.revision;
+      workbook.formulas ??= {};
+      workbook.formats ??= {};
+      workbook.names ??= [];
+      workbook.cellRevisions ??= {};
+    });
+  }
+
+  if (!state.workbooks[seed.id]) {
+    state.workbooks[seed.id] = {
+      id: seed.id,
+      name: seed.name,
+      revision: 1,
+      structureRevision: 1,
+      updatedAt: new Date().toISOString(),
+      columns: seed.columns,
+      items: seed.items,
+      formulas: seed.formulas ?? {},
+      formats: seed.formats ?? {},
+      names: seed.names ?? [],
+      cellRevisions: {}
+    };
+    persist();
+  }
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check that a request body has the shape of workbook content
+ * @param body - Parsed JSON request body
+ * @returns An error message, or null if the body is valid
+ */
+export const validateWorkbookContent = (body: unknown): string | null => {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be an object';
+  }
+
+  const { columns, items, name, formulas, formats, names, baseRevision } = body as Record<string, unknown>;
+
+  if (baseRevision !== undefined && (typeof baseRevision !== 'number' || !Number.isInteger(baseRevision))) {
+    return 'baseRevision must be an integer';
+  }
+
+  if (name !== undefined && typeof name !== 'string') {
+    return 'name must be a string';
+  }
+
+  if (formulas !== undefined && (
+    !formulas || typeof formulas !== 'object' ||
+    !Object.values(formulas).every(formula => typeof formula === 'string')
+  )) {
+    return 'formulas must be an object of formula strings';
+  }
+
+  if (formats !== undefined && (
+    !formats || typeof formats !== 'object' || !Object.values(formats).every(isCellFormat)
+  )) {
+    return 'formats must be an object of cell formats';
+  }
+
+  if (names !== undefined && (!Array.isArray(names) || !names.every(named =>
+    named && typeof named === 'object' && typeof named.name === 'string' && typeof named.reference === 'string'
+  ))) {
+    return 'names must be an array of { name, reference } objects';
+  }
+
+  if (!Array.isArray(columns) || !columns.every(col =>
+    col && typeof col === 'object' && typeof col.name === 'string' && typeof col.key === 'string'
+  )) {
+    return 'columns must be an array of { name, key } objects';
+  }
+
+  const keys = new Set(columns.map(col => col.key));
+  if (keys.size !== columns.length) {
+    return 'column keys must be unique';
+  }
+
+  if (!Array.isArray(items) || !items.every(item =>
+    item && typeof item === 'object' && !Array.isArray(item) &&
+    Object.values(item).every(value => typeof value === 'string' || typeof value === 'number')
+  )) {
+    return 'items must be an array of objects with string or number values';
+  }
+
+  return null;
+};
+
+/**
+ * Check that a PATCH body contains a valid batch of cell changes
+ * @param body - Parsed JSON request body
+ * @returns An error message, or null if the body is valid
+ */
+export const validateCellChanges = (body: unknown): string | null => {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be an object';
+  }
+
+  const { changes, baseRevision } = body as Record<string, unknown>;
+
+  if (baseRevision !== undefined && (typeof baseRevision !== 'number' || !Number.isInteger(baseRevision))) {
+    return 'baseRevision must be an integer';
+  }
+
+  if (!Array.isArray(changes) || changes.length === 0) {
+    return 'changes must be a non-empty array';
+  }
+
+  const invalid = changes.find(change =>
+    !change || typeof change !== 'object' ||
+    !Number.isInteger(change.row) || change.row < 0 ||
+    typeof change.columnKey !== 'string' ||
+    (typeof change.value !== 'string' && typeof change.value !== 'number') ||
+    (change.formula !== undefined && change.formula !== null && typeof change.formula !== 'string') ||
+    (change.format !== undefined && change.format !== null && !isCellFormat(change.format))
+  );
+  if (invalid) {
+    return 'each change must be { row, columnKey, value, formula?, format? }';
+  }
+
+  return null;
+};
+
+// ============================================================================
+// QUERIES AND MUTATIONS
+// ============================================================================
+
+/**
+ * List all stored workbooks without their row data
+ * @returns Workbook summaries
+ */
+export const listWorkbooks = () =>
+  Object.values(state.workbooks).map(({ id, name, revision, updatedAt }) => ({
+    id,
+    name,
+    revision,
+    updatedAt
+  }));
+
+/**
+ * Look up a workbook by id
+ * @param id - Workbook identifier
+ * @returns The workbook, or undefined if it does not exist
+ */
+export const getWorkbook = (id: string): Workbook | undefined => state.workbooks[id];
+
+/**
+ * Replace the contents of a workbook, creating it if it does not exist
+ *
+ * The replace only goes ahead if nothing was written since the base revision,
+ * so a client never overwrites edits it has not seen. A workbook that does
+ * not exist yet is at revision 0.
+ *
+ * @param id - Workbook identifier
+ * @param baseRevision - Revision the client's contents were based on
+ * @param content - New columns, items, and optional name, formulas, formats and named ranges
+ * @returns The stored workbook with its new revision, or why the replace was
+ *   rejected along with the workbook's current revision
+ */
+export const saveWorkbook = (id: string, baseRevision: number, content: WorkbookContent): SaveResult => {
+  const existing = state.workbooks[id];
+  const currentRevision = existing?.revision ?? 0;
+  if (baseRevision > currentRevision) {
+    return { ok: false, reason: 'unknown_revision', revision: currentRevision };
+  }
+  if (baseRevision < currentRevision) {
+    return { ok: false, reason: 'stale', revision: currentRevision };
+  }
+
+  const workbook: Workbook = {
+    id,
+    name: content.name ?? existing?.name ?? id,
+    revision: (existing?.revision ?? 0) + 1,
+    structureRevision: (existing?.revision ?? 0) + 1,
+    updatedAt: new Date().toISOString(),
+    columns: content.columns,
+    items: content.items,
+    formulas: content.formulas ?? {},
+    formats: content.formats ?? {},
+    names: content.names ?? [],
+    cellRevisions: {}
+  };
+
+  state.workbooks[id] = workbook;
+  persist();
+  return { ok: true, workbook };
+};
+
+/**
+ * Apply a batch of cell changes with optimistic concurrency
+ *
+ * A batch based on an older revision is still accepted as long as none of
+ * its cells were patched after that revision; one based on a revision the
+ * workbook has not reached yet is rejected. A whole-workbook replace
+ * invalidates row indices, so anything based on an earlier structure is
+ * rejected outright. Either the whole batch is applied or none of it.
+ *
+ * @param id - Workbook identifier
+ * @param baseRevision - Revision the client's edits were made against
+ * @param changes - Cell changes to apply
+ * @returns The updated workbook, or the reason the batch was rejected
+ */
+export const applyCellChanges = (id: string, baseRevision: number, changes: CellChange[]): PatchResult => {
+  const workbook = state.workbooks[id];
+  if (!workbook) {
+    return { ok: false, reason: 'not_found' };
+  }
+
+  if (baseRevision > workbook.revision) {
+    return { ok: false, reason: 'unknown_revision', workbook };
+  }
+
+  if (baseRevision < workbook.structureRevision) {
+    return { ok: false, reason: 'structure_changed', workbook };
+  }
+
+  const columnKeys = new Set(workbook.columns.map(col => col.key));
+  const invalid = changes.find(change => change.row >= workbook.items.length || !columnKeys.has(change.columnKey));
+  if (invalid) {
+    return { ok: false, reason: 'invalid_cell', change: invalid };
+  }
+
+  const conflicts: CellConflict[] = changes
+    .filter(change => (workbook.cellRevisions[cellKey(change.row, change.columnKey)] ?? 0) > baseRevision)
+    .map(({ row, columnKey }) => ({
+      row,
+      columnKey,
+      value: workbook.items[row]?.[columnKey] ?? '',
+      formula: workbook.formulas[cellKey(row, columnKey)] ?? null,
+      format: workbook.formats[cellKey(row, columnKey)] ?? null,
+      revision: workbook.cellRevisions[cellKey(row, columnKey)]
+    }));
+
+  if (conflicts.length > 0) {
+    return { ok: false, reason: 'conflict', workbook, conflicts };
+  }
+
+  const revision = workbook.revision + 1;
+  changes.forEach(({ row, columnKey, value, formula, format }) => {
+    const key = cellKey(row, columnKey);
+    workbook.items[row] = { ...workbook.items[row], [columnKey]: value };
+    if (formula) {
+      workbook.formulas[key] = formula;
+    } else {
+      delete workbook.formulas[key];
+    }
+    if (format) {
+      workbook.formats[key] = format;
+    } else {
+      delete workbook.formats[key];
+    }
+    workbook.cellRevisions[key] = revision;
+  });
+
+  workbook.revision = revision;
+  workbook.updatedAt = new Date().toISOString();
+  persist();
+  return { ok: true, workbook };
+};
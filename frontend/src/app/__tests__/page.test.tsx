@@ -1,7 +1,10 @@
 import React from 'react';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, within, act, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import '@testing-library/jest-dom';
 import Home from '../page';
+import { WORKER_MIN_FORMULAS } from '../../hooks/useRecalculation';
+import { handleRecalculateRequest, type RecalculateRequest } from '../../lib/formula';
 
 // Mock the fetch API
 global.fetch = jest.fn();
@@ -227,6 +230,98 @@ describe('Home Page', () => {
     expect(screen.getByText('Product')).toBeInTheDocument();
   });
 
+  it('restores named ranges and saves changes to them', async () => {
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          ...mockApiResponse,
+          formulas: { '0:2021': '=SUM(Sales2020)' },
+          names: [{ name: 'Sales2020', reference: 'B2:B3' }],
+          workbookId: 'default',
+          revision: 1,
+        }),
+      })
+      .mockResolvedValue({ ok: true, status: 200, json: async () => ({ revision: 2 }) });
+    const user = userEvent.setup();
+
+    render(<Home />);
+
+    const table = within(await screen.findByRole('table'));
+    expect(table.getByText('300')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Names (1)' }));
+    await user.click(screen.getByRole('button', { name: 'Delete Sales2020' }));
+    await act(async () => {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    });
+
+    const [url, init] = (fetch as jest.Mock).mock.calls[1];
+    expect(url).toBe('http://localhost:4000/api/workbooks/default');
+    expect(init.method).toBe('PUT');
+    expect(JSON.parse(init.body).names).toEqual([]);
+  });
+
+  it('saves reordered columns only with the grid laid out for them', async () => {
+    const requests: RecalculateRequest[] = [];
+    let onmessage: ((event: { data: unknown }) => void) | null = null;
+    class FakeWorker {
+      set onmessage(handler: typeof onmessage) { onmessage = handler; }
+      onerror = null;
+      postMessage(request: RecalculateRequest) { requests.push(request); }
+      terminate() {}
+    }
+    Object.defineProperty(window, 'Worker', { value: FakeWorker, configurable: true, writable: true });
+    const respond = async () => {
+      await screen.findByText(/Recalculating/);
+      act(() => {
+        handleRecalculateRequest(requests[requests.length - 1], response => onmessage?.({ data: response }));
+      });
+      expect(screen.queryByText(/Recalculating/)).not.toBeInTheDocument();
+    };
+    const waitForSave = () => act(async () => {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    });
+
+    const items = Array.from({ length: WORKER_MIN_FORMULAS }, (_, i) => ({ product: `Item ${i}`, '2020': 1000 + i, '2021': '' }));
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          Values: { columns: mockApiResponse.Values.columns, items },
+          formulas: Object.fromEntries(items.map((_, i) => [`${i}:2021`, `=B${i + 2}*2`])),
+          workbookId: 'default',
+          revision: 1,
+        }),
+      })
+      .mockResolvedValue({ ok: true, status: 200, json: async () => ({ revision: 2 }) });
+
+    try {
+      render(<Home />);
+      await screen.findByRole('table');
+      await respond();
+
+      // The moved grid is recalculated in the background before the Spreadsheet reports it
+      const dataTransfer = { setData: jest.fn(), getData: jest.fn(), effectAllowed: 'move', dropEffect: 'move' };
+      fireEvent.dragStart(screen.getByText('B').closest('th')!, { dataTransfer });
+      fireEvent.drop(screen.getByText('C').closest('th')!, { dataTransfer });
+      await waitForSave();
+      await respond();
+      await waitForSave();
+
+      const puts = (fetch as jest.Mock).mock.calls
+        .filter(([, init]) => init?.method === 'PUT')
+        .map(([, init]) => JSON.parse(init.body));
+      expect(puts.length).toBeGreaterThan(0);
+      puts.forEach(put => {
+        expect(put.columns.map((col: { key: string }) => col.key)).toEqual(['product', '2021', '2020']);
+        expect(put.items[0]).toEqual({ product: 'Item 0', '2020': 1000, '2021': 2000 });
+      });
+    } finally {
+      delete (window as { Worker?: unknown }).Worker;
+    }
+  });
+
   describe('Error Handling Edge Cases', () => {
     it('handles malformed JSON response', async () => {
       (fetch as jest.Mock).mockResolvedValueOnce({
@@ -1,7 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import Spreadsheet from '../components/Spreadsheet';
+import { useState, useEffect, useRef } from 'react';
+import Spreadsheet, { type CellData } from '../components/Spreadsheet';
+import { useWorkbookSync, snapshotFromGrid, type CellFormat } from '../hooks/useWorkbookSync';
+import type { NamedRange } from '../lib/formula';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -33,9 +35,19 @@ type TableData = {
 /**
  * Expected structure of the API response
  * @property Values - The main table data
+ * @property formulas - Stored formulas keyed by `${row}:${columnKey}`
+ * @property formats - Stored cell formatting keyed by `${row}:${columnKey}`
+ * @property names - Stored named ranges
+ * @property workbookId - Id of the stored workbook, used for saving
+ * @property revision - Stored revision the data was read at
  */
 type ApiResponse = {
   Values: TableData;
+  formulas?: Record<string, string>;
+  formats?: Record<string, CellFormat>;
+  names?: NamedRange[];
+  workbookId?: string;
+  revision?: number;
 };
 
 // ============================================================================
@@ -49,6 +61,7 @@ type ApiResponse = {
  * - Fetches data from the backend API
  * - Handles loading and error states
  * - Manages data updates for column operations
+ * - Auto-saves edits back to the backend
  * - Renders the main Spreadsheet component
  * 
  * The component communicates with a backend server running on port 4000
@@ -74,6 +87,22 @@ export default function Home() {
   
   /** Error state if data fetching fails */
   const [error, setError] = useState<string | null>(null);
+  
+  /** Formulas loaded with the data, passed through to the Spreadsheet */
+  const [formulas, setFormulas] = useState<Record<string, string>>({});
+  
+  /** Cell formatting loaded with the data, passed through to the Spreadsheet */
+  const [formats, setFormats] = useState<Record<string, CellFormat>>({});
+  
+  /** Named ranges, as loaded and as last changed in the Spreadsheet */
+  const [names, setNames] = useState<NamedRange[]>([]);
+  
+  /** Latest grid reported by the Spreadsheet, with the columns it is laid out for (null until the first edit) */
+  const latestGridRef = useRef<{ grid: CellData[][]; columns: Column[] } | null>(null);
+  
+  /** Debounced save queue for the loaded workbook */
+  const sync = useWorkbookSync(API_URL);
+  const { start: startSync, queue: queueSave } = sync;
 
   // ============================================================================
   // DATA FETCHING
@@ -94,6 +123,24 @@ export default function Home() {
         }
         const apiData: ApiResponse = await response.json();
         setData(apiData.Values);
+        setFormulas(apiData.formulas || {});
+        setFormats(apiData.formats || {});
+        setNames(apiData.names || []);
+        
+        // Only workbooks served from the store can be saved back
+        if (apiData.Values && apiData.workbookId && apiData.revision !== undefined) {
+          startSync({
+            workbookId: apiData.workbookId,
+            revision: apiData.revision,
+            snapshot: {
+              columns: apiData.Values.columns,
+              items: apiData.Values.items,
+              formulas: apiData.formulas || {},
+              formats: apiData.formats || {},
+              names: apiData.names || []
+            }
+          });
+        }
       } catch (err) {
         console.error('Error fetching data:', err);
         setError(err instanceof Error ? err.message : 'Failed to fetch data');
@@ -103,7 +150,25 @@ export default function Home() {
     };
 
     fetchData();
-  }, []);
+  }, [startSync]);
+
+  /**
+   * Queue a save when columns are added, renamed or reordered, or named ranges change
+   * Uses the latest grid if the user has edited cells, otherwise the loaded items.
+   * A grid laid out for other columns waits for the Spreadsheet to report it
+   * again, so values are never saved under the wrong column keys
+   */
+  useEffect(() => {
+    if (!data) return;
+    const latest = latestGridRef.current;
+    if (!latest) {
+      queueSave({ columns: data.columns, items: data.items, formulas, formats, names });
+      return;
+    }
+    const isLaidOut = latest.columns.length === data.columns.length
+      && latest.columns.every((col, index) => col.key === data.columns[index].key);
+    if (isLaidOut) queueSave(snapshotFromGrid(data.columns, latest.grid, names));
+  }, [data, formulas, formats, names, queueSave]);
 
   // ============================================================================
   // LOADING STATE
@@ -223,6 +288,30 @@ export default function Home() {
     });
   };
 
+  /**
+   * Handle deleting columns
+   * Removes the columns and their values from every row
+   * @param indexes - Positions of the columns to delete
+   */
+  const handleDeleteColumns = (indexes: number[]) => {
+    setData(prevData => {
+      if (!prevData) return prevData;
+
+      const deletedKeys = new Set(indexes.map(index => prevData.columns[index]?.key));
+      return {
+        ...prevData,
+        columns: prevData.columns.filter(col => !deletedKeys.has(col.key)),
+        items: prevData.items.map(item => {
+          const newItem = { ...item };
+          deletedKeys.forEach(key => {
+            if (key !== undefined) delete newItem[key];
+          });
+          return newItem;
+        })
+      };
+    });
+  };
+
   /**
    * Handle reordering columns via drag and drop
    * Moves a column from source index to target index
@@ -245,15 +334,35 @@ export default function Home() {
     });
   };
 
+  /**
+   * Handle any change to the Spreadsheet's cell data
+   * Queues the new contents for auto-save
+   * @param gridData - Full grid after the change
+   * @param columns - Columns the grid is laid out for
+   */
+  const handleDataChange = (gridData: CellData[][], columns: Column[]) => {
+    latestGridRef.current = { grid: gridData, columns };
+    queueSave(snapshotFromGrid(columns, gridData, names));
+  };
+
   // ============================================================================
   // MAIN RENDER
   // ============================================================================
   
   return     <Spreadsheet 
       data={data} 
+      formulas={formulas}
+      formats={formats}
+      names={names}
+      onNamesChange={setNames}
       onHeaderChange={handleHeaderChange} 
       onAddColumns={handleAddColumns} 
       onInsertColumn={handleInsertColumn} 
+      onDeleteColumns={handleDeleteColumns}
       onReorderColumns={handleReorderColumns} 
+      onDataChange={handleDataChange}
+      saveStatus={sync.status}
+      saveMessage={sync.message}
+      conflicts={sync.conflicts}
     />;
 }
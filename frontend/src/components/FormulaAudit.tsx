@@ -0,0 +1,157 @@
+'use client';
+
+import React, { useState } from 'react';
+import clsx from 'clsx';
+import {
+  FormulaError,
+  formatCellReference,
+  formatRangeReference,
+  type CellAddress,
+  type EvaluationStep,
+  type Precedent
+} from '../lib/formula';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Props interface for the FormulaAudit panel
+ * @property address - Cell being audited
+ * @property formula - Its formula, if it has one
+ * @property precedents - Cells and ranges its value comes from directly
+ * @property dependents - Formula cells that read it directly
+ * @property steps - Evaluation steps of its formula, or why the formula cannot be evaluated
+ * @property onSelectCell - Callback to select a traced cell, to follow the trace further
+ * @property onClose - Callback to leave auditing mode
+ */
+type Props = {
+  address: CellAddress;
+  formula?: string;
+  precedents: Precedent[];
+  dependents: CellAddress[];
+  steps: EvaluationStep[] | FormulaError | null;
+  onSelectCell: (address: CellAddress) => void;
+  onClose: () => void;
+};
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Highlight colors on the grid, matched by the chips in the panel */
+export const AUDIT_COLORS = {
+  precedent: '#2563eb',
+  dependent: '#ea580c'
+} as const;
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Panel for auditing the selected cell: the cells it depends on and the cells
+ * that depend on it (both outlined on the grid), and an Evaluate Formula
+ * step-through showing the value of each part of its formula, innermost first
+ * Remount it (via key) for a different cell, to restart the step-through
+ */
+const FormulaAudit: React.FC<Props> = ({ address, formula, precedents, dependents, steps, onSelectCell, onClose }) => {
+  /** Number of evaluation steps taken so far */
+  const [taken, setTaken] = useState(0);
+
+  const evaluationSteps = Array.isArray(steps) ? steps : [];
+  const current = taken === 0 ? formula : evaluationSteps[taken - 1].formula;
+  const next = evaluationSteps[taken];
+
+  /**
+   * Render the traced cells as buttons that select them
+   * @param kind - Which trace the cells belong to, for their color
+   * @param cells - Blocks of cells to list
+   */
+  const renderTraced = (kind: keyof typeof AUDIT_COLORS, cells: Precedent[]) =>
+    cells.length === 0 ? (
+      <span className="text-gray-400">none</span>
+    ) : (
+      cells.map(({ start, end }, i) => (
+        <button
+          key={i}
+          onClick={() => onSelectCell(start)}
+          className="px-1.5 py-0.5 rounded border font-mono text-xs hover:bg-gray-50"
+          style={{ borderColor: AUDIT_COLORS[kind], color: AUDIT_COLORS[kind] }}
+        >
+          {formatRangeReference(start, end)}
+        </button>
+      ))
+    );
+
+  return (
+    <section
+      aria-label="Formula auditing"
+      className="bg-slate-50 px-4 sm:px-6 py-2 border-b border-gray-300 text-sm text-gray-700 flex-shrink-0"
+    >
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <span className="font-semibold text-gray-900">Auditing {formatCellReference(address)}</span>
+        <span className="flex flex-wrap items-center gap-1" data-testid="audit-precedents">
+          Precedents: {renderTraced('precedent', precedents)}
+        </span>
+        <span className="flex flex-wrap items-center gap-1" data-testid="audit-dependents">
+          Dependents: {renderTraced('dependent', dependents.map(cell => ({ start: cell, end: cell })))}
+        </span>
+        <button onClick={onClose} className="ml-auto text-gray-500 hover:text-gray-800" aria-label="Stop auditing">
+          ×
+        </button>
+      </div>
+
+      {formula && (
+        <div className="mt-2 flex flex-wrap items-start gap-3">
+          <div className="flex-1 min-w-[16rem]">
+            <div className="text-xs text-gray-500">Evaluate formula</div>
+            <div className="font-mono text-gray-900 break-all" data-testid="evaluation-formula">
+              {current}
+            </div>
+            {steps instanceof FormulaError ? (
+              <div className="text-xs text-red-700">{steps.message}</div>
+            ) : (
+              <div className="text-xs text-gray-500">
+                {next ? (
+                  <>
+                    Next: <span className="font-mono underline text-gray-800">{next.expression}</span>
+                  </>
+                ) : (
+                  'Evaluation complete'
+                )}
+              </div>
+            )}
+            {taken > 0 && (
+              <ol className="mt-1 max-h-28 overflow-y-auto text-xs font-mono text-gray-600">
+                {evaluationSteps.slice(0, taken).map((step, i) => (
+                  <li key={i} className={clsx(i === taken - 1 && 'text-gray-900')}>
+                    {step.expression} → {step.value}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setTaken(taken + 1)}
+              disabled={!next}
+              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-medium disabled:bg-gray-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+            >
+              Evaluate
+            </button>
+            <button
+              onClick={() => setTaken(0)}
+              disabled={taken === 0}
+              className="px-3 py-1.5 border border-gray-400 rounded-md text-sm disabled:text-gray-400 disabled:cursor-not-allowed"
+            >
+              Restart
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default FormulaAudit;
@@ -0,0 +1,113 @@
+'use client';
+
+import React from 'react';
+import clsx from 'clsx';
+import type { FormulaCompletion, SignatureHelp } from '../lib/formula';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Props interface for the FormulaHints popup
+ * @property completions - Functions, names and columns that can complete the word being typed
+ * @property activeIndex - Completion highlighted for Enter/Tab
+ * @property signature - Signature of the function call being typed, if any
+ * @property onSelect - Callback to insert a completion
+ * @property onHighlight - Callback when the mouse moves over a completion
+ */
+type Props = {
+  completions: FormulaCompletion[];
+  activeIndex: number;
+  signature: SignatureHelp | null;
+  onSelect: (completion: FormulaCompletion) => void;
+  onHighlight: (index: number) => void;
+};
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Badge shown before each completion, by kind */
+const KIND_BADGES: Record<FormulaCompletion['kind'], { text: string; className: string }> = {
+  function: { text: 'fx', className: 'text-purple-700 bg-purple-50' },
+  name: { text: 'N', className: 'text-green-700 bg-green-50' },
+  column: { text: 'C', className: 'text-blue-700 bg-blue-50' }
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Popup under a formula being edited: the signature of the function call under the
+ * caret, with the current argument in bold, and a list of completions for the word
+ * being typed
+ * Rendered inside a relatively positioned parent, below the input
+ */
+const FormulaHints: React.FC<Props> = ({ completions, activeIndex, signature, onSelect, onHighlight }) => {
+  if (!signature && completions.length === 0) return null;
+
+  return (
+    <div
+      className="absolute left-0 top-full mt-1 z-50 w-80 max-w-[90vw] text-left font-sans"
+      // Clicks here are not clicks on the cell underneath
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      {signature && (
+        <div role="tooltip" className="mb-1 px-2 py-1.5 bg-white border border-gray-300 rounded shadow text-xs text-gray-700">
+          <div className="font-mono">
+            {signature.name}(
+            {signature.args.map((arg, i) => (
+              <React.Fragment key={i}>
+                {i > 0 && ', '}
+                <span className={clsx(i === signature.activeArgument && 'font-bold text-gray-900')}>{arg}</span>
+              </React.Fragment>
+            ))}
+            )
+            {signature.returns && signature.returns !== 'any' && (
+              <span className="text-gray-500"> → {signature.returns}</span>
+            )}
+          </div>
+          <div className="mt-0.5 text-gray-500">{signature.description}</div>
+        </div>
+      )}
+
+      {completions.length > 0 && (
+        <ul
+          role="listbox"
+          aria-label="Formula suggestions"
+          className="max-h-56 overflow-y-auto bg-white border border-gray-300 rounded shadow text-sm"
+        >
+          {completions.map((completion, i) => (
+            <li
+              key={`${completion.kind}:${completion.insertText}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              className={clsx(
+                'flex items-baseline gap-2 px-2 py-1 cursor-pointer',
+                i === activeIndex ? 'bg-blue-100' : 'hover:bg-gray-50'
+              )}
+              // Keep focus in the input being edited
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onSelect(completion);
+              }}
+              onMouseEnter={() => onHighlight(i)}
+            >
+              <span className={clsx('w-5 flex-shrink-0 rounded text-center text-[10px] font-semibold', KIND_BADGES[completion.kind].className)}>
+                {KIND_BADGES[completion.kind].text}
+              </span>
+              <span className="font-mono text-gray-900">{completion.label}</span>
+              <span className="text-xs text-gray-500 truncate">{completion.detail}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default FormulaHints;
@@ -0,0 +1,215 @@
+'use client';
+
+import React, { useState } from 'react';
+import clsx from 'clsx';
+import { parseNamedReference, validateName, type NamedRange } from '../lib/formula';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Props interface for the NameManager dialog
+ * @property names - Named ranges currently defined
+ * @property defaultReference - Reference offered for a new name (usually the selection)
+ * @property onSave - Callback to define a name, or to update the one named `previous`
+ * @property onDelete - Callback to delete a name
+ * @property onClose - Callback when the dialog is dismissed
+ */
+type Props = {
+  names: NamedRange[];
+  defaultReference: string;
+  onSave: (named: NamedRange, previous?: string) => void;
+  onDelete: (name: string) => void;
+  onClose: () => void;
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Dialog listing the workbook's named ranges, with a form to create, edit and delete them
+ * Editing a name's text renames it in every formula that uses it
+ */
+const NameManager: React.FC<Props> = ({ names, defaultReference, onSave, onDelete, onClose }) => {
+  /** Name being edited, or null when the form defines a new name */
+  const [editing, setEditing] = useState<string | null>(null);
+
+  /** Name field */
+  const [name, setName] = useState('');
+
+  /** "Refers to" field */
+  const [reference, setReference] = useState(defaultReference);
+
+  /** Why the form cannot be saved, shown under the fields */
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fill the form with an existing name for editing
+   * @param named - Name to edit
+   */
+  const startEditing = (named: NamedRange) => {
+    setEditing(named.name);
+    setName(named.name);
+    setReference(named.reference);
+    setError(null);
+  };
+
+  /** Reset the form to define a new name */
+  const resetForm = () => {
+    setEditing(null);
+    setName('');
+    setReference(defaultReference);
+    setError(null);
+  };
+
+  /**
+   * Validate the form and save the name
+   * References are stored without the leading "=" and in upper case (e.g. "E2:E12")
+   * @param e - Form submit event
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    const nameError = validateName(trimmed, names, editing ?? undefined);
+    if (nameError) {
+      setError(nameError);
+      return;
+    }
+    const normalized = reference.trim().replace(/^=/, '').toUpperCase();
+    if (!parseNamedReference(normalized)) {
+      setError(`"${reference.trim()}" is not a cell or range (e.g. E2:E12)`);
+      return;
+    }
+
+    onSave({ name: trimmed, reference: normalized }, editing ?? undefined);
+    resetForm();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/30 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-label="Named ranges"
+        className="bg-white rounded-lg shadow-xl w-full max-w-lg p-5"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onClose();
+        }}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Named ranges</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-800 text-xl leading-none"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {names.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-4">
+            No names yet. Define one below and use it in formulas, e.g. <code>=SUM(Revenue2023)</code>.
+          </p>
+        ) : (
+          <table className="w-full text-sm mb-4">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-300">
+                <th className="py-1 font-medium">Name</th>
+                <th className="py-1 font-medium">Refers to</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {names.map(named => (
+                <tr
+                  key={named.name}
+                  className={clsx('border-b border-gray-100', editing === named.name && 'bg-blue-50')}
+                >
+                  <td className="py-1.5 font-mono">{named.name}</td>
+                  <td className={clsx('py-1.5 font-mono', named.reference === '#REF!' && 'text-red-600')}>
+                    {named.reference}
+                  </td>
+                  <td className="py-1.5 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => startEditing(named)}
+                      className="px-2 py-0.5 text-blue-700 hover:underline"
+                      aria-label={`Edit ${named.name}`}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => {
+                        onDelete(named.name);
+                        if (editing === named.name) resetForm();
+                      }}
+                      className="px-2 py-0.5 text-red-700 hover:underline"
+                      aria-label={`Delete ${named.name}`}
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="flex gap-3">
+            <label className="flex-1 text-sm text-gray-700">
+              Name
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Revenue2023"
+                className="mt-1 w-full px-2 py-1 border border-gray-400 rounded font-mono"
+                autoFocus
+              />
+            </label>
+            <label className="flex-1 text-sm text-gray-700">
+              Refers to
+              <input
+                type="text"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="E2:E12"
+                className="mt-1 w-full px-2 py-1 border border-gray-400 rounded font-mono"
+              />
+            </label>
+          </div>
+          {error && (
+            <div className="text-sm text-red-700" role="alert">
+              {error}
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            {editing && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-4 py-1.5 border border-gray-400 rounded-md text-sm"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-medium"
+            >
+              {editing ? 'Save' : 'Add name'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default NameManager;
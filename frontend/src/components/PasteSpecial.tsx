@@ -0,0 +1,161 @@
+'use client';
+
+import React, { useState } from 'react';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * What Paste Special takes from the copied cells
+ * - all: formulas, values and formatting, as a normal paste does
+ * - values: the values formulas show, as static values
+ * - formats: formatting only, leaving the cells' contents alone
+ * - formulas: formulas and values, leaving the cells' formatting alone
+ */
+export type PasteMode = 'all' | 'values' | 'formats' | 'formulas';
+
+/**
+ * How Paste Special pastes the copied cells
+ * @property mode - What to take from the copied cells
+ * @property transpose - Whether copied rows become columns and columns become rows
+ * @property skipBlanks - Whether empty copied cells leave the cells they land on alone
+ */
+export type PasteOptions = { mode: PasteMode; transpose: boolean; skipBlanks: boolean };
+
+/**
+ * Props interface for the PasteSpecial dialog
+ * @property rows - Rows in the copied block
+ * @property columns - Columns in the copied block
+ * @property onPaste - Callback to paste with the chosen options
+ * @property onClose - Callback when the dialog is dismissed
+ */
+type Props = {
+  rows: number;
+  columns: number;
+  onPaste: (options: PasteOptions) => void;
+  onClose: () => void;
+};
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Paste modes in the order they are offered, with their labels */
+const PASTE_MODES: { mode: PasteMode; label: string; description: string }[] = [
+  { mode: 'all', label: 'All', description: 'Formulas, values and formatting' },
+  { mode: 'values', label: 'Values', description: 'What the cells show, without formulas' },
+  { mode: 'formats', label: 'Formats', description: 'Formatting only' },
+  { mode: 'formulas', label: 'Formulas', description: 'Formulas and values, without formatting' }
+];
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Dialog choosing how to paste the cells last copied from the grid
+ */
+const PasteSpecial: React.FC<Props> = ({ rows, columns, onPaste, onClose }) => {
+  /** Chosen paste mode */
+  const [mode, setMode] = useState<PasteMode>('all');
+
+  /** Whether to swap rows and columns */
+  const [transpose, setTranspose] = useState(false);
+
+  /** Whether empty copied cells are skipped */
+  const [skipBlanks, setSkipBlanks] = useState(false);
+
+  /**
+   * Paste with the chosen options
+   * @param e - Form submit event
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onPaste({ mode, transpose, skipBlanks });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/30 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-label="Paste special"
+        className="bg-white rounded-lg shadow-xl w-full max-w-sm p-5"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onClose();
+        }}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Paste special</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-800 text-xl leading-none"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-500 mb-3">
+          Pasting {rows} × {columns} copied {rows * columns === 1 ? 'cell' : 'cells'}
+          {transpose && ` as ${columns} × ${rows}`}.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <fieldset className="space-y-1.5">
+            <legend className="text-sm font-medium text-gray-700 mb-1">Paste</legend>
+            {PASTE_MODES.map(option => (
+              <label key={option.mode} className="flex items-baseline gap-2 text-sm text-gray-800">
+                <input
+                  type="radio"
+                  name="paste-mode"
+                  value={option.mode}
+                  checked={mode === option.mode}
+                  onChange={() => setMode(option.mode)}
+                  autoFocus={option.mode === mode}
+                />
+                <span>
+                  {option.label}
+                  <span className="ml-2 text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <div className="space-y-1.5">
+            <label className="flex items-center gap-2 text-sm text-gray-800">
+              <input type="checkbox" checked={skipBlanks} onChange={(e) => setSkipBlanks(e.target.checked)} />
+              Skip blanks
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-800">
+              <input type="checkbox" checked={transpose} onChange={(e) => setTranspose(e.target.checked)} />
+              Transpose
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-1.5 border border-gray-400 rounded-md text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-medium"
+            >
+              Paste
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PasteSpecial;
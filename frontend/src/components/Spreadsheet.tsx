@@ -2,6 +2,48 @@
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import clsx from 'clsx';
+import { useRecalculation } from '../hooks/useRecalculation';
+import type { SyncStatus, CellChange } from '../hooks/useWorkbookSync';
+import FormulaAudit, { AUDIT_COLORS } from './FormulaAudit';
+import FormulaHints from './FormulaHints';
+import NameManager from './NameManager';
+import PasteSpecial, { type PasteOptions } from './PasteSpecial';
+import { parseNumberText, readClipboard, toHTMLTable, toTSV, type ClipboardCell } from '../lib/clipboard';
+import { fillSeries, type FillCell, type FillDirection } from '../lib/fill';
+import {
+  evaluateFormula as evaluateFormulaText,
+  columnIndexToLetter,
+  createNameResolver,
+  describeCellError,
+  displayGridValue,
+  evaluateFormulaSteps,
+  findCircularReferences,
+  findCompletions,
+  findFormulaReferences,
+  formatCellReference,
+  formatRangeReference,
+  getSignatureHelp,
+  isReferenceInsertionPoint,
+  parseGridInput,
+  readGridCell,
+  recalculateGrid,
+  registerFunction,
+  renameInGridFormulas,
+  rewriteGridFormulas,
+  rewriteNamedRanges,
+  shiftFormula,
+  toGridValue,
+  traceDependents,
+  tracePrecedents,
+  type CellAddress,
+  type CellError,
+  type CellValue as FormulaCellValue,
+  type FormulaCompletion,
+  type FormulaFunction,
+  type NamedRange,
+  type SpillSize,
+  type StructuralChange
+} from '../lib/formula';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -58,32 +100,79 @@ type CellFormat = {
 
 /**
  * Represents the complete data for a single cell
- * @property value - The actual value (string or number)
+ * @property value - The actual value (string or number; dates are serial numbers)
+ * @property type - "date" when the value is a date serial number
  * @property format - Visual formatting options
  * @property formula - Excel-like formula (e.g., "=SUM(A1:A10)")
+ * @property error - Why the cell shows an error value (e.g. "#DIV/0!"), if it does
+ * @property spill - Size of the formula's multi-cell result, when it spills
+ * @property spilledFrom - Formula cell whose spilled result this read-only cell shows
  */
-type CellData = {
+export type CellData = {
   value: string | number;
+  type?: 'date';
   format?: CellFormat;
   formula?: string;
+  error?: CellError;
+  spill?: SpillSize;
+  spilledFrom?: CellAddress;
 };
 
+/**
+ * Cells last copied or cut from the grid, kept for pasting with their formulas
+ * @property cells - The copied cells by row (header cells hold the column name as their value)
+ * @property origin - Top-left cell the block was copied from
+ * @property text - Plain text put on the clipboard, to recognise the block when it is pasted back
+ * @property cut - Whether the block was cut, so its formulas move without adjusting their references
+ */
+type CopiedBlock = { cells: CellData[][]; origin: CellPosition; text: string; cut: boolean };
+
 /**
  * Props interface for the Spreadsheet component
  * @property data - The table data to display
  * @property onHeaderChange - Callback when column headers are renamed
  * @property onAddColumns - Callback when new columns are added
  * @property onInsertColumn - Callback when a column is inserted at a specific position
+ * @property onDeleteColumns - Callback when columns are deleted, with their indexes in ascending order
  * @property onReorderColumns - Callback when columns are reordered
+ * @property formulas - Stored formulas keyed by `${row}:${columnKey}`, restored on load
+ * @property formats - Stored cell formatting keyed by `${row}:${columnKey}`, restored on load
+ * @property onDataChange - Callback with the full grid and its columns after every change to cell data, once its formulas are recalculated
+ * @property names - Named ranges formulas can use (e.g. Revenue2023 = E2:E12), restored on load
+ * @property onNamesChange - Callback with every named range after names are created, edited,
+ *   deleted or moved by a structural change
+ * @property saveStatus - Save state shown in the toolbar (hidden when omitted)
+ * @property saveMessage - Additional save warning shown next to the status
+ * @property conflicts - Cells a teammate saved first, shown in place of the local edits
+ *   the backend rejected (keyed by column key, as the backend stores them)
+ * @property functions - Custom functions formulas can call, keyed by name (e.g. RUNRATE);
+ *   keep the object stable, since every change recalculates all formulas
  */
 type Props = {
   data: TableData;
   onHeaderChange?: (columnIndex: number, newName: string) => void;
   onAddColumns?: (newColumns: {name: string, key: string}[]) => void;
   onInsertColumn?: (index: number, column: {name: string, key: string}) => void;
+  onDeleteColumns?: (indexes: number[]) => void;
   onReorderColumns?: (sourceIndex: number, targetIndex: number) => void;
+  formulas?: Record<string, string>;
+  formats?: Record<string, CellFormat>;
+  onDataChange?: (gridData: CellData[][], columns: Column[]) => void;
+  names?: NamedRange[];
+  onNamesChange?: (names: NamedRange[]) => void;
+  saveStatus?: SyncStatus | null;
+  saveMessage?: string | null;
+  conflicts?: CellChange[];
+  functions?: Record<string, FormulaFunction>;
 };
 
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Outline colors for the ranges a formula refers to while it is edited, used in order */
+const REFERENCE_COLORS = ['#2563eb', '#dc2626', '#7c3aed', '#059669', '#d97706', '#db2777'];
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -108,7 +197,23 @@ type Props = {
  * - Memoized calculations for sorting and filtering
  * - Efficient cell reference parsing and formula evaluation
  */
-const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onInsertColumn, onReorderColumns }) => {
+const Spreadsheet: React.FC<Props> = ({
+  data,
+  onHeaderChange,
+  onAddColumns,
+  onInsertColumn,
+  onDeleteColumns,
+  onReorderColumns,
+  formulas,
+  formats,
+  onDataChange,
+  names,
+  onNamesChange,
+  saveStatus,
+  saveMessage,
+  conflicts,
+  functions
+}) => {
   // ============================================================================
   // SELECTION STATE
   // ============================================================================
@@ -125,19 +230,49 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
   /** Cell currently being edited (double-clicked) */
   const [editingCell, setEditingCell] = useState<CellPosition | null>(null);
 
+  /** Text typed into the cell being edited, stored in the grid once editing finishes */
+  const [draft, setDraft] = useState<{ row: number; col: number; text: string } | null>(null);
+
+  /** Whether the selected cell is being edited in the formula bar */
+  const [isFormulaBarFocused, setIsFormulaBarFocused] = useState(false);
+
+  /** Caret position in the formula being edited, or null for the end of the text */
+  const [editCaret, setEditCaret] = useState<number | null>(null);
+
+  /** Formula suggestion highlighted for Enter/Tab */
+  const [completionIndex, setCompletionIndex] = useState(0);
+
+  /** Whether Escape closed the formula suggestions; typing opens them again */
+  const [completionsDismissed, setCompletionsDismissed] = useState(false);
+
   // ============================================================================
   // SPREADSHEET DATA STATE
   // ============================================================================
   
+  /** Named ranges formulas can use in place of references */
+  const [namedRanges, setNamedRanges] = useState<NamedRange[]>(names ?? []);
+
+  /** Whether the named range manager dialog is open */
+  const [showNameManager, setShowNameManager] = useState(false);
+
+  /** Cells last copied or cut from the grid, for Paste Special */
+  const [copiedBlock, setCopiedBlock] = useState<CopiedBlock | null>(null);
+
+  /** Whether the Paste Special dialog is open */
+  const [showPasteSpecial, setShowPasteSpecial] = useState(false);
+
   /** 2D array of cell data (rows x columns) - the main data structure */
   const [gridData, setGridData] = useState<CellData[][]>(() => {
-    // Initialize from props data, converting to CellData format
-    return data.items.map(row => 
+    // Initialize from props data, converting to CellData format (date text becomes dates)
+    const initial = data.items.map((row, rowIndex) => 
       data.columns.map(col => ({
-        value: row[col.key] !== undefined && row[col.key] !== null ? row[col.key] : '',
-        format: {}
+        ...parseGridInput(row[col.key] !== undefined && row[col.key] !== null ? row[col.key] : ''),
+        format: formats?.[`${rowIndex}:${col.key}`] ?? {},
+        formula: formulas?.[`${rowIndex}:${col.key}`]
       }))
     );
+    // Recompute restored formulas so their values match the loaded data
+    return recalculateGrid(initial, data.columns.map(col => col.name), undefined, names);
   });
   
   /** Width of each column in pixels - supports custom column widths */
@@ -161,6 +296,9 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
   /** Starting position of the current drag operation */
   const [dragStart, setDragStart] = useState<CellPosition | null>(null);
 
+  /** Fill handle drag in progress: the selected cells being extended, and the cell under the pointer */
+  const [fillDrag, setFillDrag] = useState<{ source: CellRange; target: CellPosition } | null>(null);
+
   // ============================================================================
   // UNDO/REDO HISTORY STATE
   // ============================================================================
@@ -169,6 +307,7 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
   type HistoryState = {
     gridData: CellData[][];
     columns: Column[];
+    names: NamedRange[];
   };
   
   /** Stack of previous states for undo/redo functionality */
@@ -256,6 +395,13 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
     type: 'column' | 'row';
     index: number;
   }>({ show: false, x: 0, y: 0, type: 'column', index: 0 });
+
+  // ============================================================================
+  // AUDITING STATE
+  // ============================================================================
+
+  /** Whether auditing mode traces the selected cell's precedents and dependents */
+  const [isAuditing, setIsAuditing] = useState(false);
   
   // ============================================================================
   // VIRTUAL SCROLLING STATE
@@ -286,6 +432,24 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
   
   /** Reference to the main scrollable container for virtual scrolling */
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  
+  /** Whether gridData still holds the data it was initialized with */
+  const isInitialGridRef = useRef(true);
+
+  /** Input the current edit is typed in (the cell's own input or the formula bar) */
+  const activeInputRef = useRef<HTMLInputElement | null>(null);
+
+  /** Where the reference inserted by clicking a cell sits in the formula, so dragging can replace it */
+  const pointedSpanRef = useRef<{ start: number; end: number } | null>(null);
+
+  /** Cell the mouse went down on while pointing at cells to insert a reference */
+  const pointingFromRef = useRef<CellAddress | null>(null);
+
+  /** Caret position to restore in the active input once an inserted reference is rendered */
+  const pendingCaretRef = useRef<number | null>(null);
+
+  /** Whether the next cell click finishes pointing and should not change the selection */
+  const pointingClickRef = useRef(false);
 
   // ============================================================================
   // EFFECTS AND UTILITY FUNCTIONS
@@ -362,7 +526,7 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
     const filtered = gridData.filter(row => {
       // Early exit optimization - check if any cell matches
       for (let i = 0; i < row.length; i++) {
-        const cellValue = String(row[i].value).toLowerCase();
+        const cellValue = String(displayGridValue(row[i])).toLowerCase();
         if (cellValue.includes(lowerFilterText)) {
           return true;
         }
@@ -433,6 +597,119 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
     });
   }, [visibleRows, sortColumn, sortDirection]);
 
+  // ============================================================================
+  // RECALCULATION
+  // ============================================================================
+
+  /** Recalculates formulas, in a background worker for large grids; `recalcStatus` tracks its progress */
+  const { status: recalcStatus, recalculate } = useRecalculation(setGridData);
+
+  /** Latest grid data, for recalculating from effects */
+  const gridDataRef = useRef(gridData);
+  gridDataRef.current = gridData;
+
+  /**
+   * Store updated grid data, recalculating the formulas that depend on it
+   * @param updated - New grid data
+   * @param changed - Cells whose values changed; omit to recalculate every formula
+   * @param nextNames - Named ranges to use, when they change along with the grid
+   */
+  const commitGridData = useCallback((updated: CellData[][], changed?: CellAddress[], nextNames = namedRanges) => {
+    recalculate(updated, data.columns.map(col => col.name), changed, nextNames);
+  }, [data.columns, namedRanges, recalculate]);
+
+  /** Latest commitGridData, for recalculating from effects */
+  const commitGridDataRef = useRef(commitGridData);
+  commitGridDataRef.current = commitGridData;
+
+  /** Latest columns, for finding the cells the backend reports by column key */
+  const columnsRef = useRef(data.columns);
+  columnsRef.current = data.columns;
+
+  /**
+   * Report cell data changes to the parent (e.g. for auto-save), with the columns the grid is laid out for
+   * Skips the initial grid since it came from the parent in the first place, and
+   * waits while formulas are recalculated in the background so stale values are not saved
+   */
+  useEffect(() => {
+    if (isInitialGridRef.current) {
+      isInitialGridRef.current = false;
+      return;
+    }
+    if (recalcStatus) return;
+    onDataChange?.(gridData, columnsRef.current);
+  }, [gridData, recalcStatus, onDataChange]);
+
+  /**
+   * Store new named ranges and recalculate every formula with them
+   * @param nextNames - Named ranges after the change
+   * @param updated - Grid data to recalculate (the current grid unless it changes too)
+   * @returns The grid data and named ranges stored, for the undo history
+   */
+  const commitNames = useCallback((nextNames: NamedRange[], updated: CellData[][] = gridData) => {
+    if (nextNames !== namedRanges) {
+      setNamedRanges(nextNames);
+      onNamesChange?.(nextNames);
+    }
+    commitGridData(updated, undefined, nextNames);
+    return { gridData: updated, names: nextNames };
+  }, [gridData, namedRanges, onNamesChange, commitGridData]);
+
+  /**
+   * Store grid data after rows or columns were inserted or moved
+   * Formulas and named ranges follow the cells they refer to
+   * @param updated - Grid data with the change applied
+   * @param change - The structural change
+   * @returns The grid data and named ranges stored, for the undo history
+   */
+  const commitStructuralChange = useCallback((updated: CellData[][], change: StructuralChange) => (
+    commitNames(rewriteNamedRanges(namedRanges, change), rewriteGridFormulas(updated, change))
+  ), [namedRanges, commitNames]);
+
+  /** Reference cycles in the grid, shown as a toolbar warning (e.g. "B2 → C2 → B2") */
+  const circularReferences = useMemo(
+    () => findCircularReferences(gridData, namedRanges).map(path => path.map(formatCellReference).join(' → ')),
+    [gridData, namedRanges]
+  );
+
+  // Header names are readable as row 1, so renaming a column recalculates formulas that use it
+  useEffect(() => {
+    recalculate(
+      gridDataRef.current,
+      data.columns.map(col => col.name),
+      data.columns.map((_, col) => ({ row: -1, col })),
+      namedRanges
+    );
+  }, [data.columns, namedRanges, recalculate]);
+
+  // Custom functions are callable while the spreadsheet is shown. Formulas that
+  // called them before they were registered showed #NAME?, so everything is recalculated
+  useEffect(() => {
+    if (!functions) return;
+    const unregister = Object.entries(functions).flatMap(([name, definition]) => {
+      try {
+        return [registerFunction(name, definition)];
+      } catch (error) {
+        console.error('Could not register formula function:', error);
+        return [];
+      }
+    });
+    commitGridDataRef.current(gridDataRef.current);
+    return () => unregister.forEach(remove => remove());
+  }, [functions]);
+
+  // A teammate's version of cells replaces the local edits the backend rejected
+  useEffect(() => {
+    if (!conflicts || conflicts.length === 0) return;
+    const updated = gridDataRef.current.map(row => [...row]);
+    conflicts.forEach(({ row, columnKey, value, formula, format }) => {
+      const col = columnsRef.current.findIndex(column => column.key === columnKey);
+      if (col === -1 || !updated[row]) return;
+      updated[row][col] = { ...parseGridInput(value), format: format ?? {}, formula: formula ?? undefined };
+    });
+    commitGridDataRef.current(updated);
+  }, [conflicts]);
+
   // ============================================================================
   // UNDO/REDO FUNCTIONS
   // ============================================================================
@@ -440,275 +717,294 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
   /**
    * Save current state to history for undo/redo functionality
    * Creates a deep copy of current grid data and columns
+   * @param next - Grid data, columns or named ranges just committed, used instead of the current ones
    */
-  const saveToHistory = useCallback(() => {
+  const saveToHistory = useCallback((next: Partial<HistoryState> = {}) => {
     const newHistory = history.slice(0, historyIndex + 1);
     newHistory.push({
-      gridData: JSON.parse(JSON.stringify(gridData)), // Deep copy
-      columns: JSON.parse(JSON.stringify(data.columns)) // Deep copy
+      gridData: JSON.parse(JSON.stringify(next.gridData ?? gridData)), // Deep copy
+      columns: JSON.parse(JSON.stringify(next.columns ?? data.columns)), // Deep copy
+      names: next.names ?? namedRanges // Never mutated, so no copy needed
     });
     setHistory(newHistory);
     setHistoryIndex(newHistory.length - 1);
-  }, [gridData, data.columns, history, historyIndex]);
+  }, [gridData, data.columns, namedRanges, history, historyIndex]);
+
+  /**
+   * Bring the parent's columns back to those of a history state
+   * Columns added since are deleted, then the rest are walked in the history
+   * state's order: deleted columns are inserted again, moved columns are moved
+   * back and renamed columns get their names back. The parent applies each
+   * change to the columns left by the one before, so positions are tracked as they go
+   * @param columns - Columns of the history state
+   */
+  const restoreColumns = useCallback((columns: Column[]) => {
+    const restoredKeys = new Set(columns.map(col => col.key));
+    const added = data.columns.flatMap((col, index) => (restoredKeys.has(col.key) ? [] : [index]));
+    let current = data.columns;
+    if (added.length > 0 && onDeleteColumns) {
+      onDeleteColumns(added);
+      current = current.filter(col => restoredKeys.has(col.key));
+    }
+
+    columns.forEach((col, index) => {
+      let position = current.findIndex(existing => existing.key === col.key);
+      if (position === -1) {
+        if (!onInsertColumn) return;
+        onInsertColumn(index, col);
+        current = [...current.slice(0, index), col, ...current.slice(index)];
+        return;
+      }
+      if (position !== index && onReorderColumns) {
+        onReorderColumns(position, index);
+        const moved = [...current];
+        moved.splice(index, 0, ...moved.splice(position, 1));
+        current = moved;
+        position = index;
+      }
+      if (current[position].name !== col.name && onHeaderChange) {
+        onHeaderChange(position, col.name);
+        current = current.map(existing => (existing.key === col.key ? { ...existing, name: col.name } : existing));
+      }
+    });
+  }, [data.columns, onDeleteColumns, onInsertColumn, onReorderColumns, onHeaderChange]);
 
   /**
    * Undo the last action by restoring previous state
-   * Handles both grid data and column name restoration
+   * Handles grid data, named ranges and columns (deleted, added, moved or renamed)
    */
   const undo = useCallback(() => {
     if (historyIndex > 0) {
       const previousState = history[historyIndex - 1];
-      setGridData(JSON.parse(JSON.stringify(previousState.gridData)));
-      
-      // Restore column names via onHeaderChange callback
-      if (onHeaderChange) {
-        previousState.columns.forEach((col, index) => {
-          if (col.name !== data.columns[index]?.name) {
-            onHeaderChange(index, col.name);
-          }
-        });
-      }
+      commitNames(previousState.names, JSON.parse(JSON.stringify(previousState.gridData)));
+      restoreColumns(previousState.columns);
       setHistoryIndex(historyIndex - 1);
     }
-  }, [history, historyIndex, onHeaderChange, data.columns]);
+  }, [history, historyIndex, restoreColumns, commitNames]);
 
   /**
    * Redo the last undone action by restoring next state
-   * Handles both grid data and column name restoration
+   * Handles grid data, named ranges and columns (deleted, added, moved or renamed)
    */
   const redo = useCallback(() => {
     if (historyIndex < history.length - 1) {
       const nextState = history[historyIndex + 1];
-      setGridData(JSON.parse(JSON.stringify(nextState.gridData)));
-      
-      // Restore column names via onHeaderChange callback
-      if (onHeaderChange) {
-        nextState.columns.forEach((col, index) => {
-          if (col.name !== data.columns[index]?.name) {
-            onHeaderChange(index, col.name);
-          }
-        });
-      }
+      commitNames(nextState.names, JSON.parse(JSON.stringify(nextState.gridData)));
+      restoreColumns(nextState.columns);
       setHistoryIndex(historyIndex + 1);
     }
-  }, [history, historyIndex, onHeaderChange, data.columns]);
+  }, [history, historyIndex, restoreColumns, commitNames]);
 
   // ============================================================================
   // FORMULA EVALUATION FUNCTIONS
   // ============================================================================
   
   /**
-   * Convert Excel-style column letter to zero-based index
-   * Examples: A=0, B=1, Z=25, AA=26, AB=27, etc.
-   * @param letter - The column letter(s) to convert
-   * @returns Zero-based column index
+   * Get the value of a cell for formula evaluation
+   * Handles both header row (row -1, Excel row 1) and data rows
+   * @param address - Grid coordinates of the cell
+   * @returns The cell value, null for blank and out-of-bounds cells, or an error value
    */
-  const columnLetterToIndex = useCallback((letter: string): number => {
-    let result = 0;
-    for (let i = 0; i < letter.length; i++) {
-      result = result * 26 + (letter.charCodeAt(i) - 65 + 1);
+  const getCellValue = useCallback(({ row, col }: CellAddress): FormulaCellValue => {
+    if (row === -1) {
+      return data.columns[col]?.name ?? null;
     }
-    return result - 1;
-  }, []);
+    return readGridCell(gridData[row]?.[col], { row, col });
+  }, [gridData, data.columns]);
+
+  /** Looks up named ranges in formulas */
+  const resolveName = useMemo(() => createNameResolver(namedRanges), [namedRanges]);
 
   /**
-   * Get the value of a cell by its Excel-style reference (e.g., "A1", "B2")
-   * Handles both header row (row 1) and data rows
-   * @param cellRef - Excel-style cell reference (e.g., "A1", "B2")
-   * @returns The cell value (string or number)
+   * Evaluate Excel-like formulas using the formula engine
+   * Supports arithmetic with operator precedence, comparisons, "&" concatenation,
+   * cell references, ranges, named ranges and nested function calls
+   * @param formula - The formula to evaluate without the leading "=" (e.g. "SUM(A2:A5)*2")
+   * @returns The calculated result, or an error code such as "#DIV/0!"
    */
-  const getCellValue = useCallback((cellRef: string): string | number => {
-    const match = cellRef.match(/^([A-Z]+)(\d+)$/);
-    if (!match) return 0;
-    
-    const colLetter = match[1];
-    const rowNum = parseInt(match[2], 10);
-    
-    // Convert to array indices
-    const colIndex = columnLetterToIndex(colLetter);
-    const rowIndex = rowNum - 2; // Account for header being row 1
-    
-    // Handle header row (row 1 in Excel = index 0 in our data)
-    if (rowNum === 1) {
-      return data.columns[colIndex]?.name || '';
-    }
-    
-    // Handle data rows (row 2+ in Excel = index 0+ in our data)
-    if (rowIndex >= 0 && rowIndex < gridData.length && colIndex >= 0 && colIndex < gridData[rowIndex].length) {
-      return gridData[rowIndex][colIndex]?.value || 0;
-    }
-    
-    return 0;
-  }, [gridData, data.columns, columnLetterToIndex]);
+  const evaluateFormula = useCallback((formula: string): number | string => {
+    return toGridValue(evaluateFormulaText(formula, { getCellValue, resolveName }));
+  }, [getCellValue, resolveName]);
+
+  // ============================================================================
+  // FORMULA EDITING
+  // ============================================================================
 
   /**
-   * Get all cell values in a range (e.g., "A1:B3", "A1")
-   * Supports both single cell references and ranges
-   * @param range - Excel-style range (e.g., "A1:B3", "A1")
-   * @returns Array of cell values
+   * Text shown when editing a cell: its draft while it is being edited, otherwise
+   * its formula, or its value for plain cells. Header cells edit the column name
+   * @param address - Cell to read
+   * @returns The raw text of the cell
    */
-  const getCellsInRange = useCallback((range: string): (string | number)[] => {
-    const values: (string | number)[] = [];
-    
-    // Handle single cell reference (no colon)
-    if (!range.includes(':')) {
-      values.push(getCellValue(range));
-      return values;
-    }
-    
-    // Handle range (e.g., "A1:B3")
-    const [startCell, endCell] = range.split(':');
-    if (!endCell) return values;
-  
-    // Parse start and end cell references
-    const startMatch = startCell.match(/^([A-Z]+)(\d+)$/);
-    const endMatch = endCell.match(/^([A-Z]+)(\d+)$/);
-    
-    if (!startMatch || !endMatch) return values;
-    
-    const startColIndex = columnLetterToIndex(startMatch[1]);
-    const startRowNum = parseInt(startMatch[2], 10);
-    const endColIndex = columnLetterToIndex(endMatch[1]);
-    const endRowNum = parseInt(endMatch[2], 10);
-    
-    // Ensure proper ordering (handle ranges like "B3:A1")
-    const minCol = Math.min(startColIndex, endColIndex);
-    const maxCol = Math.max(startColIndex, endColIndex);
-    const minRow = Math.min(startRowNum, endRowNum);
-    const maxRow = Math.max(startRowNum, endRowNum);
-    
-    // Iterate through all cells in the range
-    for (let rowNum = minRow; rowNum <= maxRow; rowNum++) {
-      for (let colIndex = minCol; colIndex <= maxCol; colIndex++) {
-        // Convert back to cell reference format
-        const colLetter = String.fromCharCode(65 + colIndex);
-        const cellRef = `${colLetter}${rowNum}`;
-        values.push(getCellValue(cellRef));
-      }
+  const getEditText = ({ row, col }: CellAddress): string => {
+    if (draft && draft.row === row && draft.col === col) return draft.text;
+    if (row === -1) return data.columns[col]?.name ?? '';
+    const cell = gridData[row]?.[col];
+    return cell ? cell.formula || String(displayGridValue(cell)) : '';
+  };
+
+  /** Cell being edited, in the grid or in the formula bar */
+  const formulaTarget = editingCell ?? (isFormulaBarFocused ? selectedCell : null);
+
+  /** Text of the cell being edited */
+  const editText = formulaTarget ? getEditText(formulaTarget) : '';
+
+  /** Formula cell whose spilled result the selected cell shows, if it does */
+  const selectedSpilledFrom = selectedCell && selectedCell.row !== -1
+    ? gridData[selectedCell.row]?.[selectedCell.col]?.spilledFrom
+    : undefined;
+
+  /** Ranges the formula being edited refers to, outlined on the grid in matching colors */
+  const editedReferences = useMemo(() => findFormulaReferences(editText, resolveName), [editText, resolveName]);
+
+  /**
+   * Outline color for a cell that the formula being edited refers to
+   * @param row - Row index
+   * @param col - Column index
+   * @returns The color of the first reference covering the cell, or undefined
+   */
+  const getReferenceColor = (row: number, col: number): string | undefined => {
+    const index = editedReferences.findIndex(({ start, end }) =>
+      row >= start.row && row <= end.row && col >= start.col && col <= end.col
+    );
+    return index === -1 ? undefined : REFERENCE_COLORS[index % REFERENCE_COLORS.length];
+  };
+
+  /** Named ranges and columns offered as completions, each column as the range of its values */
+  const completionSources = useMemo(() => ({
+    names: namedRanges,
+    columns: gridData.length === 0 ? [] : data.columns.map((column, col) => ({
+      name: column.name,
+      reference: formatRangeReference({ row: 0, col }, { row: gridData.length - 1, col })
+    }))
+  }), [namedRanges, data.columns, gridData.length]);
+
+  /** Whether a data cell is being edited, so its text may be a formula */
+  const isEditingFormula = formulaTarget !== null && formulaTarget.row !== -1;
+
+  /** Caret position in the text being edited */
+  const caret = editCaret ?? editText.length;
+
+  /** Completions for the word before the caret */
+  const completionState = isEditingFormula && !completionsDismissed
+    ? findCompletions(editText, caret, completionSources)
+    : null;
+  const completions = completionState?.completions ?? [];
+
+  /** Signature of the function call the caret is in */
+  const signatureHelp = isEditingFormula ? getSignatureHelp(editText, caret) : null;
+
+  /**
+   * Remember where the caret is after the user moves it
+   * @param input - Input being edited
+   */
+  const trackCaret = (input: HTMLInputElement) => setEditCaret(input.selectionStart);
+
+  /**
+   * Replace the word before the caret with a completion
+   * Functions are inserted with their opening parenthesis, ready for arguments
+   * @param completion - Completion to insert
+   */
+  const acceptCompletion = (completion: FormulaCompletion) => {
+    if (!formulaTarget || !completionState) return;
+    const end = completionState.start + completion.insertText.length;
+    pointedSpanRef.current = null;
+    pendingCaretRef.current = end;
+    setEditCaret(end);
+    setCompletionIndex(0);
+    updateDraft(
+      editText.slice(0, completionState.start) + completion.insertText + editText.slice(caret),
+      formulaTarget.row,
+      formulaTarget.col
+    );
+  };
+
+  /**
+   * Handle keys for the formula suggestions while they are open
+   * Arrow keys move the highlight, Enter and Tab insert it, Escape closes the list
+   * @param e - Keyboard event from the input being edited
+   * @returns True if the key was used by the suggestions
+   */
+  const handleCompletionKey = (e: React.KeyboardEvent<HTMLInputElement>): boolean => {
+    if (completions.length === 0) return false;
+    const index = Math.min(completionIndex, completions.length - 1);
+    switch (e.key) {
+      case 'ArrowDown':
+        setCompletionIndex((index + 1) % completions.length);
+        break;
+      case 'ArrowUp':
+        setCompletionIndex((index - 1 + completions.length) % completions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        acceptCompletion(completions[index]);
+        break;
+      case 'Escape':
+        setCompletionsDismissed(true);
+        break;
+      default:
+        return false;
     }
-  
-    return values;
-  }, [getCellValue, columnLetterToIndex]);
-  
+    e.preventDefault();
+    return true;
+  };
+
+  /** Suggestions and signature help shown under the input being edited */
+  const renderFormulaHints = () => (
+    <FormulaHints
+      completions={completions}
+      activeIndex={Math.min(completionIndex, completions.length - 1)}
+      signature={signatureHelp}
+      onSelect={acceptCompletion}
+      onHighlight={setCompletionIndex}
+    />
+  );
+
   /**
-   * Evaluate Excel-like formulas
-   * Supports: arithmetic expressions, SUM, AVERAGE, COUNT, MAX, MIN functions
-   * @param formula - The formula to evaluate (e.g., "=SUM(A1:A10)", "=A1+B2")
-   * @returns The calculated result or error string
+   * Put a reference into the formula being edited, in place of the given span
+   * @param span - Part of the formula text to replace (empty to insert at the caret)
+   * @param reference - Reference text (e.g. "B2" or "B2:B4")
    */
-  const evaluateFormula = useCallback((formula: string): number | string => {
-    const upperFormula = formula.toUpperCase().trim();
-    
-    try {
-      // Handle basic arithmetic expressions (e.g., A1+B2, A1*B2/C3)
-      if (!upperFormula.includes('(') && /^[A-Z0-9+\-*/.\s]+$/.test(upperFormula)) {
-        // Replace cell references with their values
-        const expression = upperFormula.replace(/([A-Z]+\d+)/g, (match) => {
-          const value = getCellValue(match);
-          return typeof value === 'number' ? value.toString() : '0';
-        });
-        
-        // Evaluate the mathematical expression safely
-        try {
-          // Simple validation to prevent code injection
-          if (!/^[0-9+\-*/.() ]+$/.test(expression)) {
-            return '#ERROR!';
-          }
-          return eval(expression) || 0;
-        } catch {
-          return '#ERROR!';
-        }
-      }
-      
-      // SUM function - supports ranges and individual cells
-      if (upperFormula.startsWith('SUM(')) {
-        const args = upperFormula.slice(4, -1).split(',');
-        let sum = 0;
-        
-        for (const arg of args) {
-          const trimmedArg = arg.trim();
-          const values = getCellsInRange(trimmedArg);
-          sum += values.reduce((acc: number, val) => acc + (typeof val === 'number' ? val : 0), 0);
-        }
-        
-        return sum;
-      }
-      
-      // AVERAGE function
-      if (upperFormula.startsWith('AVERAGE(')) {
-        const args = upperFormula.slice(8, -1).split(',');
-        let sum = 0;
-        let count = 0;
-        
-        for (const arg of args) {
-          const trimmedArg = arg.trim();
-          const values = getCellsInRange(trimmedArg);
-          const numericValues = values.filter(val => typeof val === 'number') as number[];
-          sum += numericValues.reduce((acc, val) => acc + val, 0);
-          count += numericValues.length;
-        }
-        
-        return count > 0 ? sum / count : 0;
-      }
-      
-      // COUNT function - counts non-empty cells
-      if (upperFormula.startsWith('COUNT(')) {
-        const args = upperFormula.slice(6, -1).split(',');
-        let count = 0;
-        
-        for (const arg of args) {
-          const trimmedArg = arg.trim();
-          const values = getCellsInRange(trimmedArg);
-          count += values.filter(val => typeof val === 'number').length;
-        }
-        
-        return count;
-      }
-      
-      // MAX function
-      if (upperFormula.startsWith('MAX(')) {
-        const args = upperFormula.slice(4, -1).split(',');
-        let max = -Infinity;
-        
-        for (const arg of args) {
-          const trimmedArg = arg.trim();
-          const values = getCellsInRange(trimmedArg);
-          const numericValues = values.filter(val => typeof val === 'number') as number[];
-          if (numericValues.length > 0) {
-            max = Math.max(max, ...numericValues);
-          }
-        }
-        
-        return max === -Infinity ? 0 : max;
-      }
-      
-      // MIN function
-      if (upperFormula.startsWith('MIN(')) {
-        const args = upperFormula.slice(4, -1).split(',');
-        let min = Infinity;
-        
-        for (const arg of args) {
-          const trimmedArg = arg.trim();
-          const values = getCellsInRange(trimmedArg);
-          const numericValues = values.filter(val => typeof val === 'number') as number[];
-          if (numericValues.length > 0) {
-            min = Math.min(min, ...numericValues);
-          }
-        }
-        
-        return min === Infinity ? 0 : min;
-      }
-      
-      // Single cell reference
-      if (/^[A-Z]+\d+$/.test(upperFormula)) {
-        return getCellValue(upperFormula);
-      }
-      
-      return '#ERROR!';
-    } catch (error) {
-      return `ERROR! ${error}`;
+  const insertPointedReference = (span: { start: number; end: number }, reference: string) => {
+    if (!formulaTarget) return;
+    const text = getEditText(formulaTarget);
+    pointedSpanRef.current = { start: span.start, end: span.start + reference.length };
+    pendingCaretRef.current = span.start + reference.length;
+    setEditCaret(span.start + reference.length);
+    updateDraft(text.slice(0, span.start) + reference + text.slice(span.end), formulaTarget.row, formulaTarget.col);
+  };
+
+  /**
+   * Start pointing at cells to enter a reference, Excel-style: while a formula is being
+   * edited with the caret after "=", "(", ",", ":" or an operator, clicking a cell inserts
+   * its reference, and clicking again right after replaces it
+   * @param address - Cell the mouse went down on
+   * @param target - Element the mouse went down on
+   * @returns True if the click is entering a reference rather than selecting
+   */
+  const startPointing = (address: CellAddress, target: EventTarget): boolean => {
+    const input = activeInputRef.current;
+    if (!formulaTarget || formulaTarget.row === -1 || !input?.isConnected || target === input) return false;
+
+    const text = getEditText(formulaTarget);
+    const caret = input.selectionStart ?? text.length;
+    const span = pointedSpanRef.current;
+    const replacing = span !== null && span.end === caret;
+    if (!replacing && !isReferenceInsertionPoint(text, caret)) return false;
+
+    pointingFromRef.current = address;
+    pointingClickRef.current = true;
+    insertPointedReference(replacing ? span : { start: caret, end: caret }, formatCellReference(address));
+    return true;
+  };
+
+  // Keep the caret after a reference inserted by pointing
+  useEffect(() => {
+    if (pendingCaretRef.current !== null && activeInputRef.current) {
+      activeInputRef.current.setSelectionRange(pendingCaretRef.current, pendingCaretRef.current);
+      pendingCaretRef.current = null;
     }
-  }, [getCellsInRange, getCellValue]);
+  }, [draft]);
 
   // ============================================================================
   // CELL INTERACTION HANDLERS
@@ -724,6 +1020,13 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
   const handleCellClick = (row: number, col: number, e: React.MouseEvent) => {
     // Prevent any default browser behavior
     e.preventDefault();
+    // A click that entered a reference into the formula being edited keeps the selection
+    if (pointingClickRef.current) {
+      pointingClickRef.current = false;
+      return;
+    }
+    // Clicks in the cell being edited only move the caret
+    if (editingCell?.row === row && editingCell?.col === col) return;
     
     const cellKey = `${row},${col}`;
     
@@ -775,8 +1078,9 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
    * @param e - Mouse event
    */
   const handleCellMouseDown = (row: number, col: number, e: React.MouseEvent) => {
-    // Prevent text selection during drag
+    // Prevent text selection during drag (this also keeps focus in the input being edited)
     e.preventDefault();
+    if (startPointing({ row, col }, e.target)) return;
     
     // Don't start dragging if shift or ctrl/cmd is pressed (these are for selection)
     if (e.shiftKey || e.ctrlKey || e.metaKey) {
@@ -797,6 +1101,16 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
    * @param col - Column index of cell being entered
    */
   const handleCellMouseEnter = (row: number, col: number) => {
+    // Dragging while pointing turns the inserted reference into a range
+    if (pointingFromRef.current && pointedSpanRef.current) {
+      insertPointedReference(pointedSpanRef.current, formatRangeReference(pointingFromRef.current, { row, col }));
+      return;
+    }
+    // Dragging the fill handle picks how far to fill
+    if (fillDrag) {
+      setFillDrag({ ...fillDrag, target: { row, col } });
+      return;
+    }
     if (isDragging && dragStart) {
       const newRange = {
         start: dragStart,
@@ -825,6 +1139,7 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
    * Converts range selection to individual cell selections
    */
   const handleMouseUp = () => {
+    pointingFromRef.current = null;
     // Don't handle mouse up if we're currently resizing
     if (resizingColumn !== null || resizingRow !== null) {
       return;
@@ -859,6 +1174,10 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
    * @param col - Column index of cell
    */
   const handleDoubleClick = (row: number, col: number) => {
+    // Spilled cells are read-only; they change with the formula they came from
+    if (row !== -1 && gridData[row]?.[col]?.spilledFrom) return;
+    // Double-clicking while pointing enters references, not another cell's editor
+    if (pointedSpanRef.current && formulaTarget) return;
     // All cells (including header row) use regular editing logic
     setEditingCell({ row, col });
   };
@@ -1033,7 +1352,8 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
     const [draggedWidth] = newColumnWidths.splice(sourceIndex, 1);
     newColumnWidths.splice(targetIndex, 0, draggedWidth);
 
-    setGridData(newGridData);
+    // Formulas follow the cells they reference to their new column
+    commitStructuralChange(newGridData, { axis: 'column', type: 'move', from: sourceIndex, to: targetIndex });
     setColumnWidths(newColumnWidths);
     setDraggedColumn(null);
     setDragOverColumn(null);
@@ -1105,7 +1425,8 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
       const [draggedHeight] = newRowHeights.splice(sourceIndex, 1);
       newRowHeights.splice(targetIndex, 0, draggedHeight);
 
-      setGridData(newGridData);
+      // Formulas follow the cells they reference to their new row
+      commitStructuralChange(newGridData, { axis: 'row', type: 'move', from: sourceIndex, to: targetIndex });
       setRowHeights(newRowHeights);
       saveToHistory();
     }
@@ -1144,7 +1465,7 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
       newRow.splice(colIndex, 0, { value: '', format: {} });
       return newRow;
     });
-    setGridData(updated);
+    commitStructuralChange(updated, { axis: 'column', type: 'insert', index: colIndex, count: 1 });
 
     // Update column widths array
     const newWidths = [...columnWidths];
@@ -1174,7 +1495,7 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
       newRow.splice(insertIndex, 0, { value: '', format: {} });
       return newRow;
     });
-    setGridData(updated);
+    commitStructuralChange(updated, { axis: 'column', type: 'insert', index: insertIndex, count: 1 });
 
     // Update column widths array
     const newWidths = [...columnWidths];
@@ -1196,7 +1517,7 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
     const updated = [...gridData];
     const insertIndex = rowIndex === -1 ? 0 : rowIndex; // If header row, insert at beginning of data
     updated.splice(insertIndex, 0, newRow);
-    setGridData(updated);
+    commitStructuralChange(updated, { axis: 'row', type: 'insert', index: insertIndex, count: 1 });
 
     // Update row heights array
     const newHeights = [...rowHeights];
@@ -1218,7 +1539,7 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
     const updated = [...gridData];
     const insertIndex = rowIndex === -1 ? 0 : rowIndex + 1; // If header row, insert at beginning of data
     updated.splice(insertIndex, 0, newRow);
-    setGridData(updated);
+    commitStructuralChange(updated, { axis: 'row', type: 'insert', index: insertIndex, count: 1 });
 
     // Update row heights array
     const newHeights = [...rowHeights];
@@ -1229,72 +1550,299 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
     closeContextMenu();
   };
 
+  // ============================================================================
+  // DELETE AND CLEAR OPERATIONS
+  // ============================================================================
+
+  /**
+   * Rows or columns the context menu acts on: all those selected when whole
+   * rows or columns are selected (by their headers) and the right-clicked one
+   * is among them, otherwise just the right-clicked one
+   * @returns First index and how many there are (the header row is never included)
+   */
+  const getContextSpan = (): { index: number; count: number } => {
+    const { type, index } = contextMenu;
+    const bounds = getSelectionBounds();
+    if (!bounds) return { index, count: 1 };
+
+    const { start, end } = bounds;
+    const isWhole = type === 'row'
+      ? start.col === 0 && end.col === data.columns.length - 1
+      : start.row <= 0 && end.row === gridData.length - 1;
+    const [low, high] = type === 'row' ? [Math.max(start.row, 0), end.row] : [start.col, end.col];
+    if (!isWhole || index < low || index > high) return { index, count: 1 };
+    return { index: low, count: high - low + 1 };
+  };
+
+  /**
+   * Select a single cell after the rows or columns the selection was on are gone
+   * @param position - Cell to select, in the grid after the deletion
+   */
+  const selectAfterDelete = (position: CellPosition) => {
+    setSelectedCell(position);
+    setSelectedCells(new Set([`${position.row},${position.col}`]));
+    setSelectedRange(null);
+    setEditingCell(null);
+  };
+
+  /**
+   * Delete columns, along with their data, widths and header names
+   * Formulas and named ranges that referred to them show #REF!; those to the
+   * right follow their cells. One undo step
+   * @param index - First column to delete
+   * @param count - Number of columns to delete
+   */
+  const deleteColumns = (index: number, count: number) => {
+    // A sheet always keeps at least one column
+    if (count >= data.columns.length) return;
+    const isDeleted = (col: number) => col >= index && col < index + count;
+
+    if (onDeleteColumns) {
+      onDeleteColumns(Array.from({ length: count }, (_, i) => index + i));
+    }
+
+    const updated = gridData.map(row => row.filter((_, col) => !isDeleted(col)));
+    const committed = commitStructuralChange(updated, { axis: 'column', type: 'delete', index, count });
+    setColumnWidths(columnWidths.filter((_, col) => !isDeleted(col)));
+
+    saveToHistory({ ...committed, columns: data.columns.filter((_, col) => !isDeleted(col)) });
+    // The column that moved into the deleted one's place, or the new last column
+    selectAfterDelete({ row: selectedCell?.row ?? -1, col: Math.min(index, data.columns.length - count - 1) });
+    closeContextMenu();
+  };
+
+  /**
+   * Delete data rows, along with their heights
+   * Formulas and named ranges that referred to them show #REF!; those below
+   * follow their cells. One undo step
+   * @param index - First row to delete
+   * @param count - Number of rows to delete
+   */
+  const deleteRows = (index: number, count: number) => {
+    // A sheet always keeps at least one data row
+    if (count >= gridData.length) return;
+    const isDeleted = (row: number) => row >= index && row < index + count;
+
+    const updated = gridData.filter((_, row) => !isDeleted(row));
+    const committed = commitStructuralChange(updated, { axis: 'row', type: 'delete', index, count });
+    setRowHeights(rowHeights.filter((_, row) => !isDeleted(row)));
+
+    saveToHistory(committed);
+    // The row that moved into the deleted one's place, or the new last row
+    selectAfterDelete({ row: Math.min(index, gridData.length - count - 1), col: selectedCell?.col ?? 0 });
+    closeContextMenu();
+  };
+
+  /**
+   * Clear the contents or the formatting of the rows or columns the context menu acts on
+   * - contents: values and formulas go, formatting stays (spilled cells are left to their formula)
+   * - formats: formatting goes, values and formulas stay
+   * One undo step
+   * @param part - What to clear
+   */
+  const clearContextCells = (part: 'contents' | 'formats') => {
+    const { index, count } = getContextSpan();
+    const inSpan = (i: number) => i >= index && i < index + count;
+    const changed: CellAddress[] = [];
+
+    const updated = gridData.map((cells, row) => {
+      if (contextMenu.type === 'row' && !inSpan(row)) return cells;
+      return cells.map((cell, col) => {
+        if (contextMenu.type === 'column' && !inSpan(col)) return cell;
+        if (part === 'formats') return { ...cell, format: {} };
+        if (cell.spilledFrom) return cell;
+        changed.push({ row, col });
+        return { value: '', format: cell.format };
+      });
+    });
+
+    commitGridData(updated, changed);
+    saveToHistory({ gridData: updated });
+    closeContextMenu();
+  };
+
+  // ============================================================================
+  // NAMED RANGES
+  // ============================================================================
+
+  /**
+   * Define a named range, or update an existing one
+   * Renaming updates every formula that uses the old name
+   * @param named - Name and the reference it stands for
+   * @param previous - Name being replaced, when editing
+   */
+  const saveNamedRange = (named: NamedRange, previous?: string) => {
+    if (previous === undefined) {
+      saveToHistory(commitNames([...namedRanges, named]));
+    } else {
+      const renamed = previous !== named.name ? renameInGridFormulas(gridData, previous, named.name) : gridData;
+      saveToHistory(commitNames(namedRanges.map(existing => (existing.name === previous ? named : existing)), renamed));
+    }
+  };
+
+  /**
+   * Delete a named range; formulas still using it show #NAME?
+   * @param name - Name to delete
+   */
+  const deleteNamedRange = (name: string) => {
+    saveToHistory(commitNames(namedRanges.filter(named => named.name !== name)));
+  };
+
+  // ============================================================================
+  // AUDITING
+  // ============================================================================
+
+  /** Cell traced in auditing mode */
+  const auditedCell = isAuditing ? selectedCell : null;
+
+  /** Cells the audited cell reads, and formula cells that read it */
+  const auditTrace = useMemo(() => auditedCell && {
+    precedents: tracePrecedents(gridData, auditedCell, namedRanges),
+    dependents: traceDependents(gridData, auditedCell, namedRanges)
+  }, [auditedCell, gridData, namedRanges]);
+
+  /** Formula of the audited cell, for the Evaluate Formula step-through */
+  const auditedFormula = auditedCell && auditedCell.row !== -1
+    ? gridData[auditedCell.row]?.[auditedCell.col]?.formula
+    : undefined;
+
+  /** Steps of evaluating the audited formula, innermost parts first */
+  const evaluationSteps = useMemo(
+    () => (auditedFormula ? evaluateFormulaSteps(auditedFormula.slice(1), { getCellValue, resolveName }) : null),
+    [auditedFormula, getCellValue, resolveName]
+  );
+
+  /**
+   * How a cell relates to the audited cell, for highlighting it on the grid
+   * @param row - Row index
+   * @param col - Column index
+   * @returns "precedent" if the audited cell reads it, "dependent" if it reads the
+   *   audited cell, or undefined
+   */
+  const getAuditRole = (row: number, col: number): keyof typeof AUDIT_COLORS | undefined => {
+    if (!auditTrace) return undefined;
+    if (auditTrace.precedents.some(({ start, end }) =>
+      row >= start.row && row <= end.row && col >= start.col && col <= end.col
+    )) return 'precedent';
+    if (auditTrace.dependents.some(cell => cell.row === row && cell.col === col)) return 'dependent';
+    return undefined;
+  };
+
+  /**
+   * Select a traced cell, so its own precedents and dependents are traced next
+   * @param address - Cell to select
+   */
+  const selectAuditedCell = ({ row, col }: CellAddress) => {
+    setSelectedCell({ row, col });
+    setSelectedCells(new Set([`${row},${col}`]));
+    setSelectedRange(null);
+  };
+
   // ============================================================================
   // INPUT HANDLERS
   // ============================================================================
   
   /**
    * Handle input changes in cells (both data and header cells)
-   * Supports formulas, numeric validation, and real-time updates
+   * Typing ends any reference being entered by pointing
    * @param e - Input change event
    * @param row - Row index of the cell
    * @param col - Column index of the cell
    */
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>, row: number, col: number) => {
-    const value = e.target.value;
-    
+    pointedSpanRef.current = null;
+    setEditCaret(e.target.selectionStart);
+    setCompletionIndex(0);
+    setCompletionsDismissed(false);
+    updateDraft(e.target.value, row, col);
+  };
+
+  /**
+   * Keep text entered for a cell, from its input, the formula bar or pointing,
+   * as its draft until editing finishes
+   * Numeric columns only take text that is on its way to a number (or a formula)
+   * @param value - Text entered
+   * @param row - Row index of the cell
+   * @param col - Column index of the cell
+   */
+  const updateDraft = (value: string, row: number, col: number) => {
+    if (row !== -1 && isNumericColumn(col) && !value.startsWith('=') && !isValidNumericInput(value)) {
+      return;
+    }
+    setDraft({ row, col, text: value });
+  };
+
+  /**
+   * Store the draft of the cell being edited
+   * Header text renames the column. In data cells formulas are evaluated, numeric
+   * columns get numbers and date text becomes a date
+   * @returns The columns or grid data with the draft stored, for the history
+   */
+  const commitDraft = (): Partial<Pick<HistoryState, 'gridData' | 'columns'>> => {
+    if (!draft) return {};
+    const { row, col, text } = draft;
+    setDraft(null);
+
     if (row === -1) {
       // Header row - update the column name via onHeaderChange
-      if (onHeaderChange) {
-        onHeaderChange(col, value);
-      }
+      onHeaderChange?.(col, text);
+      return { columns: data.columns.map((column, index) => (index === col ? { ...column, name: text } : column)) };
+    }
+
+    const cell = gridData[row]?.[col];
+    if (!cell) return {};
+
+    let entered: CellData;
+    if (text.startsWith('=')) {
+      entered = { ...cell, formula: text, value: evaluateFormula(text.slice(1)) };
+    } else if (isNumericColumn(col)) {
+      // For numeric columns, always convert to number if valid
+      entered = { ...cell, value: text === '' ? '' : Number(text), type: undefined, formula: undefined, error: undefined };
     } else {
-      // Regular data cells
-      // Check if this is a numeric column
-      if (isNumericColumn(col)) {
-        // For numeric columns, validate the input
-        if (!isValidNumericInput(value)) {
-          return; // Don't update if invalid
-        }
-      }
-      
-      const updated = [...gridData];
-      
-      if (value.startsWith('=')) {
-        const result = evaluateFormula(value.slice(1));
-        updated[row][col] = {
-          ...updated[row][col],
-          formula: value,
-          value: result
-        };
-      } else {
-        // For numeric columns, always convert to number if valid
-        if (isNumericColumn(col)) {
-          updated[row][col] = {
-            ...updated[row][col],
-            value: value === '' ? '' : Number(value),
-            formula: undefined
-          };
-        } else {
-          // For non-numeric columns, allow any value
-          updated[row][col] = {
-            ...updated[row][col],
-            value: value,
-            formula: undefined
-          };
-        }
-      }
-      
-      setGridData(updated);
+      // For non-numeric columns, allow any value
+      const parsed = parseGridInput(text);
+      entered = { ...cell, value: text, type: undefined, formula: undefined, error: undefined };
+      if (parsed.type === 'date') entered = { ...entered, ...parsed };
     }
+
+    const updated = [...gridData];
+    updated[row] = [...updated[row]];
+    updated[row][col] = entered;
+    commitGridData(updated, [{ row, col }]);
+    return { gridData: updated };
   };
 
   const handleInputBlur = () => {
+    pointedSpanRef.current = null;
+    setEditCaret(null);
+    setCompletionsDismissed(false);
+    const committed = commitDraft();
     setEditingCell(null);
     // Always save to history when editing ends (for both data cells and header cells)
-    saveToHistory();
+    saveToHistory(committed);
   };
 
+  /**
+   * Stop editing without storing the draft, leaving the cell as it was
+   * The input goes away without a blur
+   */
+  const cancelEditing = () => {
+    pointedSpanRef.current = null;
+    setEditCaret(null);
+    setCompletionsDismissed(false);
+    setDraft(null);
+    setEditingCell(null);
+    setIsFormulaBarFocused(false);
+  };
+
+  // Editing also ends without a blur, e.g. when a click on another cell keeps
+  // focus in the input; the draft is stored all the same
+  useEffect(() => {
+    if (draft && (formulaTarget?.row !== draft.row || formulaTarget?.col !== draft.col)) {
+      saveToHistory(commitDraft());
+    }
+  });
+
   const handleHeaderDoubleClick = (colIndex: number) => {
     setEditingHeader(colIndex);
     setHeaderEditValue(data.columns[colIndex].name);
@@ -1344,7 +1892,7 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
   const clearCell = (row: number, col: number) => {
     const updated = [...gridData];
     updated[row][col] = { value: '', format: updated[row][col].format };
-    setGridData(updated);
+    commitGridData(updated, [{ row, col }]);
     saveToHistory();
   };
 
@@ -1424,19 +1972,403 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
     setSelectedRange(null);
   }, [selectedCell, gridData, data.columns.length]);
 
+  // ============================================================================
+  // CLIPBOARD
+  // ============================================================================
+
+  /**
+   * Bounds of the selection, which is what copying takes and where pasting starts
+   * @returns Top-left and bottom-right corners of the selected cells, or null when nothing is selected
+   */
+  const getSelectionBounds = useCallback((): CellRange | null => {
+    const positions = selectedCells.size > 0
+      ? Array.from(selectedCells).map(key => {
+          const [row, col] = key.split(',').map(Number);
+          return { row, col };
+        })
+      : selectedCell ? [selectedCell] : [];
+    if (positions.length === 0) return null;
+    return {
+      start: { row: Math.min(...positions.map(p => p.row)), col: Math.min(...positions.map(p => p.col)) },
+      end: { row: Math.max(...positions.map(p => p.row)), col: Math.max(...positions.map(p => p.col)) }
+    };
+  }, [selectedCells, selectedCell]);
+
+  /**
+   * Whether a clipboard event is for the grid, rather than for text in an input or a dialog
+   * @param e - Copy, cut or paste event
+   */
+  const isGridClipboardEvent = useCallback((e: ClipboardEvent): boolean => {
+    const target = e.target as HTMLElement;
+    const isText = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.contentEditable === 'true';
+    return !isText && !editingCell && !showNameManager && !showPasteSpecial && !!e.clipboardData;
+  }, [editingCell, showNameManager, showPasteSpecial]);
+
+  /**
+   * Put the selected cells on the clipboard as TSV and as an HTML table, so they
+   * paste into Excel and Google Sheets with their values and formatting
+   * The cells themselves are kept too, so pasting them back into the grid keeps
+   * their formulas. Cutting also clears the copied cells, as one undo step
+   * @param e - Copy or cut event
+   */
+  const handleCopy = useCallback((e: ClipboardEvent) => {
+    const bounds = getSelectionBounds();
+    if (!bounds || !isGridClipboardEvent(e)) return;
+    e.preventDefault();
+
+    const rows: ClipboardCell[][] = [];
+    const copied: CellData[][] = [];
+    for (let row = bounds.start.row; row <= bounds.end.row; row++) {
+      const cells: ClipboardCell[] = [];
+      const copiedCells: CellData[] = [];
+      for (let col = bounds.start.col; col <= bounds.end.col; col++) {
+        const cell = row === -1 ? { value: data.columns[col]?.name ?? '' } : gridData[row]?.[col] ?? { value: '' };
+        cells.push(row === -1
+          ? { text: String(cell.value) }
+          : { text: String(displayGridValue(cell)), format: cell.format });
+        copiedCells.push(cell);
+      }
+      rows.push(cells);
+      copied.push(copiedCells);
+    }
+    const text = toTSV(rows.map(cells => cells.map(cell => cell.text)));
+    e.clipboardData!.setData('text/plain', text);
+    e.clipboardData!.setData('text/html', toHTMLTable(rows));
+    setCopiedBlock({ cells: copied, origin: bounds.start, text, cut: e.type === 'cut' });
+
+    if (e.type !== 'cut') return;
+    // Header names and spilled cells cannot be cleared
+    const updated = [...gridData];
+    const changed: CellAddress[] = [];
+    for (let row = Math.max(bounds.start.row, 0); row <= bounds.end.row; row++) {
+      updated[row] = [...updated[row]];
+      for (let col = bounds.start.col; col <= bounds.end.col; col++) {
+        if (updated[row][col].spilledFrom) continue;
+        updated[row][col] = { value: '', format: updated[row][col].format };
+        changed.push({ row, col });
+      }
+    }
+    if (changed.length === 0) return;
+    commitGridData(updated, changed);
+    saveToHistory({ gridData: updated });
+  }, [getSelectionBounds, isGridClipboardEvent, gridData, data.columns, commitGridData, saveToHistory]);
+
+  /**
+   * Copy of the grid with room for a pasted block, adding columns and rows past the edge
+   * @param rowCount - Data rows the block needs
+   * @param columnCount - Columns the block needs
+   * @param columnName - Name for an added column, by its index
+   * @returns Grid rows (each copied) to write the block into, and the columns including those added
+   */
+  const growGridForPaste = useCallback((
+    rowCount: number,
+    columnCount: number,
+    columnName: (col: number) => string = () => ''
+  ): { updated: CellData[][]; columns: Column[] } => {
+    const columnsToAdd = Math.max(0, columnCount - data.columns.length);
+    const width = data.columns.length + columnsToAdd;
+    let columns = data.columns;
+    if (columnsToAdd > 0) {
+      const newColumns = Array.from({ length: columnsToAdd }, (_, i) => {
+        const index = data.columns.length + i;
+        return {
+          name: columnName(index),
+          key: `col_${columnIndexToLetter(index).toLowerCase()}_${Date.now()}`
+        };
+      });
+      onAddColumns?.(newColumns);
+      columns = [...columns, ...newColumns];
+      setColumnWidths([...columnWidths, ...Array(columnsToAdd).fill(150)]);
+    }
+
+    const updated: CellData[][] = gridData.map(cells => columnsToAdd > 0
+      ? [...cells, ...Array.from({ length: columnsToAdd }, () => ({ value: '', format: {} }))]
+      : [...cells]);
+    const rowsToAdd = Math.max(0, rowCount - gridData.length);
+    for (let i = 0; i < rowsToAdd; i++) {
+      updated.push(Array.from({ length: width }, () => ({ value: '', format: {} })));
+    }
+    if (rowsToAdd > 0) setRowHeights([...rowHeights, ...Array(rowsToAdd).fill(40)]);
+    return { updated, columns };
+  }, [gridData, data.columns, columnWidths, rowHeights, onAddColumns]);
+
+  /**
+   * Select a block of cells that was just pasted
+   * @param top - First row of the block
+   * @param left - First column of the block
+   * @param height - Rows in the block
+   * @param width - Columns in the block
+   */
+  const selectPastedBlock = useCallback((top: number, left: number, height: number, width: number) => {
+    const keys: string[] = [];
+    for (let row = top; row < top + height; row++) {
+      for (let col = left; col < left + width; col++) keys.push(`${row},${col}`);
+    }
+    setSelectedCell({ row: top, col: left });
+    setSelectedCells(new Set(keys));
+    setSelectedRange(null);
+  }, []);
+
+  /**
+   * Paste the cells last copied from the grid at the top-left of the selection
+   * - all: formulas, values and formatting
+   * - values: the values the cells show, keeping the target formatting
+   * - formats: formatting only, keeping the target contents
+   * - formulas: formulas and values, keeping the target formatting
+   * Formulas keep their relative references pointing the same distance away
+   * (cut formulas keep theirs as they were). Transposing swaps the block's rows
+   * and columns; skipping blanks leaves cells under empty copied cells alone.
+   * Rows and columns are added past the edge, as one undo step
+   * @param options - How to paste
+   */
+  const pasteCopiedBlock = useCallback((options: PasteOptions) => {
+    const bounds = getSelectionBounds();
+    if (!copiedBlock || !bounds) return;
+    const { cells, origin, cut } = copiedBlock;
+    const { mode, transpose, skipBlanks } = options;
+
+    // Where each pasted cell comes from in the copied block
+    const height = transpose ? Math.max(...cells.map(row => row.length)) : cells.length;
+    const width = transpose ? cells.length : Math.max(...cells.map(row => row.length));
+    const sourceOf = (i: number, j: number) => (transpose ? { i: j, j: i } : { i, j });
+
+    // The header row is pasted over by data; only a normal paste renames columns
+    const top = Math.max(bounds.start.row, 0);
+    const left = bounds.start.col;
+    const { updated, columns } = growGridForPaste(top + height, left + width);
+
+    const changed: CellAddress[] = [];
+    for (let i = 0; i < height; i++) {
+      for (let j = 0; j < width; j++) {
+        const source = sourceOf(i, j);
+        const cell = cells[source.i]?.[source.j];
+        if (!cell) continue;
+        if (skipBlanks && cell.value === '' && !cell.formula) continue;
+
+        const row = top + i;
+        const col = left + j;
+        const current = updated[row][col];
+        if (mode === 'formats') {
+          updated[row][col] = { ...current, format: { ...cell.format } };
+          continue;
+        }
+
+        // Spilled cells paste as the values they show, since only their anchor has a formula
+        const rowOffset = row - (origin.row + source.i);
+        const colOffset = col - (origin.col + source.j);
+        const content: CellData = cell.formula && mode !== 'values'
+          ? { value: '', formula: cut ? cell.formula : shiftFormula(cell.formula, rowOffset, colOffset) }
+          : { value: cell.value, type: cell.type };
+        updated[row][col] = { ...content, format: mode === 'all' ? { ...cell.format } : current.format ?? {} };
+        changed.push({ row, col });
+        // A formula whose result spilled here shows #SPILL! now
+        if (current.spilledFrom) changed.push(current.spilledFrom);
+      }
+    }
+
+    commitGridData(updated, changed);
+    saveToHistory({ gridData: updated, columns });
+    // Like a move, a cut block is pasted once
+    if (cut && mode === 'all') setCopiedBlock(null);
+    setShowPasteSpecial(false);
+    selectPastedBlock(top, left, height, width);
+  }, [getSelectionBounds, copiedBlock, growGridForPaste, commitGridData, saveToHistory, selectPastedBlock]);
+
+  /**
+   * Paste cells copied from the grid, Excel or Google Sheets at the top-left of the selection
+   * Cells copied from the grid itself are pasted with their formulas, as
+   * pasteCopiedBlock does. Otherwise HTML tables are read with their formatting,
+   * plain text as TSV: numeric text becomes numbers in numeric columns, "=" text
+   * becomes formulas, and rows and columns are added when the pasted block runs
+   * past the edge. Pasting from the header row renames columns with the first
+   * pasted row. One undo step
+   * @param e - Paste event
+   */
+  const handlePaste = useCallback((e: ClipboardEvent) => {
+    const bounds = getSelectionBounds();
+    if (!bounds || !isGridClipboardEvent(e)) return;
+
+    const { row: top, col: left } = bounds.start;
+    const isCopiedBlock = copiedBlock !== null && e.clipboardData!.getData('text/plain') === copiedBlock.text;
+    if (isCopiedBlock && top !== -1 && copiedBlock.origin.row !== -1) {
+      e.preventDefault();
+      pasteCopiedBlock({ mode: 'all', transpose: false, skipBlanks: false });
+      return;
+    }
+
+    const pasted = readClipboard(e.clipboardData!);
+    if (!pasted || pasted.length === 0) return;
+    e.preventDefault();
+
+    const headerCells = top === -1 ? pasted[0] : [];
+    const body = top === -1 ? pasted.slice(1) : pasted;
+    const firstRow = Math.max(top, 0);
+    const width = Math.max(...pasted.map(cells => cells.length));
+    const columnCount = Math.max(data.columns.length, left + width);
+    // Numeric columns as isNumericColumn decides (inline to avoid dependency issues); new columns count as numeric
+    const numericColumns = Array.from({ length: columnCount }, (_, col) => col > 0 && gridData.every(cells => {
+      const value = cells[col]?.value;
+      return value === undefined || value === '' || (typeof value === 'number' && cells[col].type !== 'date');
+    }));
+
+    headerCells.forEach((cell, i) => {
+      if (left + i < data.columns.length && onHeaderChange) onHeaderChange(left + i, cell.text);
+    });
+
+    // Columns added past the last one are named from the pasted header row if there is one
+    const grown = growGridForPaste(firstRow + body.length, columnCount, index => headerCells[index - left]?.text ?? '');
+    const { updated } = grown;
+    const columns = grown.columns.map((col, index) => (
+      index < data.columns.length && headerCells[index - left] ? { ...col, name: headerCells[index - left].text } : col
+    ));
+
+    const changed: CellAddress[] = [];
+    body.forEach((cells, i) => {
+      cells.forEach(({ text, format }, j) => {
+        const row = firstRow + i;
+        const col = left + j;
+        const current = updated[row][col];
+        const number = numericColumns[col] ? parseNumberText(text) : null;
+        const content = text.length > 1 && text.startsWith('=')
+          ? { value: '', formula: text }
+          : number !== null ? { value: number } : parseGridInput(text);
+        // Pasted formatting replaces the cell's; plain text keeps it
+        updated[row][col] = { ...content, format: format ?? current.format ?? {} };
+        changed.push({ row, col });
+        // A formula whose result spilled here shows #SPILL! now
+        if (current.spilledFrom) changed.push(current.spilledFrom);
+      });
+    });
+
+    commitGridData(updated, changed);
+    saveToHistory({ gridData: updated, columns });
+    selectPastedBlock(top, left, firstRow + body.length - top, width);
+  }, [getSelectionBounds, isGridClipboardEvent, copiedBlock, pasteCopiedBlock, gridData, data.columns, onHeaderChange, growGridForPaste, commitGridData, saveToHistory, selectPastedBlock]);
+
+  // ============================================================================
+  // AUTOFILL
+  // ============================================================================
+
+  /**
+   * Cells a fill handle drag fills: the rows below the selection when the
+   * pointer is further below it than to its right, otherwise the columns to its right
+   */
+  const fillPreview = useMemo((): { direction: FillDirection; range: CellRange } | null => {
+    if (!fillDrag) return null;
+    const { source: { start, end }, target } = fillDrag;
+    const down = target.row - end.row;
+    const right = target.col - end.col;
+    if (down > 0 && down >= right) {
+      return { direction: 'down', range: { start: { row: end.row + 1, col: start.col }, end: { row: target.row, col: end.col } } };
+    }
+    if (right > 0) {
+      return { direction: 'right', range: { start: { row: start.row, col: end.col + 1 }, end: { row: end.row, col: target.col } } };
+    }
+    return null;
+  }, [fillDrag]);
+
+  /**
+   * Check if a cell is one a fill handle drag would fill
+   * @param row - Row index
+   * @param col - Column index
+   */
+  const isInFillPreview = (row: number, col: number): boolean => {
+    if (!fillPreview) return false;
+    const { start, end } = fillPreview.range;
+    return row >= start.row && row <= end.row && col >= start.col && col <= end.col;
+  };
+
+  /** Start dragging the fill handle from the selection */
+  const startFill = useCallback(() => {
+    const bounds = getSelectionBounds();
+    if (!bounds || bounds.start.row < 0) return;
+    setFillDrag({ source: bounds, target: bounds.end });
+  }, [getSelectionBounds]);
+
+  /**
+   * Fill cells from the selection, as dragging the fill handle does
+   * Each column (filling down) or row (filling right) of the selection is
+   * extended on its own: numbers and dates continue their series, other cells
+   * repeat with their formulas' relative references moved along. Formatting
+   * repeats with the cells. One undo step
+   * @param source - Selected cells being extended
+   * @param direction - Which way to fill
+   * @param range - Cells to fill
+   */
+  const applyFill = useCallback((source: CellRange, direction: FillDirection, range: CellRange) => {
+    const updated = [...gridData];
+    const changed: CellAddress[] = [];
+    const write = (row: number, col: number, content: FillCell, from: CellData) => {
+      if (updated[row] === gridData[row]) updated[row] = [...gridData[row]];
+      const current = updated[row][col];
+      updated[row][col] = { ...content, format: { ...from.format } };
+      changed.push({ row, col });
+      // A formula whose result spilled here shows #SPILL! now
+      if (current.spilledFrom) changed.push(current.spilledFrom);
+    };
+
+    if (direction === 'down') {
+      for (let col = source.start.col; col <= source.end.col; col++) {
+        const cells = gridData.slice(source.start.row, source.end.row + 1).map(cells => cells[col]);
+        fillSeries(cells, range.end.row - range.start.row + 1, direction).forEach((content, i) => {
+          write(range.start.row + i, col, content, cells[i % cells.length]);
+        });
+      }
+    } else {
+      for (let row = source.start.row; row <= source.end.row; row++) {
+        const cells = gridData[row].slice(source.start.col, source.end.col + 1);
+        fillSeries(cells, range.end.col - range.start.col + 1, direction).forEach((content, i) => {
+          write(row, range.start.col + i, content, cells[i % cells.length]);
+        });
+      }
+    }
+
+    commitGridData(updated, changed);
+    saveToHistory({ gridData: updated });
+
+    // The selection grows to cover the filled cells
+    const keys: string[] = [];
+    for (let row = source.start.row; row <= range.end.row; row++) {
+      for (let col = source.start.col; col <= range.end.col; col++) keys.push(`${row},${col}`);
+    }
+    setSelectedCells(new Set(keys));
+    setSelectedRange(null);
+  }, [gridData, commitGridData, saveToHistory]);
+
+  // Releasing the fill handle fills the cells it was dragged over
+  useEffect(() => {
+    if (!fillDrag) return;
+    const finishFill = () => {
+      if (fillPreview) applyFill(fillDrag.source, fillPreview.direction, fillPreview.range);
+      setFillDrag(null);
+    };
+    document.addEventListener('mouseup', finishFill);
+    return () => document.removeEventListener('mouseup', finishFill);
+  }, [fillDrag, fillPreview, applyFill]);
+
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     if (!selectedCell) return;
     
-    // Don't handle keyboard events if user is typing in an input field
+    // Don't handle keyboard events if user is typing in an input field or using a dialog
     const target = e.target as HTMLElement;
     if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.contentEditable === 'true') {
       return;
     }
+    if (showNameManager || showPasteSpecial) return;
 
     const { row, col } = selectedCell;
+    // Spilled cells are read-only, so keys that edit or clear them do nothing
+    const isSpilled = row !== -1 && !!gridData[row]?.[col]?.spilledFrom;
     
     // Handle keyboard shortcuts with Ctrl/Cmd
+    // (Ctrl+C/X/V are left to the browser, which fires the copy, cut and paste events handled above)
     if (e.ctrlKey || e.metaKey) {
+      // Ctrl+Shift+V: Paste Special, for cells copied from the grid
+      if (e.shiftKey && e.key.toLowerCase() === 'v') {
+        e.preventDefault();
+        if (copiedBlock) setShowPasteSpecial(true);
+        return;
+      }
       switch (e.key) {
         case 'z':
           e.preventDefault();
@@ -1499,6 +2431,7 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
       switch (e.key) {
         case 'Escape':
           e.preventDefault();
+          setDraft(null);
           setEditingCell(null);
           break;
         case 'Enter':
@@ -1607,16 +2540,16 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
         break;
       case 'Enter':
         e.preventDefault();
-        setEditingCell({ row, col });
+        if (!isSpilled) setEditingCell({ row, col });
         break;
       case 'F2':
         e.preventDefault();
-        setEditingCell({ row, col });
+        if (!isSpilled) setEditingCell({ row, col });
         break;
       case 'Delete':
       case 'Backspace':
         e.preventDefault();
-        if (row !== -1) {
+        if (row !== -1 && !isSpilled) {
           clearCell(row, col);
         }
         break;
@@ -1657,43 +2590,31 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
         // Start editing if user types a printable character
         if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
           e.preventDefault();
+          if (isSpilled) return;
           
           // Check if this is a numeric column (inline to avoid dependency issues)
           const isNumeric = col > 0 && gridData.every(row => {
             const value = row[col]?.value;
-            return value === '' || typeof value === 'number';
+            return value === '' || (typeof value === 'number' && row[col].type !== 'date');
           });
           
           // For numeric columns, only allow valid numeric characters
           if (row !== -1 && isNumeric) {
-            const allowedNumericChars = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '.', '-'];
+            const allowedNumericChars = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '.', '-', '='];
             if (!allowedNumericChars.includes(e.key)) {
               return; // Don't start editing if invalid character for numeric column
             }
           }
           
           setEditingCell({ row, col });
-          // Clear the cell content when starting to type
+          // The typed character replaces the cell's content in its draft; the grid changes when editing finishes
           if (row !== -1) {
-            const updated = [...gridData];
-            
-            // For numeric columns, convert to number if valid
-            if (isNumeric) {
-              const numValue = Number(e.key);
-              updated[row][col] = { 
-                value: isNaN(numValue) ? e.key : numValue, 
-                format: updated[row][col].format 
-              };
-            } else {
-              updated[row][col] = { value: e.key, format: updated[row][col].format };
-            }
-            
-            setGridData(updated);
+            setDraft({ row, col, text: e.key });
           }
         }
         break;
     }
-  }, [selectedCell, editingCell, gridData, data.columns.length, undo, redo, clearCell, formatCell, jumpToDataBoundary]);
+  }, [selectedCell, editingCell, gridData, data.columns.length, undo, redo, clearCell, formatCell, jumpToDataBoundary, showNameManager, showPasteSpecial, copiedBlock]);
 
   // ============================================================================
   // SORTING AND RESIZING FUNCTIONS
@@ -1727,7 +2648,7 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
       }
     });
     
-    setGridData(sorted);
+    commitGridData(sorted);
     saveToHistory();
   };
 
@@ -1780,6 +2701,9 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
     document.addEventListener('mousemove', handleMouseMove);
     document.addEventListener('mouseup', handleMouseUpResize);
     document.addEventListener('click', closeContextMenu);
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCopy);
+    document.addEventListener('paste', handlePaste);
     
     return () => {
       document.removeEventListener('keydown', handleKeyDown);
@@ -1787,19 +2711,23 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseup', handleMouseUpResize);
       document.removeEventListener('click', closeContextMenu);
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCopy);
+      document.removeEventListener('paste', handlePaste);
     };
-  }, [handleKeyDown, handleMouseMove, handleMouseUpResize]);
+  }, [handleKeyDown, handleMouseMove, handleMouseUpResize, handleCopy, handlePaste]);
 
   // Initialize history with initial state
   useEffect(() => {
     if (history.length === 0) {
       setHistory([{
         gridData: JSON.parse(JSON.stringify(gridData)),
-        columns: JSON.parse(JSON.stringify(data.columns))
+        columns: JSON.parse(JSON.stringify(data.columns)),
+        names: namedRanges
       }]);
       setHistoryIndex(0);
     }
-  }, [gridData, data.columns, history.length]);
+  }, [gridData, data.columns, namedRanges, history.length]);
 
   // Initialize column widths to fill container on first load, then preserve existing widths
   useEffect(() => {
@@ -1856,10 +2784,7 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
   }, [selectedCells, selectedRange]);
 
   const getCellDisplayValue = useCallback((cell: CellData): string | number => {
-    if (cell.formula) {
-      return cell.value;
-    }
-    return cell.value;
+    return displayGridValue(cell);
   }, []);
 
   const getCellStyle = useCallback((cell: CellData, colIndex?: number) => {
@@ -1873,30 +2798,13 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
     };
   }, [columnWidths]);
 
-  // Convert column index to letter (A, B, C, ..., Z, AA, AB, etc.)
   // ============================================================================
   // UTILITY FUNCTIONS
   // ============================================================================
   
-  /**
-   * Convert column index to Excel-style letter (0=A, 1=B, 25=Z, 26=AA, etc.)
-   * @param index - Zero-based column index
-   * @returns Excel-style column letter(s)
-   */
-  const getColumnLetter = (index: number): string => {
-    let result = '';
-    while (index >= 0) {
-      result = String.fromCharCode(65 + (index % 26)) + result;
-      index = Math.floor(index / 26) - 1;
-    }
-    return result;
-  };
-
   // Convert array indices back to cell reference (e.g., 0,1 -> A2)
   const getCellReference = useCallback((row: number, col: number): string => {
-    const colLetter = String.fromCharCode(65 + col);
-    const rowNumber = row === -1 ? 1 : row + 2; // Header row is 1, data starts at 2
-    return `${colLetter}${rowNumber}`;
+    return formatCellReference({ row, col }); // Header row is 1, data starts at 2
   }, []);
 
   // Generate range string from selected cells
@@ -2019,7 +2927,7 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
         format: updated[targetRow][targetCol]?.format || {}
       };
       
-      setGridData(updated);
+      commitGridData(updated, [{ row: targetRow, col: targetCol }]);
       
       // Update row heights array if we added a new row
       if (targetRow >= rowHeights.length) {
@@ -2032,7 +2940,7 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
       setSelectedCell({ row: targetRow, col: targetCol });
       setSelectedCells(new Set([`${targetRow},${targetCol}`]));
     }
-  }, [selectedCells, gridData, data.columns.length, getSelectedRange, getCellReference, evaluateFormula, saveToHistory, rowHeights, columnWidths, onHeaderChange, onAddColumns, onInsertColumn]);
+  }, [selectedCells, gridData, data.columns.length, getSelectedRange, getCellReference, evaluateFormula, saveToHistory, rowHeights, columnWidths, onHeaderChange, onAddColumns, onInsertColumn, commitGridData]);
 
   /**
    * Check if a column should only accept numbers
@@ -2044,10 +2952,10 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
     // Skip the first column (product names) - now at index 0 after row numbers
     if (colIndex === 0) return false;
     
-    // Check if all non-empty values in this column are numbers
+    // Check if all non-empty values in this column are numbers (dates are typed as text)
     return gridData.every(row => {
       const value = row[colIndex]?.value;
-      return value === '' || typeof value === 'number';
+      return value === '' || (typeof value === 'number' && row[colIndex].type !== 'date');
     });
   };
 
@@ -2069,12 +2977,19 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
   // ============================================================================
   // MAIN RENDER
   // ============================================================================
+
+  /** Rows or columns the context menu acts on */
+  const contextSpan = getContextSpan();
+
+  /** Cell showing the fill handle: the bottom-right corner of a selection of data cells */
+  const selectionBounds = getSelectionBounds();
+  const fillHandleCell = selectionBounds && selectionBounds.start.row >= 0 && !editingCell ? selectionBounds.end : null;
   
   return (
     <div className={clsx(
       "w-full h-screen flex flex-col bg-white overflow-hidden",
       (resizingColumn !== null || resizingRow !== null) && "cursor-grabbing",
-      isDragging && "select-none"
+      (isDragging || fillDrag) && "select-none"
     )}>
       {/* Content Header */}
       <div className="bg-white px-4 sm:px-6 py-3 sm:py-4 border-b-2 border-gray-400 flex-shrink-0">
@@ -2105,6 +3020,34 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
               >
                 Redo
               </button>
+              <button
+                onClick={() => setShowNameManager(true)}
+                className="px-4 py-3 bg-white border border-gray-400 hover:bg-gray-100 text-gray-800 rounded-md text-sm font-medium shadow-sm transition-colors"
+                title="Define names such as Revenue2023 = E2:E12 to use in formulas"
+              >
+                Names{namedRanges.length > 0 && ` (${namedRanges.length})`}
+              </button>
+              <button
+                onClick={() => setShowPasteSpecial(true)}
+                disabled={!copiedBlock}
+                className="px-4 py-3 bg-white border border-gray-400 hover:bg-gray-100 text-gray-800 rounded-md text-sm font-medium shadow-sm transition-colors disabled:text-gray-400 disabled:border-gray-300 disabled:cursor-not-allowed disabled:hover:bg-white"
+                title="Paste copied cells as values, formats or formulas, transposed or skipping blanks (Ctrl+Shift+V)"
+              >
+                Paste Special
+              </button>
+              <button
+                onClick={() => setIsAuditing(!isAuditing)}
+                aria-pressed={isAuditing}
+                className={clsx(
+                  'px-4 py-3 border rounded-md text-sm font-medium shadow-sm transition-colors',
+                  isAuditing
+                    ? 'bg-slate-800 border-slate-800 text-white hover:bg-slate-700'
+                    : 'bg-white border-gray-400 hover:bg-gray-100 text-gray-800'
+                )}
+                title="Trace where the selected cell's value comes from and which formulas use it, and step through its formula"
+              >
+                Audit
+              </button>
             </div>
             
             {(selectedCell || selectedCells.size > 0) && (
@@ -2259,6 +3202,48 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
           </div>
           
           <div className="flex items-center gap-4">
+            {recalcStatus && (
+              <div
+                className="bg-blue-50 text-blue-800 px-3 py-1 rounded-md text-sm font-medium"
+                role="status"
+                data-testid="recalc-status"
+              >
+                Recalculating…{recalcStatus.total > 0 && ` ${Math.floor((recalcStatus.done / recalcStatus.total) * 100)}%`}
+              </div>
+            )}
+            {saveStatus && (
+              <div
+                className={clsx(
+                  'px-3 py-1 rounded-md text-sm font-medium',
+                  saveStatus === 'saved' && 'bg-gray-100 text-gray-600',
+                  saveStatus === 'saving' && 'bg-blue-100 text-blue-800',
+                  saveStatus === 'offline' && 'bg-amber-100 text-amber-800',
+                  saveStatus === 'error' && 'bg-red-100 text-red-800'
+                )}
+                title={saveMessage || undefined}
+                data-testid="save-status"
+              >
+                {saveStatus === 'saved' && '✓ Saved'}
+                {saveStatus === 'saving' && 'Saving…'}
+                {saveStatus === 'offline' && 'Offline - will retry'}
+                {saveStatus === 'error' && 'Not saved'}
+              </div>
+            )}
+            {saveMessage && (
+              <div className="text-xs text-red-700 max-w-xs" role="alert">
+                {saveMessage}
+              </div>
+            )}
+            {circularReferences.length > 0 && (
+              <div
+                className="bg-red-100 text-red-800 px-3 py-1 rounded-md text-sm font-medium"
+                title="Formulas in a cycle depend on their own result and show #CIRC! until the cycle is broken"
+                role="alert"
+                data-testid="circular-warning"
+              >
+                ⚠ Circular reference: {circularReferences.join('; ')}
+              </div>
+            )}
             {selectedCells.size > 1 && (
               <div className="bg-blue-100 text-blue-800 px-3 py-1 rounded-md text-sm font-medium">
                 {selectedCells.size} cells selected
@@ -2274,7 +3259,21 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
                   <div><code>=SUM(A2:A5)</code> - Sum of range</div>
                   <div><code>=AVERAGE(B2:B5)</code> - Average of range</div>
                   <div><code>=A2+B2</code> - Basic arithmetic</div>
-                  <div><code>=A2*B2/C2</code> - Complex expressions</div>
+                  <div><code>=SUM(B2:B5)*2</code> - Nested expressions</div>
+                  <div><code>=MAX(B2,C2)-MIN(D2:D4)</code> - Combine functions</div>
+                  <div><code>{'=A2&" total"'}</code> - Join text</div>
+                  <div><code>=B2&gt;C2</code> - Comparisons</div>
+                  <div><code>{'=IF(E2>D2, "Up", "Down")'}</code> - Conditions</div>
+                  <div><code>=AND(B2&gt;0, C2&gt;0)</code> - Logic (AND, OR, NOT)</div>
+                  <div><code>{'=SUMIF(A2:A5, "Widget*", B2:B5)'}</code> - Conditional sum (COUNTIF, AVERAGEIF, *IFS)</div>
+                  <div><code>{'=VLOOKUP("Widget B", A2:D5, 3, FALSE)'}</code> - Lookups (XLOOKUP, INDEX, MATCH)</div>
+                  <div><code>=CAGR(B2:E2)</code> - Growth rate (RRI, NPV, IRR, PMT)</div>
+                  <div><code>=RANK(E2, E2:E5)</code> - Statistics (MEDIAN, STDEV, PERCENTILE)</div>
+                  <div><code>{'=DATEDIF(B2, C2, "M")'}</code> - Dates (DATE, EDATE, YEAR, TODAY)</div>
+                  <div><code>{'=TEXT(B2, "#,##0.00")'}</code> - Text (LEFT, MID, SUBSTITUTE, SPLIT)</div>
+                  <div><code>=SORT(A2:E5, 5, -1)</code> - Spills into the cells below (FILTER, UNIQUE)</div>
+                  <div><code>=SUM(Revenue2023)</code> - Named ranges (Names button)</div>
+                  <div><code>=IFERROR(B2/C2, 0)</code> - Replace errors</div>
                 </div>
               </div>
             </div>
@@ -2299,6 +3298,77 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
         </div>
       </div>
         
+      {/* Formula Bar */}
+      <div className="bg-white px-4 sm:px-6 py-2 border-b border-gray-300 flex items-center gap-2 flex-shrink-0">
+        <div
+          className="w-28 px-2 py-1 border border-gray-400 rounded bg-gray-50 font-mono text-sm text-center text-slate-700 truncate"
+          title="Selected cell"
+          data-testid="name-box"
+        >
+          {getSelectedRange() ?? ''}
+        </div>
+        <span className="px-1 text-gray-500 italic font-serif select-none">fx</span>
+        {/* The input only exists while editing, so the bar never duplicates the cell's own input */}
+        {isFormulaBarFocused && selectedCell ? (
+          <div className="relative flex-1">
+            <input
+              autoFocus
+              type="text"
+              aria-label="Formula bar"
+              className="w-full px-2 py-1 border border-blue-500 rounded font-mono text-sm text-slate-800 outline-none"
+              value={getEditText(selectedCell)}
+              onFocus={(e) => {
+                activeInputRef.current = e.currentTarget;
+              }}
+              onChange={(e) => handleInputChange(e, selectedCell.row, selectedCell.col)}
+              onKeyUp={(e) => trackCaret(e.currentTarget)}
+              onClick={(e) => trackCaret(e.currentTarget)}
+              onBlur={() => {
+                handleInputBlur();
+                setIsFormulaBarFocused(false);
+              }}
+              onKeyDown={(e) => {
+                if (handleCompletionKey(e)) return;
+                if (e.key === 'Escape') cancelEditing();
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+            />
+            {renderFormulaHints()}
+          </div>
+        ) : (
+          <div
+            className={clsx(
+              'flex-1 px-2 py-1 border border-gray-400 rounded font-mono text-sm min-h-[30px] truncate',
+              selectedSpilledFrom ? 'text-slate-400 bg-gray-50 cursor-default' : 'text-slate-800 cursor-text'
+            )}
+            title={selectedSpilledFrom ? `Spilled from ${formatCellReference(selectedSpilledFrom)} (read-only)` : undefined}
+            data-testid="formula-bar"
+            onClick={() => {
+              // Spilled cells show the formula they came from, read-only
+              if (!selectedCell || selectedSpilledFrom) return;
+              setEditingCell(null);
+              setIsFormulaBarFocused(true);
+            }}
+          >
+            {selectedCell ? getEditText(selectedSpilledFrom ?? selectedCell) : ''}
+          </div>
+        )}
+      </div>
+
+      {/* Formula auditing */}
+      {auditedCell && auditTrace && (
+        <FormulaAudit
+          key={`${auditedCell.row},${auditedCell.col},${auditedFormula ?? ''}`}
+          address={auditedCell}
+          formula={auditedFormula}
+          precedents={auditTrace.precedents}
+          dependents={auditTrace.dependents}
+          steps={evaluationSteps}
+          onSelectCell={selectAuditedCell}
+          onClose={() => setIsAuditing(false)}
+        />
+      )}
+
       {/* Data Table */}
       <div className="flex-1 bg-white mx-2 sm:mx-4 lg:mx-8 my-2 sm:my-4 lg:my-6 rounded-lg shadow-lg border-2 border-gray-400 flex flex-col overflow-hidden">
         <div 
@@ -2345,7 +3415,7 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
                     onDrop={(e) => handleColumnDrop(colIndex, e)}
                     onDragEnd={handleColumnDragEnd}
                   >
-                    {getColumnLetter(colIndex)}
+                    {columnIndexToLetter(colIndex)}
                     <button
                       className="absolute right-4 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors z-20"
                       onClick={(e) => {
@@ -2418,10 +3488,14 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
                   const isEditing = editingCell?.row === -1 && editingCell?.col === colIndex;
                   const isInSelectionRange = isInRange(-1, colIndex);
                   const isIndividuallySelected = selectedCells.has(cellKey);
+                  const referenceColor = getReferenceColor(-1, colIndex);
+                  const auditRole = getAuditRole(-1, colIndex);
 
                   return (
                     <td
                       key={colIndex}
+                      data-reference-color={referenceColor}
+                      data-audit={auditRole}
                       className={clsx(
                         'px-3 sm:px-4 lg:px-6 py-2 sm:py-3 lg:py-4 text-center border-b-2 border-r-2 border-gray-400 cursor-pointer relative font-medium text-slate-700',
                         (isSelected || isIndividuallySelected) && 'bg-blue-100',
@@ -2444,17 +3518,25 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
                       {isInSelectionRange && !isSelected && !isIndividuallySelected && (
                         <div className="absolute inset-0 border border-blue-400 pointer-events-none z-5 bg-blue-50 bg-opacity-40" />
                       )}
+                      {referenceColor && (
+                        <div className="absolute inset-0 border-2 pointer-events-none z-20" style={{ borderColor: referenceColor }} />
+                      )}
+                      {auditRole && (
+                        <div className="absolute inset-0 border-2 border-dashed pointer-events-none z-20" style={{ borderColor: AUDIT_COLORS[auditRole] }} />
+                      )}
                       {isEditing ? (
                         <input
                           autoFocus
                           type="text"
                           className="w-full border-none outline-none bg-transparent text-center font-medium text-slate-700"
-                          value={col.name}
+                          value={getEditText({ row: -1, col: colIndex })}
                           onChange={(e) => handleInputChange(e, -1, colIndex)}
                           onBlur={handleInputBlur}
                           onKeyDown={(e) => {
                             if (e.key === 'Enter' || e.key === 'Tab') {
                               handleInputBlur();
+                            } else if (e.key === 'Escape') {
+                              cancelEditing();
                             }
                           }}
                         />
@@ -2523,10 +3605,14 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
                       const isEditing = editingCell?.row === actualRowIndex && editingCell?.col === colIndex;
                       const isInSelectionRange = isInRange(actualRowIndex, colIndex);
                       const isIndividuallySelected = selectedCells.has(cellKey);
+                      const referenceColor = getReferenceColor(actualRowIndex, colIndex);
+                      const auditRole = getAuditRole(actualRowIndex, colIndex);
 
                       return (
                         <td
                           key={colIndex}
+                          data-reference-color={referenceColor}
+                          data-audit={auditRole}
                           className={clsx(
                             'px-3 sm:px-4 lg:px-6 py-2 sm:py-3 lg:py-4 text-center border-b-2 border-r-2 border-gray-400 cursor-pointer relative',
                             (isSelected || isIndividuallySelected) && 'bg-blue-100',
@@ -2536,6 +3622,11 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
                             resizingColumn === colIndex && 'border-r-blue-500'
                           )}
                           style={getCellStyle(cell, colIndex)}
+                          title={
+                            describeCellError(cell, { row: actualRowIndex, col: colIndex }) ??
+                            (cell.spilledFrom && `Spilled from ${formatCellReference(cell.spilledFrom)} (read-only)`)
+                          }
+                          data-spilled={cell.spilledFrom ? 'true' : undefined}
                           onClick={(e) => handleCellClick(actualRowIndex, colIndex, e)}
                           onMouseDown={(e) => handleCellMouseDown(actualRowIndex, colIndex, e)}
                           onMouseEnter={() => handleCellMouseEnter(actualRowIndex, colIndex)}
@@ -2544,12 +3635,9 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
                           {/* Enhanced selection styling */}
                           {(isSelected || isIndividuallySelected) && (
                             <div className="absolute inset-0 border-2 border-blue-600 pointer-events-none z-10">
-                              {/* Primary selection gets a thicker border and corner indicator */}
+                              {/* Primary selection gets a thicker border */}
                               {isSelected && (
-                                <>
-                                  <div className="absolute inset-0 bg-blue-100 bg-opacity-40" />
-                                  <div className="absolute -bottom-0.5 -right-0.5 w-2 h-2 bg-blue-600 border border-white" />
-                                </>
+                                <div className="absolute inset-0 bg-blue-100 bg-opacity-40" />
                               )}
                               {/* Multi-selected cells get subtle styling */}
                               {isIndividuallySelected && !isSelected && (
@@ -2561,24 +3649,57 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
                           {isInSelectionRange && !isSelected && !isIndividuallySelected && (
                             <div className="absolute inset-0 border border-blue-400 pointer-events-none z-5 bg-blue-50 bg-opacity-40" />
                           )}
+                          {/* Cells a fill handle drag will fill */}
+                          {isInFillPreview(actualRowIndex, colIndex) && (
+                            <div className="absolute inset-0 border-2 border-dashed border-blue-500 pointer-events-none z-20" />
+                          )}
+                          {/* Fill handle: drag down or right to extend the selection's values and series */}
+                          {fillHandleCell?.row === actualRowIndex && fillHandleCell.col === colIndex && (
+                            <div
+                              data-testid="fill-handle"
+                              title="Drag down or right to fill"
+                              className="absolute -bottom-1 -right-1 w-2.5 h-2.5 bg-blue-600 border border-white cursor-crosshair z-30"
+                              onMouseDown={(e) => {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                startFill();
+                              }}
+                            />
+                          )}
+                          {/* Outline of a range the formula being edited refers to */}
+                          {referenceColor && (
+                            <div className="absolute inset-0 border-2 pointer-events-none z-20" style={{ borderColor: referenceColor }} />
+                          )}
+                          {auditRole && (
+                            <div className="absolute inset-0 border-2 border-dashed pointer-events-none z-20" style={{ borderColor: AUDIT_COLORS[auditRole] }} />
+                          )}
                           {isEditing ? (
                             <input
                               autoFocus
-                              type={isNumericColumn(colIndex) ? "number" : "text"}
-                              step="any"
+                              type="text"
+                              inputMode={isNumericColumn(colIndex) ? "decimal" : undefined}
                               className={clsx(
                                 "w-full border-none outline-none bg-transparent text-center",
                                 isNumericColumn(colIndex) && "text-right"
                               )}
-                              value={cell.formula || cell.value}
+                              value={getEditText({ row: actualRowIndex, col: colIndex })}
+                              onFocus={(e) => {
+                                activeInputRef.current = e.currentTarget;
+                              }}
                               onChange={(e) => handleInputChange(e, actualRowIndex, colIndex)}
+                              onKeyUp={(e) => trackCaret(e.currentTarget)}
+                              onClick={(e) => trackCaret(e.currentTarget)}
                               onBlur={handleInputBlur}
                               onKeyDown={(e) => {
+                                if (handleCompletionKey(e)) return;
                                 if (e.key === 'Enter' || e.key === 'Tab') {
                                   handleInputBlur();
+                                } else if (e.key === 'Escape') {
+                                  cancelEditing();
                                 }
-                                // For numeric columns, allow only number-related keys
-                                if (isNumericColumn(colIndex)) {
+                                // For numeric columns, allow only number-related keys unless typing a formula
+                                const isFormulaInput = e.key === '=' || e.currentTarget.value.startsWith('=');
+                                if (isNumericColumn(colIndex) && !isFormulaInput) {
                                   const allowedKeys = [
                                     'Backspace', 'Delete', 'Tab', 'Enter', 'Escape',
                                     'ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown',
@@ -2593,10 +3714,17 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
                               placeholder={isNumericColumn(colIndex) ? "Enter number..." : "Enter text..."}
                             />
                           ) : (
-                            <span className="text-slate-700">
+                            <span
+                              className={clsx(
+                                'text-slate-700',
+                                cell.spilledFrom && 'text-slate-400 italic',
+                                cell.error && 'text-red-600'
+                              )}
+                            >
                               {getCellDisplayValue(cell)}
                             </span>
                           )}
+                          {isEditing && renderFormulaHints()}
                         </td>
                       );
                     })}
@@ -2641,6 +3769,14 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
                 <span>➡️</span>
                 Insert Column Right
               </button>
+              <button
+                className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 flex items-center gap-2 disabled:text-gray-400 disabled:hover:bg-white disabled:cursor-not-allowed"
+                onClick={() => deleteColumns(contextSpan.index, contextSpan.count)}
+                disabled={contextSpan.count >= data.columns.length}
+              >
+                <span>🗑️</span>
+                {contextSpan.count > 1 ? `Delete ${contextSpan.count} Columns` : 'Delete Column'}
+              </button>
             </>
           ) : (
             <>
@@ -2658,10 +3794,61 @@ const Spreadsheet: React.FC<Props> = ({ data, onHeaderChange, onAddColumns, onIn
                 <span>⬇️</span>
                 Insert Row Below
               </button>
+              {contextMenu.index !== -1 && (
+                <button
+                  className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 flex items-center gap-2 disabled:text-gray-400 disabled:hover:bg-white disabled:cursor-not-allowed"
+                  onClick={() => deleteRows(contextSpan.index, contextSpan.count)}
+                  disabled={contextSpan.count >= gridData.length}
+                >
+                  <span>🗑️</span>
+                  {contextSpan.count > 1 ? `Delete ${contextSpan.count} Rows` : 'Delete Row'}
+                </button>
+              )}
+            </>
+          )}
+          {/* The header row holds column names, which are renamed rather than cleared */}
+          {!(contextMenu.type === 'row' && contextMenu.index === -1) && (
+            <>
+              <div className="my-1 border-t border-gray-200" />
+              <button
+                className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 flex items-center gap-2"
+                onClick={() => clearContextCells('contents')}
+              >
+                <span>🧹</span>
+                Clear Contents
+              </button>
+              <button
+                className="w-full px-4 py-2 text-left text-sm hover:bg-gray-100 flex items-center gap-2"
+                onClick={() => clearContextCells('formats')}
+              >
+                <span>🎨</span>
+                Clear Formats
+              </button>
             </>
           )}
         </div>
       )}
+
+      {/* Named Range Manager */}
+      {showNameManager && (
+        <NameManager
+          names={namedRanges}
+          defaultReference={getSelectedRange() ?? ''}
+          onSave={saveNamedRange}
+          onDelete={deleteNamedRange}
+          onClose={() => setShowNameManager(false)}
+        />
+      )}
+
+      {/* Paste Special */}
+      {showPasteSpecial && copiedBlock && (
+        <PasteSpecial
+          rows={copiedBlock.cells.length}
+          columns={copiedBlock.cells[0]?.length ?? 0}
+          onPaste={pasteCopiedBlock}
+          onClose={() => setShowPasteSpecial(false)}
+        />
+      )}
     </div>
   );
 };
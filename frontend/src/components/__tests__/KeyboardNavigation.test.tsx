@@ -1,5 +1,5 @@
 import React from 'react';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import '@testing-library/jest-dom';
 import Spreadsheet from '../Spreadsheet';
@@ -425,7 +425,7 @@ describe('Keyboard Navigation Tests', () => {
       fireEvent.keyDown(document, { key: 'z', ctrlKey: true });
 
       // Should undo the change
-      expect(screen.getByText('Widget A')).toBeInTheDocument();
+      expect(within(screen.getByRole('table')).getByText('Widget A')).toBeInTheDocument();
     });
 
     it('handles Ctrl+Y for redo', async () => {
@@ -447,7 +447,7 @@ describe('Keyboard Navigation Tests', () => {
       fireEvent.keyDown(document, { key: 'y', ctrlKey: true });
 
       // Should redo the change
-      expect(screen.getByText('Modified')).toBeInTheDocument();
+      expect(within(screen.getByRole('table')).getByText('Modified')).toBeInTheDocument();
     });
 
     it('handles Delete key to clear cell content', async () => {
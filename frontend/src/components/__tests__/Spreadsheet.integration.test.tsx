@@ -1,5 +1,5 @@
 import React from 'react';
-import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import { render, screen, waitFor, fireEvent, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import '@testing-library/jest-dom';
 import Spreadsheet from '../Spreadsheet';
@@ -47,7 +47,7 @@ describe('Spreadsheet Integration Tests', () => {
       await user.keyboard('{Enter}');
 
       await waitFor(() => {
-        expect(screen.getByText('Modified Widget A')).toBeInTheDocument();
+        expect(within(screen.getByRole('table')).getByText('Modified Widget A')).toBeInTheDocument();
       });
 
       // Step 2: Filter data
@@ -55,7 +55,7 @@ describe('Spreadsheet Integration Tests', () => {
       await user.type(filterInput, 'Modified');
 
       await waitFor(() => {
-        expect(screen.getByText('Modified Widget A')).toBeInTheDocument();
+        expect(within(screen.getByRole('table')).getByText('Modified Widget A')).toBeInTheDocument();
         expect(screen.queryByText('Widget B')).not.toBeInTheDocument();
       });
 
@@ -63,7 +63,7 @@ describe('Spreadsheet Integration Tests', () => {
       await user.clear(filterInput);
 
       await waitFor(() => {
-        expect(screen.getByText('Modified Widget A')).toBeInTheDocument();
+        expect(within(screen.getByRole('table')).getByText('Modified Widget A')).toBeInTheDocument();
         expect(screen.getByText('Widget B')).toBeInTheDocument();
       });
 
@@ -72,7 +72,7 @@ describe('Spreadsheet Integration Tests', () => {
       await user.click(sortButtons[0]); // Sort by Product column
 
       // Verify sorting worked (data should be reordered)
-      expect(screen.getByText('Modified Widget A')).toBeInTheDocument();
+      expect(within(screen.getByRole('table')).getByText('Modified Widget A')).toBeInTheDocument();
     });
 
     it('supports multi-cell selection and formula application', async () => {
@@ -129,7 +129,7 @@ describe('Spreadsheet Integration Tests', () => {
       await user.keyboard('{Enter}');
 
       await waitFor(() => {
-        expect(screen.getByText('Changed Widget')).toBeInTheDocument();
+        expect(within(screen.getByRole('table')).getByText('Changed Widget')).toBeInTheDocument();
       });
 
       // Undo the change
@@ -137,7 +137,7 @@ describe('Spreadsheet Integration Tests', () => {
       await user.click(undoButton);
 
       await waitFor(() => {
-        expect(screen.getByText('Widget A')).toBeInTheDocument();
+        expect(within(screen.getByRole('table')).getByText('Widget A')).toBeInTheDocument();
         expect(screen.queryByText('Changed Widget')).not.toBeInTheDocument();
       });
 
@@ -146,7 +146,7 @@ describe('Spreadsheet Integration Tests', () => {
       await user.click(redoButton);
 
       await waitFor(() => {
-        expect(screen.getByText('Changed Widget')).toBeInTheDocument();
+        expect(within(screen.getByRole('table')).getByText('Changed Widget')).toBeInTheDocument();
       });
     });
 
@@ -194,7 +194,7 @@ describe('Spreadsheet Integration Tests', () => {
 
       await waitFor(() => {
         // Cell should still be selected after filtering
-        const filteredCell = screen.getByText('Widget A');
+        const filteredCell = within(screen.getByRole('table')).getByText('Widget A');
         expect(filteredCell.closest('td')).toHaveClass('bg-blue-100');
       });
     });
@@ -233,11 +233,11 @@ describe('Spreadsheet Integration Tests', () => {
 
       await waitFor(() => {
         // Should show error instead of crashing
-        expect(screen.getByText('#ERROR!')).toBeInTheDocument();
+        expect(screen.getByText('#NAME?')).toBeInTheDocument();
       });
 
       // Should still be able to edit the cell again
-      const errorCell = screen.getByText('#ERROR!');
+      const errorCell = screen.getByText('#NAME?');
       await user.dblClick(errorCell);
       
       const newInput = screen.getByDisplayValue('=INVALID_FORMULA(A1:B2)');
@@ -247,7 +247,7 @@ describe('Spreadsheet Integration Tests', () => {
 
       await waitFor(() => {
         expect(screen.getByText('150')).toBeInTheDocument();
-        expect(screen.queryByText('#ERROR!')).not.toBeInTheDocument();
+        expect(screen.queryByText('#NAME?')).not.toBeInTheDocument();
       });
     });
 
@@ -298,7 +298,7 @@ describe('Spreadsheet Integration Tests', () => {
 
       // Data should still be consistent
       await waitFor(() => {
-        expect(screen.getByText('Updated Widget')).toBeInTheDocument();
+        expect(within(screen.getByRole('table')).getByText('Updated Widget')).toBeInTheDocument();
         expect(screen.getByText('Widget B')).toBeInTheDocument();
         expect(screen.getByText('Widget C')).toBeInTheDocument();
       });
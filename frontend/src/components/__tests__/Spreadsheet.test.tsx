@@ -1,8 +1,11 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within, act } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import '@testing-library/jest-dom';
 import Spreadsheet from '../Spreadsheet';
+import { findFunction, handleRecalculateRequest, type FormulaFunction, type RecalculateRequest } from '../../lib/formula';
+import { WORKER_MIN_FORMULAS } from '../../hooks/useRecalculation';
+import { snapshotFromGrid } from '../../hooks/useWorkbookSync';
 
 // Mock data for testing
 const mockData = {
@@ -78,6 +81,40 @@ describe('Spreadsheet Component', () => {
       const sortButtons = screen.getAllByTitle('Sort column');
       expect(sortButtons).toHaveLength(4); // One for each column
     });
+
+    it('restores stored formatting and saves it back with later edits', async () => {
+      const user = userEvent.setup();
+      const onDataChange = jest.fn();
+      render(<Spreadsheet {...defaultProps} formats={{ '0:product': { bold: true } }} onDataChange={onDataChange} />);
+      const table = within(screen.getByRole('table'));
+      expect(table.getByText('Widget A').closest('td')).toHaveStyle({ fontWeight: 'bold' });
+
+      await user.click(table.getByText('Widget B'));
+      fireEvent.keyDown(document, { key: 'i', ctrlKey: true });
+
+      const grid = onDataChange.mock.calls[onDataChange.mock.calls.length - 1][0];
+      expect(snapshotFromGrid(mockData.columns, grid, []).formats).toEqual({
+        '0:product': { bold: true },
+        '1:product': { italic: true },
+      });
+    });
+
+    it('shows the version of cells a teammate saved first', () => {
+      const { rerender } = render(<Spreadsheet {...defaultProps} formulas={{ '2:2022': '=B2+1' }} />);
+      const table = within(screen.getByRole('table'));
+      expect(table.getByText('101')).toBeInTheDocument();
+
+      rerender(
+        <Spreadsheet
+          {...defaultProps}
+          formulas={{ '2:2022': '=B2+1' }}
+          conflicts={[{ row: 0, columnKey: '2020', value: 999, formula: null, format: { bold: true } }]}
+        />
+      );
+
+      expect(table.getByText('999').closest('td')).toHaveStyle({ fontWeight: 'bold' });
+      expect(table.getByText('1000')).toBeInTheDocument();
+    });
   });
 
   describe('Cell Selection', () => {
@@ -133,11 +170,94 @@ describe('Spreadsheet Component', () => {
       await user.keyboard('{Enter}');
       
       await waitFor(() => {
-        expect(screen.getByText('New Product')).toBeInTheDocument();
+        expect(within(screen.getByRole('table')).getByText('New Product')).toBeInTheDocument();
         expect(screen.queryByDisplayValue('New Product')).not.toBeInTheDocument();
       });
     });
 
+    it('turns date text into a date that formulas can use', async () => {
+      const user = userEvent.setup();
+      render(
+        <Spreadsheet
+          {...defaultProps}
+          formulas={{ '1:2020': '=YEAR(A2)' }}
+        />
+      );
+
+      await user.dblClick(screen.getByText('Widget A'));
+      const input = screen.getByDisplayValue('Widget A');
+      await user.clear(input);
+      await user.type(input, '1/15/2023');
+      await user.keyboard('{Enter}');
+
+      await waitFor(() => {
+        expect(within(screen.getByRole('table')).getByText('2023-01-15')).toBeInTheDocument();
+        expect(screen.getByText('2023')).toBeInTheDocument();
+      });
+    });
+
+    it('stores typed text only when editing finishes, without changing earlier grids', async () => {
+      const user = userEvent.setup();
+      const onDataChange = jest.fn();
+      render(<Spreadsheet {...defaultProps} onDataChange={onDataChange} />);
+      const table = within(screen.getByRole('table'));
+
+      await user.dblClick(table.getByText('100'));
+      await user.keyboard('{Control>}a{/Control}110{Enter}');
+      expect(onDataChange).toHaveBeenCalledTimes(1);
+      const before = onDataChange.mock.calls[0][0];
+
+      await user.dblClick(table.getByText('110'));
+      await user.keyboard('{Control>}a{/Control}=C2+');
+      expect(onDataChange).toHaveBeenCalledTimes(1);
+      expect(table.getByDisplayValue('=C2+')).toBeInTheDocument();
+
+      await user.keyboard('1{Tab}');
+      expect(onDataChange).toHaveBeenCalledTimes(2);
+      const after = onDataChange.mock.calls[1][0];
+      expect(after[0][1]).toEqual(expect.objectContaining({ formula: '=C2+1', value: 121 }));
+      expect(before[0][1]).toEqual(expect.objectContaining({ value: 110 }));
+      expect(before[0][1].formula).toBeUndefined();
+    });
+
+    it('leaves the cell as it was when Escape is pressed', async () => {
+      const user = userEvent.setup();
+      const onDataChange = jest.fn();
+      render(<Spreadsheet {...defaultProps} onDataChange={onDataChange} />);
+      const table = within(screen.getByRole('table'));
+
+      await user.dblClick(table.getByText('Widget A'));
+      await user.keyboard('{Control>}a{/Control}Changed Text{Escape}');
+
+      expect(table.getByText('Widget A')).toBeInTheDocument();
+      expect(table.queryByDisplayValue('Changed Text')).not.toBeInTheDocument();
+      expect(onDataChange).not.toHaveBeenCalled();
+    });
+
+    it('starts a draft when typing on a selected cell, leaving the grid alone until editing finishes', async () => {
+      const user = userEvent.setup();
+      const onDataChange = jest.fn();
+      render(<Spreadsheet {...defaultProps} onDataChange={onDataChange} />);
+      const table = within(screen.getByRole('table'));
+
+      await user.click(table.getByText('Widget A'));
+      await user.keyboard('x');
+      expect(table.getByDisplayValue('x')).toBeInTheDocument();
+      await user.keyboard('{Escape}');
+      expect(table.getByText('Widget A')).toBeInTheDocument();
+
+      await user.click(table.getByText('100'));
+      await user.keyboard('7');
+      await user.keyboard('{Escape}');
+      expect(table.getByText('100')).toBeInTheDocument();
+      expect(onDataChange).not.toHaveBeenCalled();
+
+      await user.click(table.getByText('100'));
+      await user.keyboard('77{Enter}');
+      expect(table.getByText('77')).toBeInTheDocument();
+      expect(onDataChange).toHaveBeenCalledTimes(1);
+    });
+
     it('cancels editing when Escape is pressed', async () => {
       const user = userEvent.setup();
       render(<Spreadsheet {...defaultProps} />);
@@ -268,6 +388,539 @@ describe('Spreadsheet Component', () => {
       // Function buttons should be available
       expect(screen.getByText('Functions:')).toBeInTheDocument();
     });
+
+    it('shows #CIRC! and names the cycle when formulas depend on each other', () => {
+      render(
+        <Spreadsheet
+          {...defaultProps}
+          formulas={{ '0:2020': '=C2', '0:2021': '=B2' }}
+        />
+      );
+
+      expect(screen.getAllByText('#CIRC!')).toHaveLength(2);
+      expect(screen.getByTestId('circular-warning')).toHaveTextContent('B2 → C2 → B2');
+    });
+
+    it('spills multi-cell results into read-only cells', async () => {
+      const user = userEvent.setup();
+      const data = {
+        columns: [...mockData.columns, { name: 'Ranked', key: 'ranked' }],
+        items: mockData.items.map(item => ({ ...item, ranked: '' })),
+      };
+      render(<Spreadsheet {...defaultProps} data={data} formulas={{ '0:ranked': '=SORT(D2:D4, 1, -1)' }} />);
+
+      const spilled = document.querySelectorAll('td[data-spilled="true"]');
+      expect(Array.from(spilled).map(cell => cell.textContent)).toEqual(['150', '90']);
+      expect(spilled[0]).toHaveAttribute('title', 'Spilled from E2 (read-only)');
+
+      await user.dblClick(spilled[0]);
+      expect(screen.queryByDisplayValue('150')).not.toBeInTheDocument();
+    });
+
+    it('shows #SPILL! when the spill range is occupied', () => {
+      render(<Spreadsheet {...defaultProps} formulas={{ '0:2020': '=SORT(C2:C4)' }} />);
+
+      expect(screen.getByText('#SPILL!')).toBeInTheDocument();
+    });
+
+    it('reports changes to large grids only once the background recalculation finishes', async () => {
+      const requests: RecalculateRequest[] = [];
+      let onmessage: ((event: { data: unknown }) => void) | null = null;
+      class FakeWorker {
+        set onmessage(handler: typeof onmessage) { onmessage = handler; }
+        onerror = null;
+        postMessage(request: RecalculateRequest) { requests.push(request); }
+        terminate() {}
+      }
+      Object.defineProperty(window, 'Worker', { value: FakeWorker, configurable: true, writable: true });
+
+      const user = userEvent.setup();
+      const onDataChange = jest.fn();
+      const data = {
+        columns: mockData.columns.slice(0, 3),
+        items: Array.from({ length: WORKER_MIN_FORMULAS }, (_, i) => ({ product: `Item ${i}`, '2020': 1000 + i, '2021': '' })),
+      };
+      const formulas = Object.fromEntries(data.items.map((_, i) => [`${i}:2021`, `=B${i + 2}*2`]));
+      try {
+        render(<Spreadsheet {...defaultProps} data={data} formulas={formulas} onDataChange={onDataChange} />);
+        const table = within(screen.getByRole('table'));
+
+        await user.dblClick(table.getByText('1000'));
+        await user.keyboard('{Control>}a{/Control}1500{Enter}');
+        expect(onDataChange).not.toHaveBeenCalled();
+
+        const latest = requests[requests.length - 1];
+        act(() => handleRecalculateRequest(latest, response => onmessage?.({ data: response })));
+        expect(onDataChange).toHaveBeenCalledTimes(1);
+        expect(onDataChange.mock.calls[0][0][0][2]).toEqual(expect.objectContaining({ value: 3000 }));
+      } finally {
+        delete (window as { Worker?: unknown }).Worker;
+      }
+    });
+  });
+
+  describe('Formula Bar', () => {
+    it("shows the selected cell's reference and formula", async () => {
+      const user = userEvent.setup();
+      render(<Spreadsheet {...defaultProps} formulas={{ '0:2022': '=B2+C2+1' }} />);
+
+      await user.click(screen.getByText('221'));
+      expect(screen.getByTestId('name-box')).toHaveTextContent('D2');
+      expect(screen.getByTestId('formula-bar')).toHaveTextContent('=B2+C2+1');
+    });
+
+    it('edits the selected cell and outlines the cells its formula refers to', async () => {
+      const user = userEvent.setup();
+      render(<Spreadsheet {...defaultProps} />);
+
+      await user.click(screen.getByText('150'));
+      await user.click(screen.getByTestId('formula-bar'));
+      const formulaBar = screen.getByLabelText('Formula bar');
+      await user.clear(formulaBar);
+      await user.type(formulaBar, '=B2*2+C3');
+
+      const outlined = document.querySelectorAll('td[data-reference-color]');
+      expect(Array.from(outlined).map(cell => cell.textContent)).toEqual(['100', '180']);
+      expect(outlined[0].getAttribute('data-reference-color')).not.toBe(outlined[1].getAttribute('data-reference-color'));
+
+      await user.keyboard('{Enter}');
+      expect(screen.getByText('380')).toBeInTheDocument();
+      expect(document.querySelectorAll('td[data-reference-color]')).toHaveLength(0);
+    });
+
+    it('inserts references by clicking and dragging over cells', async () => {
+      const user = userEvent.setup();
+      render(<Spreadsheet {...defaultProps} />);
+
+      await user.click(screen.getByText('150'));
+      await user.click(screen.getByTestId('formula-bar'));
+      const formulaBar = screen.getByLabelText('Formula bar');
+      await user.clear(formulaBar);
+      await user.type(formulaBar, '=SUM(');
+
+      const b2 = screen.getByText('100').closest('td')!;
+      fireEvent.mouseDown(b2);
+      fireEvent.mouseEnter(screen.getByText('50').closest('td')!);
+      fireEvent.mouseUp(document);
+      fireEvent.click(b2);
+      expect(formulaBar).toHaveValue('=SUM(B2:B4');
+      expect(screen.getByTestId('name-box')).toHaveTextContent('D2');
+
+      await user.type(formulaBar, ')');
+      await user.keyboard('{Enter}');
+      expect(screen.getByText('350')).toBeInTheDocument();
+    });
+  });
+
+  describe('Formula Autocomplete', () => {
+    it('suggests functions as a formula is typed and shows the signature of the call', async () => {
+      const user = userEvent.setup();
+      render(<Spreadsheet {...defaultProps} />);
+
+      await user.click(screen.getByText('150'));
+      await user.click(screen.getByTestId('formula-bar'));
+      const formulaBar = screen.getByLabelText('Formula bar');
+      await user.clear(formulaBar);
+      await user.type(formulaBar, '=SU');
+
+      const options = within(screen.getByRole('listbox', { name: 'Formula suggestions' })).getAllByRole('option');
+      expect(options.map(option => option.textContent)).toEqual(
+        expect.arrayContaining([expect.stringContaining('SUMIF'), expect.stringContaining('SUBSTITUTE')])
+      );
+
+      await user.type(formulaBar, 'MI');
+      await user.keyboard('{ArrowDown}{Enter}');
+      expect(formulaBar).toHaveValue('=SUMIFS(');
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+      expect(screen.getByRole('tooltip')).toHaveTextContent('SUMIFS(sum_range, criteria_range1, criteria1');
+
+      await user.type(formulaBar, 'C2:C4, B2:B4, ');
+      expect(within(screen.getByRole('tooltip')).getByText('criteria1')).toHaveClass('font-bold');
+
+      await user.type(formulaBar, '">60")');
+      expect(screen.queryByRole('tooltip')).not.toBeInTheDocument();
+      await user.keyboard('{Enter}');
+      expect(screen.getByText('300')).toBeInTheDocument();
+    });
+
+    it('completes named ranges and column headers', async () => {
+      const user = userEvent.setup();
+      render(<Spreadsheet {...defaultProps} names={[{ name: 'Revenue2020', reference: 'B2:B4' }]} />);
+
+      await user.click(screen.getByText('150'));
+      await user.click(screen.getByTestId('formula-bar'));
+      const formulaBar = screen.getByLabelText('Formula bar');
+      await user.clear(formulaBar);
+      await user.type(formulaBar, '=SUM(rev');
+      await user.keyboard('{Tab}');
+      expect(formulaBar).toHaveValue('=SUM(Revenue2020');
+
+      await user.type(formulaBar, ')+COUNT(pro');
+      expect(screen.getByRole('listbox')).toHaveTextContent('Column values A2:A4');
+      await user.keyboard('{Escape}');
+      expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+
+      await user.type(formulaBar, 'd');
+      fireEvent.mouseDown(screen.getByRole('option', { name: /Product/ }));
+      expect(formulaBar).toHaveValue('=SUM(Revenue2020)+COUNT(A2:A4');
+    });
+  });
+
+  describe('Formula Auditing', () => {
+    it('traces precedents and dependents of the selected cell', async () => {
+      const user = userEvent.setup();
+      render(<Spreadsheet {...defaultProps} formulas={{ '0:2022': '=B2+C2*2', '1:2022': '=D2+1' }} />);
+
+      await user.click(screen.getByRole('button', { name: 'Audit' }));
+      await user.click(screen.getByText('340'));
+
+      const traced = (role: string) =>
+        Array.from(document.querySelectorAll(`td[data-audit="${role}"]`)).map(cell => cell.textContent);
+      expect(traced('precedent')).toEqual(['100', '120']);
+      expect(traced('dependent')).toEqual(['341']);
+      expect(screen.getByTestId('audit-precedents')).toHaveTextContent('B2C2');
+
+      // Following a dependent traces it next
+      await user.click(within(screen.getByTestId('audit-dependents')).getByRole('button', { name: 'D3' }));
+      expect(screen.getByRole('region', { name: 'Formula auditing' })).toHaveTextContent('Auditing D3');
+      expect(traced('precedent')).toEqual(['340']);
+
+      await user.click(screen.getByRole('button', { name: 'Audit' }));
+      expect(document.querySelectorAll('td[data-audit]')).toHaveLength(0);
+    });
+
+    it('steps through the evaluation of a formula', async () => {
+      const user = userEvent.setup();
+      render(<Spreadsheet {...defaultProps} formulas={{ '0:2022': '=B2+C2*2' }} />);
+
+      await user.click(screen.getByRole('button', { name: 'Audit' }));
+      await user.click(screen.getByText('340'));
+      const formula = screen.getByTestId('evaluation-formula');
+      expect(formula).toHaveTextContent('=B2+C2*2');
+
+      const evaluate = screen.getByRole('button', { name: 'Evaluate' });
+      await user.click(evaluate);
+      expect(formula).toHaveTextContent('=100+C2*2');
+      await user.click(evaluate);
+      await user.click(evaluate);
+      expect(formula).toHaveTextContent('=100+240');
+      await user.click(evaluate);
+      expect(formula).toHaveTextContent('=340');
+      expect(evaluate).toBeDisabled();
+      expect(screen.getByText('Evaluation complete')).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Restart' }));
+      expect(formula).toHaveTextContent('=B2+C2*2');
+    });
+  });
+
+  describe('Clipboard', () => {
+    const cell = (text: string) => within(screen.getByRole('table')).getByText(text);
+
+    // Browsers fire copy and cut without a text selection, so the events are dispatched directly
+    const clipboardData = () => {
+      const formats = new Map<string, string>();
+      return {
+        setData: (format: string, data: string) => formats.set(format, data),
+        getData: (format: string) => formats.get(format) ?? ''
+      };
+    };
+
+    it('copies the selected cells as TSV and an HTML table', () => {
+      render(<Spreadsheet {...defaultProps} />);
+
+      fireEvent.mouseDown(cell('100'));
+      fireEvent.mouseEnter(cell('180'));
+      fireEvent.mouseUp(document);
+      const copied = clipboardData();
+      fireEvent.copy(document.body, { clipboardData: copied });
+
+      expect(copied.getData('text/plain')).toBe('100\t120\n200\t180');
+      expect(copied.getData('text/html')).toBe('<table><tr><td>100</td><td>120</td></tr><tr><td>200</td><td>180</td></tr></table>');
+    });
+
+    it('pastes TSV past the edge of the grid as one undo step', async () => {
+      const user = userEvent.setup();
+      render(<Spreadsheet {...defaultProps} formulas={{ '0:2022': '=SUM(D3:D4)' }} />);
+
+      await user.click(cell('220'));
+      await user.paste('1,000\t2\n3\tx\n5\t6');
+
+      const table = within(screen.getByRole('table'));
+      // Numeric text became numbers, so the formula reading them updated
+      expect(table.getByText('1003')).toBeInTheDocument();
+      expect(table.getByText('x')).toBeInTheDocument();
+      expect(mockOnAddColumns).toHaveBeenCalledWith([expect.objectContaining({ name: '' })]);
+      // Column letters, headers and four data rows
+      expect(screen.getAllByRole('row')).toHaveLength(6);
+
+      await user.click(cell('Widget A'));
+      await user.paste('Gadget');
+      expect(table.getByText('Gadget')).toBeInTheDocument();
+
+      // Each paste is undone on its own, and redone
+      fireEvent.keyDown(document, { key: 'z', ctrlKey: true });
+      expect(table.getByText('Widget A')).toBeInTheDocument();
+      expect(table.getByText('1003')).toBeInTheDocument();
+
+      fireEvent.keyDown(document, { key: 'z', ctrlKey: true });
+      expect(table.getByText('220')).toBeInTheDocument();
+      expect(table.getByText('310')).toBeInTheDocument();
+
+      fireEvent.keyDown(document, { key: 'y', ctrlKey: true });
+      expect(table.getByText('1003')).toBeInTheDocument();
+      expect(table.getByText('Widget A')).toBeInTheDocument();
+    });
+
+    it('cuts the selected cells, clearing them', async () => {
+      const user = userEvent.setup();
+      render(<Spreadsheet {...defaultProps} />);
+
+      await user.click(cell('Widget B'));
+      const copied = clipboardData();
+      fireEvent.cut(document.body, { clipboardData: copied });
+
+      expect(copied.getData('text/plain')).toBe('Widget B');
+      expect(within(screen.getByRole('table')).queryByText('Widget B')).not.toBeInTheDocument();
+
+      fireEvent.keyDown(document, { key: 'z', ctrlKey: true });
+      expect(cell('Widget B')).toBeInTheDocument();
+      fireEvent.keyDown(document, { key: 'y', ctrlKey: true });
+      expect(within(screen.getByRole('table')).queryByText('Widget B')).not.toBeInTheDocument();
+    });
+
+    it('pastes formulas copied from the grid with their relative references adjusted', async () => {
+      const user = userEvent.setup();
+      render(<Spreadsheet {...defaultProps} formulas={{ '0:2022': '=B2+C2+1' }} />);
+
+      await user.click(cell('221'));
+      const copied = clipboardData();
+      fireEvent.copy(document.body, { clipboardData: copied });
+      await user.click(cell('90'));
+      fireEvent.paste(document.body, { clipboardData: copied });
+
+      // =B4+C4+1
+      expect(cell('126')).toBeInTheDocument();
+    });
+  });
+
+  describe('Paste Special', () => {
+    const cell = (text: string) => within(screen.getByRole('table')).getByText(text);
+
+    const copySelection = () => {
+      const formats = new Map<string, string>();
+      fireEvent.copy(document.body, {
+        clipboardData: { setData: (format: string, data: string) => formats.set(format, data), getData: () => '' }
+      });
+    };
+
+    it('is unavailable until cells are copied', () => {
+      render(<Spreadsheet {...defaultProps} />);
+
+      expect(screen.getByRole('button', { name: 'Paste Special' })).toBeDisabled();
+      fireEvent.keyDown(document, { key: 'V', ctrlKey: true, shiftKey: true });
+      expect(screen.queryByRole('dialog', { name: 'Paste special' })).not.toBeInTheDocument();
+    });
+
+    it('pastes computed values as static values with Ctrl+Shift+V', async () => {
+      const user = userEvent.setup();
+      const onDataChange = jest.fn();
+      render(<Spreadsheet {...defaultProps} formulas={{ '0:2022': '=B2+C2+1' }} onDataChange={onDataChange} />);
+
+      await user.click(cell('221'));
+      copySelection();
+      await user.click(cell('90'));
+      fireEvent.keyDown(document, { key: 'V', ctrlKey: true, shiftKey: true });
+
+      const dialog = within(screen.getByRole('dialog', { name: 'Paste special' }));
+      await user.click(dialog.getByLabelText(/^Values/));
+      await user.click(dialog.getByRole('button', { name: 'Paste' }));
+
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+      const grid = onDataChange.mock.calls[onDataChange.mock.calls.length - 1][0];
+      expect(grid[2][3]).toEqual(expect.objectContaining({ value: 221 }));
+      expect(grid[2][3].formula).toBeUndefined();
+    });
+
+    it('transposes a row of cells into a column, adding rows past the edge', async () => {
+      const user = userEvent.setup();
+      render(<Spreadsheet {...defaultProps} />);
+
+      fireEvent.mouseDown(cell('100'));
+      fireEvent.mouseEnter(cell('120'));
+      fireEvent.mouseUp(document);
+      copySelection();
+      await user.click(cell('90'));
+      await user.click(screen.getByRole('button', { name: 'Paste Special' }));
+
+      const dialog = within(screen.getByRole('dialog', { name: 'Paste special' }));
+      await user.click(dialog.getByLabelText('Transpose'));
+      await user.click(dialog.getByRole('button', { name: 'Paste' }));
+
+      const rows = screen.getAllByRole('row');
+      // Column letters, headers and four data rows
+      expect(rows).toHaveLength(6);
+      expect(within(rows[4]).getAllByText('100')).toHaveLength(1);
+      expect(within(rows[5]).getByText('120')).toBeInTheDocument();
+
+      fireEvent.keyDown(document, { key: 'z', ctrlKey: true });
+      expect(cell('90')).toBeInTheDocument();
+
+      fireEvent.keyDown(document, { key: 'y', ctrlKey: true });
+      expect(within(screen.getAllByRole('row')[5]).getByText('120')).toBeInTheDocument();
+    });
+  });
+
+  describe('Fill Handle', () => {
+    const cell = (text: string) => within(screen.getByRole('table')).getByText(text);
+
+    const dragFillHandleTo = (target: HTMLElement) => {
+      fireEvent.mouseDown(screen.getByTestId('fill-handle'));
+      fireEvent.mouseEnter(target);
+      fireEvent.mouseUp(document);
+    };
+
+    it('extends a numeric series down as one undo step', () => {
+      render(<Spreadsheet {...defaultProps} />);
+
+      fireEvent.mouseDown(cell('100'));
+      fireEvent.mouseEnter(cell('200'));
+      fireEvent.mouseUp(document);
+      dragFillHandleTo(cell('50'));
+
+      expect(cell('300')).toBeInTheDocument();
+
+      fireEvent.keyDown(document, { key: 'z', ctrlKey: true });
+      expect(cell('50')).toBeInTheDocument();
+
+      fireEvent.keyDown(document, { key: 'y', ctrlKey: true });
+      expect(cell('300')).toBeInTheDocument();
+    });
+
+    it('fills formulas right with their relative references moved along', async () => {
+      const user = userEvent.setup();
+      render(<Spreadsheet {...defaultProps} formulas={{ '0:2021': '=B2+1' }} />);
+
+      await user.click(cell('101'));
+      dragFillHandleTo(cell('150'));
+
+      // =C2+1
+      expect(cell('102')).toBeInTheDocument();
+    });
+  });
+
+  describe('Custom Functions', () => {
+    const functions: Record<string, FormulaFunction> = {
+      RUNRATE: {
+        description: 'Annualizes the average of monthly figures',
+        args: ['monthly_values'],
+        minArgs: 1,
+        maxArgs: 1,
+        returns: 'number',
+        evaluate: ([values]) => {
+          const numbers = (values as unknown[][]).flat().filter((v): v is number => typeof v === 'number');
+          return (numbers.reduce((a, b) => a + b, 0) / numbers.length) * 12;
+        }
+      }
+    };
+
+    it('evaluates formulas calling functions the host app provides, while mounted', () => {
+      const { unmount } = render(
+        <Spreadsheet {...defaultProps} functions={functions} formulas={{ '0:2022': '=RUNRATE(B2:C2)' }} />
+      );
+
+      expect(within(screen.getByRole('table')).getByText('1320')).toBeInTheDocument();
+      expect(findFunction('RUNRATE')).toBeDefined();
+
+      unmount();
+      expect(findFunction('RUNRATE')).toBeUndefined();
+    });
+  });
+
+  describe('Named Ranges', () => {
+    it('evaluates formulas that use names', () => {
+      render(
+        <Spreadsheet
+          {...defaultProps}
+          names={[{ name: 'Revenue2020', reference: 'B2:B4' }]}
+          formulas={{ '2:2022': '=SUM(Revenue2020)' }}
+        />
+      );
+
+      expect(screen.getByText('350')).toBeInTheDocument();
+    });
+
+    it('creates, renames and deletes names from the toolbar', async () => {
+      const user = userEvent.setup();
+      const onNamesChange = jest.fn();
+      render(
+        <Spreadsheet
+          {...defaultProps}
+          formulas={{ '2:2022': '=SUM(Revenue2020)' }}
+          onNamesChange={onNamesChange}
+        />
+      );
+      expect(screen.getByText('#NAME?')).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Names' }));
+      const dialog = screen.getByRole('dialog', { name: 'Named ranges' });
+      await user.type(within(dialog).getByLabelText('Name'), 'B5');
+      await user.clear(within(dialog).getByLabelText('Refers to'));
+      await user.type(within(dialog).getByLabelText('Refers to'), 'b2:b4');
+      await user.click(within(dialog).getByRole('button', { name: 'Add name' }));
+      expect(within(dialog).getByRole('alert')).toHaveTextContent('"B5" looks like a cell reference');
+
+      await user.clear(within(dialog).getByLabelText('Name'));
+      await user.type(within(dialog).getByLabelText('Name'), 'Revenue2020');
+      await user.click(within(dialog).getByRole('button', { name: 'Add name' }));
+      expect(onNamesChange).toHaveBeenLastCalledWith([{ name: 'Revenue2020', reference: 'B2:B4' }]);
+      expect(screen.getByText('350')).toBeInTheDocument();
+
+      await user.click(within(dialog).getByRole('button', { name: 'Edit Revenue2020' }));
+      await user.clear(within(dialog).getByLabelText('Name'));
+      await user.type(within(dialog).getByLabelText('Name'), 'Sales');
+      await user.click(within(dialog).getByRole('button', { name: 'Save' }));
+      expect(onNamesChange).toHaveBeenLastCalledWith([{ name: 'Sales', reference: 'B2:B4' }]);
+      expect(screen.getByText('350')).toBeInTheDocument();
+
+      await user.click(within(dialog).getByRole('button', { name: 'Delete Sales' }));
+      expect(onNamesChange).toHaveBeenLastCalledWith([]);
+      expect(screen.getByText('#NAME?')).toBeInTheDocument();
+    });
+
+    it('undoes and redoes a rename along with the formulas it rewrote', async () => {
+      const user = userEvent.setup();
+      const onNamesChange = jest.fn();
+      const onDataChange = jest.fn();
+      render(
+        <Spreadsheet
+          {...defaultProps}
+          names={[{ name: 'Revenue2020', reference: 'B2:B4' }]}
+          formulas={{ '2:2022': '=SUM(Revenue2020)' }}
+          onNamesChange={onNamesChange}
+          onDataChange={onDataChange}
+        />
+      );
+      const lastGrid = () => onDataChange.mock.calls[onDataChange.mock.calls.length - 1][0];
+
+      await user.click(screen.getByRole('button', { name: 'Names (1)' }));
+      const dialog = screen.getByRole('dialog', { name: 'Named ranges' });
+      await user.click(within(dialog).getByRole('button', { name: 'Edit Revenue2020' }));
+      await user.clear(within(dialog).getByLabelText('Name'));
+      await user.type(within(dialog).getByLabelText('Name'), 'Sales');
+      await user.click(within(dialog).getByRole('button', { name: 'Save' }));
+      await user.click(within(dialog).getByRole('button', { name: 'Close' }));
+
+      await user.click(within(screen.getByRole('table')).getByText('Widget A'));
+      fireEvent.keyDown(document, { key: 'z', ctrlKey: true });
+      expect(onNamesChange).toHaveBeenLastCalledWith([{ name: 'Revenue2020', reference: 'B2:B4' }]);
+      expect(lastGrid()[2][3].formula).toBe('=SUM(Revenue2020)');
+
+      fireEvent.keyDown(document, { key: 'y', ctrlKey: true });
+      expect(onNamesChange).toHaveBeenLastCalledWith([{ name: 'Sales', reference: 'B2:B4' }]);
+      expect(lastGrid()[2][3].formula).toBe('=SUM(Sales)');
+      expect(screen.getByText('350')).toBeInTheDocument();
+    });
   });
 
   describe('Keyboard Navigation', () => {
@@ -300,6 +953,193 @@ describe('Spreadsheet Component', () => {
         expect(screen.getByText('Insert Column Right')).toBeInTheDocument();
       });
     });
+    it('keeps formulas pointing at the same data when a row is inserted', async () => {
+      const user = userEvent.setup();
+      render(<Spreadsheet {...defaultProps} formulas={{ '2:2021': '=B2+B3' }} />);
+      expect(screen.getByText('300')).toBeInTheDocument();
+
+      // Insert a row above Widget B (row 3); the formula now reads B2+B4
+      await user.pointer({ keys: '[MouseRight]', target: screen.getByText('3') });
+      await user.click(await screen.findByText('Insert Row Above'));
+
+      expect(screen.getByText('300')).toBeInTheDocument();
+    });
+
+    it('deletes a column, turning references to it into #REF!, as one undo step', async () => {
+      const user = userEvent.setup();
+      const onDeleteColumns = jest.fn();
+      render(<Spreadsheet {...defaultProps} onDeleteColumns={onDeleteColumns} formulas={{ '0:2022': '=C2+1' }} />);
+      expect(screen.getByText('121')).toBeInTheDocument();
+
+      await user.pointer({ keys: '[MouseRight]', target: screen.getByText('C') });
+      await user.click(await screen.findByText('Delete Column'));
+
+      expect(onDeleteColumns).toHaveBeenCalledWith([2]);
+      const table = within(screen.getByRole('table'));
+      expect(table.queryByText('120')).not.toBeInTheDocument();
+      expect(table.getByText('#REF!')).toBeInTheDocument();
+
+      fireEvent.keyDown(document, { key: 'z', ctrlKey: true });
+      expect(table.getByText('121')).toBeInTheDocument();
+    });
+
+    it('brings deleted columns back into the table data on undo', async () => {
+      const user = userEvent.setup();
+      const StatefulSpreadsheet = () => {
+        const [data, setData] = React.useState(mockData);
+        return (
+          <Spreadsheet
+            data={data}
+            onDeleteColumns={(indexes) => setData(prev => ({
+              ...prev,
+              columns: prev.columns.filter((_, index) => !indexes.includes(index))
+            }))}
+            onInsertColumn={(index, column) => setData(prev => ({
+              ...prev,
+              columns: [...prev.columns.slice(0, index), column, ...prev.columns.slice(index)]
+            }))}
+          />
+        );
+      };
+      render(<StatefulSpreadsheet />);
+
+      await user.pointer({ keys: '[MouseRight]', target: screen.getByText('C') });
+      await user.click(await screen.findByText('Delete Column'));
+      const table = within(screen.getByRole('table'));
+      expect(table.queryByText('2021')).not.toBeInTheDocument();
+
+      fireEvent.keyDown(document, { key: 'z', ctrlKey: true });
+      expect(table.getByText('2021')).toBeInTheDocument();
+      expect(table.getByText('120')).toBeInTheDocument();
+    });
+
+    it('deletes a column again on redo after undoing the deletion', async () => {
+      const user = userEvent.setup();
+      const StatefulSpreadsheet = () => {
+        const [data, setData] = React.useState(mockData);
+        return (
+          <Spreadsheet
+            data={data}
+            onDeleteColumns={(indexes) => setData(prev => ({
+              ...prev,
+              columns: prev.columns.filter((_, index) => !indexes.includes(index))
+            }))}
+            onInsertColumn={(index, column) => setData(prev => ({
+              ...prev,
+              columns: [...prev.columns.slice(0, index), column, ...prev.columns.slice(index)]
+            }))}
+          />
+        );
+      };
+      render(<StatefulSpreadsheet />);
+      const table = within(screen.getByRole('table'));
+
+      await user.pointer({ keys: '[MouseRight]', target: screen.getByText('C') });
+      await user.click(await screen.findByText('Delete Column'));
+      fireEvent.keyDown(document, { key: 'z', ctrlKey: true });
+      expect(table.getByText('120')).toBeInTheDocument();
+
+      fireEvent.keyDown(document, { key: 'y', ctrlKey: true });
+      expect(table.queryByText('2021')).not.toBeInTheDocument();
+      expect(table.queryByText('120')).not.toBeInTheDocument();
+      expect(table.getByText('150')).toBeInTheDocument();
+    });
+
+    it('undoes consecutive row deletions one at a time', async () => {
+      const user = userEvent.setup();
+      render(<Spreadsheet {...defaultProps} />);
+      const table = within(screen.getByRole('table'));
+
+      await user.pointer({ keys: '[MouseRight]', target: screen.getByText('2') });
+      await user.click(await screen.findByText('Delete Row'));
+      await user.pointer({ keys: '[MouseRight]', target: screen.getByText('2') });
+      await user.click(await screen.findByText('Delete Row'));
+      expect(table.queryByText('Widget A')).not.toBeInTheDocument();
+      expect(table.queryByText('Widget B')).not.toBeInTheDocument();
+
+      fireEvent.keyDown(document, { key: 'z', ctrlKey: true });
+      expect(table.queryByText('Widget A')).not.toBeInTheDocument();
+      expect(table.getByText('Widget B')).toBeInTheDocument();
+
+      fireEvent.keyDown(document, { key: 'z', ctrlKey: true });
+      expect(table.getByText('Widget A')).toBeInTheDocument();
+    });
+
+    it('moves reordered columns back in the table data on undo, keeping headers over their values', () => {
+      const StatefulSpreadsheet = () => {
+        const [data, setData] = React.useState(mockData);
+        return (
+          <Spreadsheet
+            data={data}
+            onReorderColumns={(sourceIndex, targetIndex) => setData(prev => {
+              const columns = [...prev.columns];
+              columns.splice(targetIndex, 0, ...columns.splice(sourceIndex, 1));
+              return { ...prev, columns };
+            })}
+            onHeaderChange={(index, name) => setData(prev => ({
+              ...prev,
+              columns: prev.columns.map((col, i) => (i === index ? { ...col, name } : col))
+            }))}
+          />
+        );
+      };
+      render(<StatefulSpreadsheet />);
+      const rowTexts = (row: number) =>
+        Array.from(screen.getByRole('table').querySelectorAll('tbody tr')[row].querySelectorAll('td'))
+          .slice(1)
+          .map(cell => cell.textContent);
+      const dataTransfer = { setData: jest.fn(), getData: jest.fn(), effectAllowed: 'move', dropEffect: 'move' };
+
+      fireEvent.dragStart(screen.getByText('B').closest('th')!, { dataTransfer });
+      fireEvent.drop(screen.getByText('D').closest('th')!, { dataTransfer });
+      expect(rowTexts(0)).toEqual(['Product', '2021', '2022', '2020']);
+      expect(rowTexts(1)).toEqual(['Widget A', '120', '150', '100']);
+
+      fireEvent.click(screen.getByText('Widget A'));
+      fireEvent.keyDown(document, { key: 'z', ctrlKey: true });
+      expect(rowTexts(0)).toEqual(['Product', '2020', '2021', '2022']);
+      expect(rowTexts(1)).toEqual(['Widget A', '100', '120', '150']);
+    });
+
+    it('deletes every selected row', async () => {
+      const user = userEvent.setup();
+      render(<Spreadsheet {...defaultProps} />);
+
+      fireEvent.mouseDown(screen.getByText('Widget B'));
+      fireEvent.mouseEnter(screen.getByText('90'));
+      fireEvent.mouseUp(document);
+      await user.pointer({ keys: '[MouseRight]', target: screen.getByText('3') });
+      await user.click(await screen.findByText('Delete 2 Rows'));
+
+      const table = within(screen.getByRole('table'));
+      expect(table.getByText('Widget A')).toBeInTheDocument();
+      expect(table.queryByText('Widget B')).not.toBeInTheDocument();
+      expect(table.queryByText('Widget C')).not.toBeInTheDocument();
+    });
+
+    it('clears formats and contents separately', async () => {
+      const user = userEvent.setup();
+      render(<Spreadsheet {...defaultProps} />);
+      const table = within(screen.getByRole('table'));
+
+      await user.click(table.getByText('Widget A'));
+      fireEvent.keyDown(document, { key: 'b', ctrlKey: true });
+      expect(table.getByText('Widget A').closest('td')).toHaveStyle({ fontWeight: 'bold' });
+
+      await user.pointer({ keys: '[MouseRight]', target: screen.getByText('2') });
+      await user.click(await screen.findByText('Clear Formats'));
+      expect(table.getByText('Widget A').closest('td')).toHaveStyle({ fontWeight: 'normal' });
+
+      await user.pointer({ keys: '[MouseRight]', target: screen.getByText('2') });
+      await user.click(await screen.findByText('Clear Contents'));
+      expect(table.queryByText('Widget A')).not.toBeInTheDocument();
+      expect(screen.getByText('Widget B')).toBeInTheDocument();
+
+      fireEvent.keyDown(document, { key: 'z', ctrlKey: true });
+      expect(table.getByText('Widget A')).toBeInTheDocument();
+      fireEvent.keyDown(document, { key: 'y', ctrlKey: true });
+      expect(table.queryByText('Widget A')).not.toBeInTheDocument();
+    });
   });
 
   describe('Error Handling', () => {
@@ -323,10 +1163,14 @@ describe('Spreadsheet Component', () => {
       await user.type(input, '=INVALID_FORMULA()');
       await user.keyboard('{Enter}');
       
-      // Should handle error without crashing
+      // Unknown functions show #NAME? and explain themselves in the tooltip
       await waitFor(() => {
-        expect(screen.getByText('#ERROR!')).toBeInTheDocument();
+        expect(screen.getByText('#NAME?')).toBeInTheDocument();
       });
+      expect(screen.getByText('#NAME?').closest('td')).toHaveAttribute(
+        'title',
+        '#NAME?: Unknown function INVALID_FORMULA'
+      );
     });
   });
 });
\ No newline at end of file
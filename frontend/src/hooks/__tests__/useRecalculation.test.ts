@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { renderHook, act } from '@testing-library/react';
+import { useRecalculation, WORKER_MIN_FORMULAS } from '../useRecalculation';
+import { handleRecalculateRequest, type GridCell, type RecalculateRequest } from '../../lib/formula';
+
+/**
+ * Stands in for the recalculation worker, answering requests only when told to
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: { message: string; preventDefault: () => void }) => void) | null = null;
+  requests: RecalculateRequest[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: RecalculateRequest) {
+    this.requests.push(request);
+  }
+
+  /** Handle the oldest request, as the real worker would */
+  respond() {
+    const request = this.requests.shift()!;
+    handleRecalculateRequest(request, response => this.onmessage?.({ data: response }));
+  }
+
+  /** Fail the way a worker script that cannot load does */
+  fail() {
+    this.onerror?.({ message: 'Script error', preventDefault: () => {} });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const headers = ['Amount', 'Double'];
+
+/** A grid with one formula per row, doubling the amount next to it */
+const gridOf = (rows: number): GridCell[][] =>
+  Array.from({ length: rows }, (_, row) => [{ value: row }, { value: row * 2, formula: `=A${row + 2}*2` }]);
+
+/** Copy of a grid with new amounts in some rows */
+const withAmounts = (grid: GridCell[][], amounts: Record<number, number>) =>
+  grid.map((cells, row) => (row in amounts ? [{ value: amounts[row] }, cells[1]] : cells));
+
+const renderRecalculation = (initial: GridCell[][]) =>
+  renderHook(() => {
+    const [grid, setGrid] = useState(initial);
+    return { grid, ...useRecalculation(setGrid) };
+  });
+
+describe('useRecalculation', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    Object.defineProperty(window, 'Worker', { value: FakeWorker, configurable: true, writable: true });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(window, 'Worker');
+    jest.restoreAllMocks();
+  });
+
+  it('recalculates small grids synchronously', () => {
+    const { result } = renderRecalculation(gridOf(3));
+
+    act(() => result.current.recalculate(withAmounts(result.current.grid, { 1: 50 }), headers, [{ row: 1, col: 0 }], []));
+
+    expect(result.current.grid[1][1].value).toBe(100);
+    expect(result.current.status).toBeNull();
+    expect(FakeWorker.instances).toHaveLength(0);
+  });
+
+  it('stores large grids straight away and writes the worker results in when they arrive', () => {
+    const { result, unmount } = renderRecalculation(gridOf(WORKER_MIN_FORMULAS));
+
+    act(() => result.current.recalculate(withAmounts(result.current.grid, { 0: 7 }), headers, [{ row: 0, col: 0 }], []));
+
+    expect(result.current.grid[0][0].value).toBe(7);
+    expect(result.current.grid[0][1].value).toBe(0);
+    expect(result.current.status).toEqual({ done: 0, total: 0 });
+
+    const [worker] = FakeWorker.instances;
+    expect(worker.requests[0].changed).toEqual([{ row: 0, col: 0 }]);
+    act(() => worker.respond());
+
+    expect(result.current.grid[0][1].value).toBe(14);
+    expect(result.current.status).toBeNull();
+
+    unmount();
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('restarts the worker to replace a recalculation still in progress, covering the changes of both', () => {
+    const { result } = renderRecalculation(gridOf(WORKER_MIN_FORMULAS));
+
+    act(() => result.current.recalculate(withAmounts(result.current.grid, { 0: 7 }), headers, [{ row: 0, col: 0 }], []));
+    act(() => result.current.recalculate(withAmounts(result.current.grid, { 1: 8 }), headers, [{ row: 1, col: 0 }], []));
+
+    const [first, second] = FakeWorker.instances;
+    expect(first.terminated).toBe(true);
+    expect(second.requests[0].changed).toEqual([{ row: 0, col: 0 }, { row: 1, col: 0 }]);
+
+    // A result for the replaced request is stale and ignored
+    act(() => first.respond());
+    expect(result.current.grid[0][1].value).toBe(0);
+    expect(result.current.status).not.toBeNull();
+
+    act(() => second.respond());
+    expect(result.current.grid[0][1].value).toBe(14);
+    expect(result.current.grid[1][1].value).toBe(16);
+    expect(result.current.status).toBeNull();
+  });
+
+  it('finishes on the main thread when the worker fails', () => {
+    const { result } = renderRecalculation(gridOf(WORKER_MIN_FORMULAS));
+
+    act(() => result.current.recalculate(withAmounts(result.current.grid, { 0: 7 }), headers, [{ row: 0, col: 0 }], []));
+    act(() => FakeWorker.instances[0].fail());
+
+    expect(result.current.grid[0][1].value).toBe(14);
+    expect(result.current.status).toBeNull();
+
+    // Later recalculations no longer try the worker
+    act(() => result.current.recalculate(withAmounts(result.current.grid, { 2: 9 }), headers, [{ row: 2, col: 0 }], []));
+    expect(result.current.grid[2][1].value).toBe(18);
+    expect(FakeWorker.instances).toHaveLength(1);
+  });
+});
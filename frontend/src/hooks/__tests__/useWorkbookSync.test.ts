@@ -0,0 +1,231 @@
+import { renderHook, act } from '@testing-library/react';
+import { useWorkbookSync, snapshotFromGrid, diffSnapshots, WorkbookSnapshot } from '../useWorkbookSync';
+
+global.fetch = jest.fn();
+
+const columns = [
+  { name: 'Product', key: 'product' },
+  { name: '2020', key: '2020' },
+];
+
+const initial: WorkbookSnapshot = {
+  columns,
+  items: [
+    { product: 'Widget A', '2020': 100 },
+    { product: 'Widget B', '2020': 200 },
+  ],
+  formulas: {},
+  formats: {},
+  names: [],
+};
+
+const withCell = (row: number, key: string, value: string | number, formula?: string): WorkbookSnapshot => {
+  const items = initial.items.map((item, i) => (i === row ? { ...item, [key]: value } : item));
+  return { columns, items, formulas: formula ? { [`${row}:${key}`]: formula } : {}, formats: {}, names: [] };
+};
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+});
+
+describe('useWorkbookSync', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    (fetch as jest.Mock).mockReset();
+  });
+
+  describe('snapshot helpers', () => {
+    it('builds items and formulas from grid data', () => {
+      const snapshot = snapshotFromGrid(columns, [
+        [{ value: 'Widget A' }, { value: 300, formula: '=SUM(B3:B4)' }],
+      ], []);
+
+      expect(snapshot.items).toEqual([{ product: 'Widget A', '2020': 300 }]);
+      expect(snapshot.formulas).toEqual({ '0:2020': '=SUM(B3:B4)' });
+    });
+
+    it('stores dates as ISO text', () => {
+      const snapshot = snapshotFromGrid(columns, [
+        [{ value: 'Launch' }, { value: 44941, type: 'date' }],
+      ], []);
+
+      expect(snapshot.items).toEqual([{ product: 'Launch', '2020': '2023-01-15' }]);
+    });
+
+    it('leaves spilled cells empty but keeps their formatting', () => {
+      const snapshot = snapshotFromGrid(columns, [
+        [{ value: 'Widget B', formula: '=SORT(A3:A4)' }, { value: 300 }],
+        [{ value: 'Widget C', spilledFrom: { row: 0, col: 0 }, format: { italic: true } }, { value: 100 }],
+      ], []);
+
+      expect(snapshot.items).toEqual([
+        { product: 'Widget B', '2020': 300 },
+        { product: '', '2020': 100 },
+      ]);
+      expect(snapshot.formulas).toEqual({ '0:product': '=SORT(A3:A4)' });
+      expect(snapshot.formats).toEqual({ '1:product': { italic: true } });
+    });
+
+    it('stores formats and reports formatting changes', () => {
+      const snapshot = snapshotFromGrid(columns, [
+        [{ value: 'Widget A', format: { bold: true } }, { value: 100, format: {} }],
+        [{ value: 'Widget B' }, { value: 200, format: { alignment: 'right', backgroundColor: '#fef3c7' } }],
+      ], []);
+
+      expect(snapshot.formats).toEqual({
+        '0:product': { bold: true },
+        '1:2020': { alignment: 'right', backgroundColor: '#fef3c7' },
+      });
+      expect(diffSnapshots(initial, snapshot).changes).toEqual([
+        { row: 0, columnKey: 'product', value: 'Widget A', formula: null, format: { bold: true } },
+        { row: 1, columnKey: '2020', value: 200, formula: null, format: { alignment: 'right', backgroundColor: '#fef3c7' } },
+      ]);
+      expect(diffSnapshots(snapshot, { ...snapshot, formats: {} }).changes).toHaveLength(2);
+    });
+
+    it('reports changed cells', () => {
+      const { structural, changes } = diffSnapshots(initial, withCell(1, '2020', 250, '=100+150'));
+
+      expect(structural).toBe(false);
+      expect(changes).toEqual([{ row: 1, columnKey: '2020', value: 250, formula: '=100+150', format: null }]);
+    });
+
+    it('treats column, row count and named range changes as structural', () => {
+      expect(diffSnapshots(initial, { ...initial, items: initial.items.slice(1) }).structural).toBe(true);
+      expect(diffSnapshots(initial, { ...initial, columns: [columns[1], columns[0]] }).structural).toBe(true);
+      const named = { ...initial, names: [{ name: 'Sales2020', reference: 'B2:B3' }] };
+      expect(diffSnapshots(initial, named).structural).toBe(true);
+      expect(diffSnapshots(named, { ...initial, names: [{ name: 'Sales2020', reference: 'B2:B4' }] }).structural).toBe(true);
+      expect(diffSnapshots(named, { ...named, names: [...named.names] }).structural).toBe(false);
+    });
+  });
+
+  it('sends debounced cell edits as a single PATCH', async () => {
+    (fetch as jest.Mock).mockResolvedValue(jsonResponse(200, { revision: 2 }));
+    const { result } = renderHook(() => useWorkbookSync('http://api'));
+
+    act(() => result.current.start({ workbookId: 'default', revision: 1, snapshot: initial }));
+    act(() => result.current.queue(withCell(0, '2020', 110)));
+    act(() => result.current.queue(withCell(0, '2020', 120)));
+
+    expect(result.current.status).toBe('saving');
+    expect(fetch).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(800);
+    });
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    const [url, init] = (fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('http://api/api/workbooks/default/cells');
+    expect(init.method).toBe('PATCH');
+    expect(JSON.parse(init.body)).toEqual({
+      baseRevision: 1,
+      changes: [{ row: 0, columnKey: '2020', value: 120, formula: null, format: null }],
+    });
+    expect(result.current.status).toBe('saved');
+  });
+
+  it('replaces the workbook with PUT after structural changes', async () => {
+    (fetch as jest.Mock).mockResolvedValue(jsonResponse(200, { revision: 2 }));
+    const { result } = renderHook(() => useWorkbookSync('http://api'));
+
+    act(() => result.current.start({ workbookId: 'default', revision: 1, snapshot: initial }));
+    act(() => result.current.queue({
+      ...initial,
+      items: [...initial.items, { product: 'Total', '2020': '' }],
+      formats: { '2:product': { bold: true } },
+      names: [{ name: 'Sales2020', reference: 'B2:B3' }],
+    }));
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(800);
+    });
+
+    const [url, init] = (fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('http://api/api/workbooks/default');
+    expect(init.method).toBe('PUT');
+    expect(JSON.parse(init.body)).toMatchObject({
+      baseRevision: 1,
+      formats: { '2:product': { bold: true } },
+      names: [{ name: 'Sales2020', reference: 'B2:B3' }],
+    });
+  });
+
+  it('goes offline on failure and replays the queue when retrying', async () => {
+    (fetch as jest.Mock)
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce(jsonResponse(200, { revision: 2 }));
+    const { result } = renderHook(() => useWorkbookSync('http://api'));
+
+    act(() => result.current.start({ workbookId: 'default', revision: 1, snapshot: initial }));
+    act(() => result.current.queue(withCell(1, 'product', 'Widget Z')));
+
+    await act(async () => {
+      await jest.advanceTimersByTimeAsync(800);
+    });
+    expect(result.current.status).toBe('offline');
+
+    await act(async () => {
+      window.dispatchEvent(new Event('online'));
+      await jest.advanceTimersByTimeAsync(0);
+    });
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(JSON.parse((fetch as jest.Mock).mock.calls[1][1].body).changes).toEqual([
+      { row: 1, columnKey: 'product', value: 'Widget Z', formula: null, format: null },
+    ]);
+    expect(result.current.status).toBe('saved');
+  });
+
+  it('shows the version of cells a teammate changed instead of overwriting it', async () => {
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse(409, {
+        revision: 3,
+        conflicts: [{ row: 0, columnKey: '2020', value: 999, formula: null, format: { bold: true }, revision: 3 }],
+      }))
+      .mockResolvedValueOnce(jsonResponse(200, { revision: 4 }));
+    const { result } = renderHook(() => useWorkbookSync('http://api'));
+
+    act(() => result.current.start({ workbookId: 'default', revision: 1, snapshot: initial }));
+    act(() => result.current.queue({
+      ...initial,
+      items: [{ product: 'Widget A', '2020': 110 }, { product: 'Widget Z', '2020': 200 }],
+    }));
+
+    await act(async () => {
+      await jest.runAllTimersAsync();
+    });
+
+    // The rest of the batch is re-sent without the conflicting cell
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(JSON.parse((fetch as jest.Mock).mock.calls[1][1].body)).toEqual({
+      baseRevision: 3,
+      changes: [{ row: 1, columnKey: 'product', value: 'Widget Z', formula: null, format: null }],
+    });
+    expect(result.current.conflicts).toEqual([
+      { row: 0, columnKey: '2020', value: 999, formula: null, format: { bold: true } },
+    ]);
+    expect(result.current.message).toContain('changed by someone else');
+    expect(result.current.status).toBe('saved');
+
+    // Once the grid shows their version there is nothing left to save
+    act(() => result.current.queue({
+      ...initial,
+      items: [{ product: 'Widget A', '2020': 999 }, { product: 'Widget Z', '2020': 200 }],
+      formats: { '0:2020': { bold: true } },
+    }));
+    await act(async () => {
+      await jest.runAllTimersAsync();
+    });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
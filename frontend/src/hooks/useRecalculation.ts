@@ -0,0 +1,170 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef, type Dispatch, type SetStateAction } from 'react';
+import {
+  applyCellPatches,
+  hasCustomFunctions,
+  recalculateGrid,
+  type CellAddress,
+  type GridCell,
+  type NamedRange,
+  type RecalculateRequest,
+  type RecalculateResponse
+} from '../lib/formula';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * How far a background recalculation has got
+ * @property done - Formulas evaluated so far
+ * @property total - Formulas to evaluate (0 until the worker first reports)
+ */
+export type RecalculationStatus = { done: number; total: number };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Fewest formulas for a grid to be recalculated in the worker; smaller grids recalculate instantly */
+export const WORKER_MIN_FORMULAS = 500;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Count the formula cells in a grid
+ * @param grid - Grid rows
+ * @returns Number of cells with a formula
+ */
+const countFormulas = (grid: GridCell[][]) =>
+  grid.reduce((count, row) => row.reduce((n, cell) => (cell.formula ? n + 1 : n), count), 0);
+
+/**
+ * Combine the changed cells of two recalculations
+ * @param a - Cells changed first, or undefined for a full recalculation
+ * @param b - Cells changed next, or undefined for a full recalculation
+ * @returns Every changed cell, or undefined if either was a full recalculation
+ */
+const mergeChanged = (a?: CellAddress[], b?: CellAddress[]) => (a && b ? [...a, ...b] : undefined);
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * Recalculate a grid's formulas, in a Web Worker when there are many of them
+ *
+ * Grids with WORKER_MIN_FORMULAS or more formulas are stored straight away and
+ * their formulas recalculated in the background; the results are written into
+ * whatever the grid is by then, and `status` reports progress meanwhile. A
+ * recalculation requested before the previous one finishes replaces it: the
+ * busy worker is restarted rather than left to finish work nobody will use,
+ * and the new request covers the cells changed for both. Smaller grids, grids
+ * recalculated while custom functions are registered, and browsers without
+ * workers are recalculated synchronously as before.
+ *
+ * @param setGrid - State setter for the grid
+ * @returns `recalculate`, and the progress of the background recalculation (null when idle)
+ */
+export const useRecalculation = <T extends GridCell>(setGrid: Dispatch<SetStateAction<T[][]>>) => {
+  const [status, setStatus] = useState<RecalculationStatus | null>(null);
+
+  const workerRef = useRef<Worker | null>(null);
+  /** Whether the worker failed to start, so recalculation stays on the main thread */
+  const workerFailedRef = useRef(false);
+  /** Recalculation the worker is busy with, if any */
+  const pendingRef = useRef<Omit<RecalculateRequest, 'grid'> | null>(null);
+  const nextIdRef = useRef(0);
+
+  /**
+   * Start the worker on first use
+   * @returns The worker, or null when workers are unavailable
+   */
+  const getWorker = useCallback(() => {
+    if (workerRef.current || workerFailedRef.current || typeof Worker === 'undefined') return workerRef.current;
+
+    const worker = new Worker(new URL('../workers/recalculate.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<RecalculateResponse>) => {
+      const response = event.data;
+      // Replies to a replaced request are stale
+      if (response.id !== pendingRef.current?.id) return;
+      if (response.type === 'progress') {
+        setStatus({ done: response.done, total: response.total });
+        return;
+      }
+      pendingRef.current = null;
+      setStatus(null);
+      setGrid(current => applyCellPatches(current, response.patches));
+    };
+    // Finish on the main thread if the worker cannot run
+    worker.onerror = (event) => {
+      event.preventDefault();
+      console.error('Recalculation worker failed:', event.message);
+      worker.terminate();
+      workerRef.current = null;
+      workerFailedRef.current = true;
+
+      const pending = pendingRef.current;
+      pendingRef.current = null;
+      setStatus(null);
+      if (pending) {
+        setGrid(current => recalculateGrid(current, pending.headers, pending.changed, pending.names));
+      }
+    };
+    workerRef.current = worker;
+    return worker;
+  }, [setGrid]);
+
+  /**
+   * Store a grid, recalculating the formulas that depend on the changed cells
+   * @param grid - New grid data
+   * @param headers - Column names, readable as row 1
+   * @param changed - Cells whose values changed; omit to recalculate every formula
+   * @param names - Named ranges formulas may use
+   */
+  const recalculate = useCallback((grid: T[][], headers: string[], changed: CellAddress[] | undefined, names: NamedRange[]) => {
+    // Cells changed for a recalculation still in progress have to be covered again
+    const pending = pendingRef.current;
+    const allChanged = pending ? mergeChanged(pending.changed, changed) : changed;
+
+    // A worker cannot be interrupted mid-recalculation, so one busy with a replaced request is stopped
+    if (pending && workerRef.current) {
+      workerRef.current.terminate();
+      workerRef.current = null;
+    }
+
+    // Functions the host app registered only exist on the page, not in the worker
+    const offload = countFormulas(grid) >= WORKER_MIN_FORMULAS && !hasCustomFunctions();
+    const worker = offload ? getWorker() : null;
+    if (!worker) {
+      pendingRef.current = null;
+      setStatus(null);
+      setGrid(recalculateGrid(grid, headers, allChanged, names));
+      return;
+    }
+
+    const request: RecalculateRequest = {
+      type: 'recalculate',
+      id: ++nextIdRef.current,
+      grid,
+      headers,
+      changed: allChanged,
+      names
+    };
+    pendingRef.current = { type: request.type, id: request.id, headers, changed: allChanged, names };
+    setStatus(current => current ?? { done: 0, total: 0 });
+    setGrid(grid);
+    worker.postMessage(request);
+  }, [getWorker, setGrid]);
+
+  // Stop the worker with the component
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  return { status, recalculate };
+};
@@ -0,0 +1,399 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { displayGridValue, type CellAddress, type NamedRange } from '../lib/formula';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Represents a column in the workbook
+ * @property name - Display name for the column
+ * @property key - Unique identifier used to access data in rows
+ */
+type Column = { name: string; key: string };
+
+/**
+ * Represents a row of data as key-value pairs
+ */
+type Row = Record<string, string | number>;
+
+/**
+ * Visual formatting of a cell, as the backend stores it
+ */
+export type CellFormat = {
+  bold?: boolean;
+  italic?: boolean;
+  alignment?: 'left' | 'center' | 'right';
+  backgroundColor?: string;
+};
+
+/**
+ * Minimal shape of a grid cell needed to build a snapshot
+ */
+type GridCell = {
+  value: string | number;
+  type?: 'date';
+  format?: CellFormat;
+  formula?: string;
+  spilledFrom?: CellAddress;
+};
+
+/**
+ * Everything the backend stores for a workbook
+ * Formulas and formats are keyed by `${row}:${columnKey}`
+ */
+export type WorkbookSnapshot = {
+  columns: Column[];
+  items: Row[];
+  formulas: Record<string, string>;
+  formats: Record<string, CellFormat>;
+  names: NamedRange[];
+};
+
+/**
+ * A single cell edit in the shape the PATCH endpoint expects
+ */
+export type CellChange = {
+  row: number;
+  columnKey: string;
+  value: string | number;
+  formula: string | null;
+  format: CellFormat | null;
+};
+
+/**
+ * Save state shown in the toolbar
+ * - saved: the backend has every local edit
+ * - saving: edits are queued or in flight
+ * - offline: the last save failed and will be retried
+ * - error: the backend rejected the edits and saving has stopped
+ */
+export type SyncStatus = 'saved' | 'saving' | 'offline' | 'error';
+
+/**
+ * Identifies the stored workbook a sync session writes to
+ */
+type SyncSession = {
+  workbookId: string;
+  revision: number;
+  snapshot: WorkbookSnapshot;
+};
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Quiet period after the last edit before changes are sent */
+const DEBOUNCE_MS = 800;
+
+/** First retry delay after a failed save - doubles on each failure */
+const RETRY_BASE_MS = 1000;
+
+/** Upper bound for the retry delay */
+const RETRY_MAX_MS = 30000;
+
+// ============================================================================
+// SNAPSHOT HELPERS
+// ============================================================================
+
+/**
+ * Compare two cell formats, treating unset and empty formats as the same
+ * @param a - First format
+ * @param b - Second format
+ * @returns Whether the formats look the same
+ */
+const sameFormat = (a: CellFormat | null | undefined, b: CellFormat | null | undefined) =>
+  a?.bold === b?.bold &&
+  a?.italic === b?.italic &&
+  a?.alignment === b?.alignment &&
+  a?.backgroundColor === b?.backgroundColor;
+
+/**
+ * Build a workbook snapshot from the Spreadsheet's grid data
+ * Dates are stored as ISO text, which the Spreadsheet parses back into dates on load.
+ * Cells showing a spilled formula result keep their formatting but are stored
+ * empty, since the formula refills them and a stored value would block the spill
+ * @param columns - Column definitions in display order
+ * @param grid - 2D array of cells aligned with the columns
+ * @param names - Named ranges formulas can use
+ * @returns Snapshot in the backend's storage shape
+ */
+export const snapshotFromGrid = (columns: Column[], grid: GridCell[][], names: NamedRange[]): WorkbookSnapshot => {
+  const formulas: Record<string, string> = {};
+  const formats: Record<string, CellFormat> = {};
+  const items = grid.map((row, rowIndex) => {
+    const item: Row = {};
+    columns.forEach((col, colIndex) => {
+      const cell = row[colIndex];
+      const key = `${rowIndex}:${col.key}`;
+      item[col.key] = cell && !cell.spilledFrom ? displayGridValue(cell) : '';
+      if (cell?.formula) {
+        formulas[key] = cell.formula;
+      }
+      if (cell?.format && !sameFormat(cell.format, null)) {
+        formats[key] = cell.format;
+      }
+    });
+    return item;
+  });
+  return { columns, items, formulas, formats, names };
+};
+
+/**
+ * Overwrite cells of a snapshot
+ * @param snapshot - Snapshot to start from
+ * @param cells - Cells with their new contents
+ * @returns A new snapshot with the cells replaced
+ */
+const withCells = (snapshot: WorkbookSnapshot, cells: CellChange[]): WorkbookSnapshot => {
+  const items = [...snapshot.items];
+  const formulas = { ...snapshot.formulas };
+  const formats = { ...snapshot.formats };
+  cells.forEach(({ row, columnKey, value, formula, format }) => {
+    const key = `${row}:${columnKey}`;
+    items[row] = { ...items[row], [columnKey]: value };
+    if (formula) formulas[key] = formula;
+    else delete formulas[key];
+    if (format) formats[key] = format;
+    else delete formats[key];
+  });
+  return { ...snapshot, items, formulas, formats };
+};
+
+/**
+ * Compare two snapshots
+ * Any change to columns, the number of rows or named ranges is structural and
+ * has to be saved as a whole; everything else becomes a list of cell changes.
+ * @param prev - Snapshot the backend already has
+ * @param next - Latest local snapshot
+ * @returns Whether the change is structural, and the changed cells otherwise
+ */
+export const diffSnapshots = (prev: WorkbookSnapshot, next: WorkbookSnapshot) => {
+  const structural =
+    prev.items.length !== next.items.length ||
+    prev.columns.length !== next.columns.length ||
+    prev.columns.some((col, i) => col.key !== next.columns[i].key || col.name !== next.columns[i].name) ||
+    prev.names.length !== next.names.length ||
+    prev.names.some((named, i) => named.name !== next.names[i].name || named.reference !== next.names[i].reference);
+
+  if (structural) {
+    return { structural, changes: [] as CellChange[] };
+  }
+
+  const changes: CellChange[] = [];
+  next.items.forEach((item, row) => {
+    next.columns.forEach(({ key }) => {
+      const cellKey = `${row}:${key}`;
+      const value = item[key] ?? '';
+      const formula = next.formulas[cellKey] ?? null;
+      const format = next.formats[cellKey] ?? null;
+      if (
+        value !== (prev.items[row][key] ?? '') ||
+        formula !== (prev.formulas[cellKey] ?? null) ||
+        !sameFormat(format, prev.formats[cellKey])
+      ) {
+        changes.push({ row, columnKey: key, value, formula, format });
+      }
+    });
+  });
+
+  return { structural, changes };
+};
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * Keep a stored workbook in sync with local edits
+ *
+ * Edits are queued with `queue` and sent after a short debounce. Cell edits
+ * go through the PATCH endpoint with the last known revision; structural
+ * edits replace the workbook with PUT, which the backend only accepts at the
+ * current revision. Failed saves are retried with
+ * exponential backoff and immediately when the browser comes back online.
+ * Cells a teammate changed in the meantime are not overwritten - their
+ * version replaces the local edit, and is returned as `conflicts` for the
+ * grid to show and reported through `message`.
+ *
+ * @param apiUrl - Base URL of the backend API
+ * @returns Current status, an optional user-facing message, the cells last
+ *   taken from a teammate, and the session controls
+ */
+export const useWorkbookSync = (apiUrl: string) => {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<CellChange[]>([]);
+
+  const sessionRef = useRef<Omit<SyncSession, 'snapshot'> | null>(null);
+  /** Snapshot the backend is known to have */
+  const syncedRef = useRef<WorkbookSnapshot | null>(null);
+  /** Latest local snapshot */
+  const latestRef = useRef<WorkbookSnapshot | null>(null);
+  const inFlightRef = useRef(false);
+  const stoppedRef = useRef(false);
+  const retryCountRef = useRef(0);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const flushRef = useRef<() => Promise<void>>(async () => {});
+
+  const schedule = useCallback((delay: number) => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      flushRef.current();
+    }, delay);
+  }, []);
+
+  /**
+   * Send everything that differs between the synced and latest snapshots
+   */
+  const flush = useCallback(async () => {
+    const session = sessionRef.current;
+    const synced = syncedRef.current;
+    const target = latestRef.current;
+    if (!session || !synced || !target || inFlightRef.current || stoppedRef.current) return;
+
+    const { structural, changes } = diffSnapshots(synced, target);
+    if (!structural && changes.length === 0) {
+      setStatus('saved');
+      return;
+    }
+
+    inFlightRef.current = true;
+    setStatus('saving');
+
+    try {
+      const response = structural
+        ? await fetch(`${apiUrl}/api/workbooks/${session.workbookId}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...target, baseRevision: session.revision }),
+          })
+        : await fetch(`${apiUrl}/api/workbooks/${session.workbookId}/cells`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ baseRevision: session.revision, changes }),
+          });
+
+      if (response.status === 409) {
+        const body: { revision: number; conflicts: CellChange[] } = await response.json();
+        session.revision = body.revision;
+
+        if (body.conflicts.length === 0) {
+          stoppedRef.current = true;
+          setStatus('error');
+          setMessage('This workbook was changed by someone else. Reload to continue editing.');
+          return;
+        }
+
+        // Their version of the conflicting cells wins, so the rest of our edits
+        // are re-sent without them and the grid shows what the backend has
+        const theirs = body.conflicts.map(({ row, columnKey, value, formula, format }) => (
+          { row, columnKey, value, formula, format }
+        ));
+        syncedRef.current = withCells(synced, theirs);
+        latestRef.current = withCells(latestRef.current ?? target, theirs);
+        setConflicts(theirs);
+
+        const cells = theirs.map(c => `${c.columnKey} row ${c.row + 1}`).join(', ');
+        setMessage(`Not saved - changed by someone else: ${cells}. Showing their version.`);
+        inFlightRef.current = false;
+        schedule(0);
+        return;
+      }
+
+      if (!response.ok) {
+        if (response.status >= 400 && response.status < 500) {
+          stoppedRef.current = true;
+          setStatus('error');
+          setMessage(`Saving failed (status ${response.status}). Reload to continue editing.`);
+          return;
+        }
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const body: { revision: number } = await response.json();
+      session.revision = body.revision;
+      syncedRef.current = target;
+      retryCountRef.current = 0;
+      inFlightRef.current = false;
+
+      if (latestRef.current !== target) {
+        schedule(DEBOUNCE_MS);
+      } else {
+        setStatus('saved');
+      }
+    } catch (err) {
+      console.error('Error saving workbook:', err);
+      inFlightRef.current = false;
+      setStatus('offline');
+      const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** retryCountRef.current);
+      retryCountRef.current += 1;
+      schedule(delay);
+    } finally {
+      if (stoppedRef.current) inFlightRef.current = false;
+    }
+  }, [apiUrl, schedule]);
+
+  flushRef.current = flush;
+
+  /**
+   * Begin syncing a workbook loaded from the backend
+   * @param session - Workbook id, its revision, and the snapshot as loaded
+   */
+  const start = useCallback((session: SyncSession) => {
+    sessionRef.current = { workbookId: session.workbookId, revision: session.revision };
+    syncedRef.current = session.snapshot;
+    latestRef.current = session.snapshot;
+    stoppedRef.current = false;
+    retryCountRef.current = 0;
+    setStatus('saved');
+    setMessage(null);
+    setConflicts([]);
+  }, []);
+
+  /**
+   * Queue the latest local state for saving
+   * @param snapshot - Current workbook contents
+   */
+  const queue = useCallback((snapshot: WorkbookSnapshot) => {
+    if (!sessionRef.current || stoppedRef.current) return;
+
+    const { structural, changes } = diffSnapshots(latestRef.current ?? snapshot, snapshot);
+    if (!structural && changes.length === 0) return;
+
+    latestRef.current = snapshot;
+    setStatus(current => (current === 'offline' ? current : 'saving'));
+
+    // While offline the retry timer is already running
+    if (retryCountRef.current === 0) {
+      schedule(DEBOUNCE_MS);
+    }
+  }, [schedule]);
+
+  /**
+   * Retry right away when the browser reconnects, and show offline
+   * immediately when it disconnects
+   */
+  useEffect(() => {
+    const handleOnline = () => {
+      retryCountRef.current = 0;
+      schedule(0);
+    };
+    const handleOffline = () => {
+      if (sessionRef.current && !stoppedRef.current) setStatus('offline');
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, [schedule]);
+
+  return { status, message, conflicts, start, queue };
+};
@@ -0,0 +1,84 @@
+import { parseHTMLTable, parseNumberText, parseTSV, readClipboard, toHTMLTable, toTSV } from '../clipboard';
+
+describe('Clipboard', () => {
+  describe('TSV', () => {
+    it('quotes fields with tabs, line breaks and quotes, and reads them back', () => {
+      const rows = [
+        ['Product', '2020'],
+        ['Widget "A"', '100'],
+        ['Two\nlines', 'a\tb'],
+      ];
+      const text = toTSV(rows);
+
+      expect(text).toBe('Product\t2020\n"Widget ""A"""\t100\n"Two\nlines"\t"a\tb"');
+      expect(parseTSV(text)).toEqual(rows);
+    });
+
+    it('reads Windows line breaks, a final line break and empty fields', () => {
+      expect(parseTSV('a\t\tc\r\n\t2\r\n')).toEqual([['a', '', 'c'], ['', '2']]);
+      expect(parseTSV('')).toEqual([]);
+    });
+  });
+
+  describe('HTML tables', () => {
+    it('writes escaped text with inline formatting and reads it back', () => {
+      const html = toHTMLTable([
+        [{ text: 'R&D <core>', format: { bold: true, alignment: 'center' } }, { text: '12' }],
+        [{ text: 'Total', format: { italic: true, backgroundColor: '#fef3c7' } }, { text: '' }],
+      ]);
+
+      expect(html).toContain('<td style="font-weight:bold;text-align:center">R&amp;D &lt;core&gt;</td>');
+      expect(parseHTMLTable(html)).toEqual([
+        [{ text: 'R&D <core>', format: { bold: true, alignment: 'center' } }, { text: '12' }],
+        [{ text: 'Total', format: { italic: true, backgroundColor: 'rgb(254, 243, 199)' } }, { text: '' }],
+      ]);
+    });
+
+    it('reads tables as spreadsheets copy them, with spans, tags and source whitespace', () => {
+      const html = `<google-sheets-html-origin><style>td {}</style><table><tbody>
+        <tr><td colspan="2"><b>Region</b></td><td>Q1</td></tr>
+        <tr>
+          <td>North<br>East</td>
+          <td style="font-weight:700">  1,200 </td>
+          <td><em>n/a</em></td>
+        </tr>
+      </tbody></table></google-sheets-html-origin>`;
+
+      expect(parseHTMLTable(html)).toEqual([
+        [{ text: 'Region', format: { bold: true } }, { text: '' }, { text: 'Q1' }],
+        [{ text: 'North\nEast' }, { text: '1,200', format: { bold: true } }, { text: 'n/a', format: { italic: true } }],
+      ]);
+      expect(parseHTMLTable('<p>No table here</p>')).toBeNull();
+    });
+
+    it('prefers a pasted HTML table and falls back to TSV text', () => {
+      const data = (formats: Record<string, string>) => ({ getData: (format: string) => formats[format] ?? '' });
+
+      expect(readClipboard(data({ 'text/html': '<table><tr><td>html</td></tr></table>', 'text/plain': 'text' })))
+        .toEqual([[{ text: 'html' }]]);
+      expect(readClipboard(data({ 'text/html': '<span>copied text</span>', 'text/plain': 'a\tb' })))
+        .toEqual([[{ text: 'a' }, { text: 'b' }]]);
+      expect(readClipboard(data({}))).toBeNull();
+    });
+  });
+
+  describe('Number text', () => {
+    it.each([
+      ['42', 42],
+      ['-3.5', -3.5],
+      ['1,234.50', 1234.5],
+      ['$1,200', 1200],
+      ['(1,200)', -1200],
+      ['12.5%', 0.125],
+      ['1E+21', 1e21],
+      ['.5', 0.5],
+      [' 7 ', 7],
+    ])('reads %p', (text, expected) => {
+      expect(parseNumberText(text)).toBe(expected);
+    });
+
+    it.each(['', 'n/a', '1,23', '12-3', '$', '()', '2023-01-15'])('rejects %p', text => {
+      expect(parseNumberText(text)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { fillSeries, type FillCell } from '../fill';
+import { parseDateText, formatDateSerial } from '../formula';
+
+const values = (cells: FillCell[]) => cells.map(cell => cell.value);
+const dates = (...texts: string[]): FillCell[] => texts.map(text => ({ value: parseDateText(text)!, type: 'date' }));
+
+describe('Autofill', () => {
+  describe('numbers', () => {
+    it('extends evenly spaced numbers and years', () => {
+      expect(values(fillSeries([{ value: 2020 }, { value: 2021 }], 2, 'right'))).toEqual([2022, 2023]);
+      expect(values(fillSeries([{ value: 0.1 }, { value: 0.2 }], 2, 'down'))).toEqual([0.3, 0.4]);
+    });
+
+    it('follows the trend of unevenly spaced numbers', () => {
+      // Least-squares line through (0, 1), (1, 2), (2, 4)
+      const [next] = fillSeries([{ value: 1 }, { value: 2 }, { value: 4 }], 1, 'down');
+      expect(next.value).toBeCloseTo(16 / 3);
+    });
+
+    it('repeats a single number, text and mixed cells', () => {
+      expect(values(fillSeries([{ value: 7 }], 2, 'down'))).toEqual([7, 7]);
+      expect(values(fillSeries([{ value: 'Q1' }, { value: 10 }], 3, 'down'))).toEqual(['Q1', 10, 'Q1']);
+    });
+  });
+
+  describe('dates', () => {
+    const texts = (cells: FillCell[]) => cells.map(cell => formatDateSerial(cell.value as number));
+
+    it('extends a single date a day at a time, and others by their step', () => {
+      expect(texts(fillSeries(dates('2024-02-28'), 2, 'down'))).toEqual(['2024-02-29', '2024-03-01']);
+      expect(texts(fillSeries(dates('2024-01-01', '2024-01-08'), 1, 'down'))).toEqual(['2024-01-15']);
+      expect(fillSeries(dates('2024-01-01'), 1, 'down')[0].type).toBe('date');
+    });
+
+    it('extends dates on the same day of the month by months', () => {
+      expect(texts(fillSeries(dates('2024-01-15', '2024-04-15'), 2, 'down'))).toEqual(['2024-07-15', '2024-10-15']);
+      expect(texts(fillSeries(dates('2022-12-31', '2023-12-31'), 1, 'right'))).toEqual(['2024-12-31']);
+    });
+  });
+
+  describe('formulas', () => {
+    it('repeats formulas with their relative references moved along', () => {
+      expect(fillSeries([{ value: 3, formula: '=B2*$C$1' }], 2, 'down')).toEqual([
+        { value: '', formula: '=B3*$C$1' },
+        { value: '', formula: '=B4*$C$1' },
+      ]);
+      expect(fillSeries([{ value: 1, formula: '=SUM(B2:B9)' }, { value: 'x' }], 2, 'right')).toEqual([
+        { value: '', formula: '=SUM(D2:D9)' },
+        { value: 'x', type: undefined },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Formatting carried through the clipboard, in the spreadsheet's cell format shape
+ * @property bold - Whether text is bold
+ * @property italic - Whether text is italic
+ * @property alignment - Text alignment within the cell
+ * @property backgroundColor - Background color of the cell
+ */
+export type ClipboardFormat = {
+  bold?: boolean;
+  italic?: boolean;
+  alignment?: 'left' | 'center' | 'right';
+  backgroundColor?: string;
+};
+
+/**
+ * One cell of copied or pasted data
+ * @property text - The cell's text as displayed
+ * @property format - Its formatting, when the clipboard carried any
+ */
+export type ClipboardCell = { text: string; format?: ClipboardFormat };
+
+/**
+ * The part of a DataTransfer the clipboard functions read
+ */
+type ClipboardSource = { getData: (format: string) => string };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Number text as spreadsheets copy it: optional sign and currency symbol,
+ * thousands separators, decimals, exponent and percent (e.g. "$1,234.50", "-3.5%", "1E+21")
+ */
+const NUMBER_TEXT_PATTERN = /^([-+]?)[$€£]?((?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d*)?|\.\d+)([eE][-+]?\d+)?(%?)$/;
+
+/** Characters that make a TSV field need quotes */
+const TSV_SPECIAL_PATTERN = /[\t\n\r"]/;
+
+// ============================================================================
+// NUMBERS
+// ============================================================================
+
+/**
+ * Read number text copied from a spreadsheet
+ * Accounting negatives in parentheses ("(1,200)") count as negative
+ * @param text - Text to read
+ * @returns The number, or null if the text is not a number
+ */
+export const parseNumberText = (text: string): number | null => {
+  let source = text.trim();
+  const parenthesized = source.length > 2 && source.startsWith('(') && source.endsWith(')');
+  if (parenthesized) source = source.slice(1, -1);
+
+  const match = NUMBER_TEXT_PATTERN.exec(source);
+  if (!match) return null;
+  const [, sign, digits, exponent = '', percent] = match;
+  const magnitude = Number(digits.replace(/,/g, '') + exponent) / (percent ? 100 : 1);
+  return sign === '-' || parenthesized ? -magnitude : magnitude;
+};
+
+// ============================================================================
+// WRITING
+// ============================================================================
+
+/**
+ * Write rows of text as tab-separated values, the plain-text format Excel and
+ * Google Sheets copy and paste
+ * Fields with tabs, line breaks or quotes are quoted, doubling inner quotes
+ * @param rows - Text of each cell, by row
+ * @returns TSV text, one line per row
+ */
+export const toTSV = (rows: string[][]): string =>
+  rows
+    .map(row => row.map(text => (TSV_SPECIAL_PATTERN.test(text) ? `"${text.replace(/"/g, '""')}"` : text)).join('\t'))
+    .join('\n');
+
+/**
+ * Escape text for HTML
+ * @param text - Text to escape
+ * @returns Text safe to place in an element
+ */
+const escapeHTML = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Write rows of cells as an HTML table, the rich format spreadsheets paste with formatting
+ * @param rows - Cells by row
+ * @returns HTML for a table with inline styles
+ */
+export const toHTMLTable = (rows: ClipboardCell[][]): string => {
+  const renderCell = ({ text, format = {} }: ClipboardCell) => {
+    const styles = [
+      format.bold && 'font-weight:bold',
+      format.italic && 'font-style:italic',
+      format.alignment && `text-align:${format.alignment}`,
+      format.backgroundColor && `background-color:${format.backgroundColor}`
+    ].filter(Boolean);
+    const style = styles.length > 0 ? ` style="${escapeHTML(styles.join(';'))}"` : '';
+    return `<td${style}>${escapeHTML(text).replace(/\n/g, '<br>')}</td>`;
+  };
+  return `<table>${rows.map(row => `<tr>${row.map(renderCell).join('')}</tr>`).join('')}</table>`;
+};
+
+// ============================================================================
+// READING
+// ============================================================================
+
+/**
+ * Read tab-separated values
+ * Quoted fields may contain tabs, line breaks and doubled quotes; a final line
+ * break does not start another row
+ * @param text - TSV text, with "\n" or "\r\n" line breaks
+ * @returns Text of each cell, by row (rows may differ in length)
+ */
+export const parseTSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"' && field === '') {
+      // Quoted field: runs to the next quote that is not doubled
+      let end = i + 1;
+      while (end < text.length) {
+        if (text[end] === '"' && text[end + 1] === '"') {
+          field += '"';
+          end += 2;
+        } else if (text[end] === '"') {
+          break;
+        } else {
+          field += text[end++];
+        }
+      }
+      i = end + 1;
+    } else if (char === '\t') {
+      row.push(field);
+      field = '';
+      i++;
+    } else if (char === '\n' || char === '\r') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      i += char === '\r' && text[i + 1] === '\n' ? 2 : 1;
+    } else {
+      field += char;
+      i++;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Read the formatting of a pasted HTML table cell from its inline style and tags
+ * @param cell - Table cell element
+ * @returns The formatting found, or undefined if there is none
+ */
+const readCellFormat = (cell: HTMLElement): ClipboardFormat | undefined => {
+  const { style } = cell;
+  const weight = style.fontWeight;
+  const format: ClipboardFormat = {};
+  if (weight === 'bold' || Number(weight) >= 600 || cell.querySelector('b, strong')) format.bold = true;
+  if (style.fontStyle === 'italic' || cell.querySelector('i, em')) format.italic = true;
+  if (style.textAlign === 'left' || style.textAlign === 'center' || style.textAlign === 'right') {
+    format.alignment = style.textAlign;
+  }
+  if (style.backgroundColor && style.backgroundColor !== 'transparent') {
+    format.backgroundColor = style.backgroundColor;
+  }
+  return Object.keys(format).length > 0 ? format : undefined;
+};
+
+/**
+ * Read the first table in pasted HTML, as Excel and Google Sheets put on the clipboard
+ * Cells spanning several columns are followed by empty cells; line breaks
+ * inside a cell are kept, other whitespace is collapsed
+ * @param html - Clipboard HTML
+ * @returns Cells by row, or null if the HTML has no table
+ */
+export const parseHTMLTable = (html: string): ClipboardCell[][] | null => {
+  const table = new DOMParser().parseFromString(html, 'text/html').querySelector('table');
+  if (!table) return null;
+
+  return Array.from(table.querySelectorAll('tr')).map(tr =>
+    Array.from(tr.querySelectorAll<HTMLElement>('td, th')).flatMap(cell => {
+      cell.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+      const text = (cell.textContent ?? '')
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .join('\n')
+        .trim();
+      const format = readCellFormat(cell);
+      const span = Math.max(1, Number(cell.getAttribute('colspan')) || 1);
+      return [format ? { text, format } : { text }, ...Array.from({ length: span - 1 }, () => ({ text: '' }))];
+    })
+  );
+};
+
+/**
+ * Read pasted cells, preferring an HTML table (which carries formatting) over plain TSV
+ * @param data - Clipboard data of a paste event
+ * @returns Cells by row, or null if nothing was pasted
+ */
+export const readClipboard = (data: ClipboardSource): ClipboardCell[][] | null => {
+  const html = data.getData('text/html');
+  const fromHTML = html ? parseHTMLTable(html) : null;
+  if (fromHTML && fromHTML.length > 0) return fromHTML;
+
+  const text = data.getData('text/plain');
+  if (!text) return null;
+  return parseTSV(text).map(row => row.map(field => ({ text: field })));
+};
@@ -0,0 +1,117 @@
+import { partsFromSerial, serialFromParts, shiftFormula } from './formula';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * The contents of a cell, as autofill reads and writes them
+ * @property value - Cell value (dates are serial numbers)
+ * @property type - "date" when the value is a date serial number
+ * @property formula - Formula text, if the cell has one
+ */
+export type FillCell = { value: string | number; type?: 'date'; formula?: string };
+
+/**
+ * Direction a fill extends its source cells in
+ * - down: the source is a column of cells, filled into the rows below
+ * - right: the source is a row of cells, filled into the columns to the right
+ */
+export type FillDirection = 'down' | 'right';
+
+// ============================================================================
+// SERIES
+// ============================================================================
+
+/**
+ * Drop the floating-point noise a trend picks up (e.g. 0.30000000000000004)
+ * @param value - Computed value
+ * @returns The value to 15 significant digits
+ */
+const roundTrend = (value: number): number => Number(value.toPrecision(15));
+
+/**
+ * Continue numbers along their straight-line trend, as Excel's autofill does
+ * Evenly spaced numbers (2020, 2021) continue with the same step; others follow
+ * their least-squares line. A single number continues in steps of `singleStep`
+ * @param values - Numbers to continue
+ * @param count - How many to add
+ * @param singleStep - Step after a single number
+ * @returns The next `count` numbers
+ */
+const extendTrend = (values: number[], count: number, singleStep: number): number[] => {
+  const n = values.length;
+  let slope = singleStep;
+  let intercept = values[0];
+  if (n > 1) {
+    const meanX = (n - 1) / 2;
+    const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+    const covariance = values.reduce((sum, value, x) => sum + (x - meanX) * (value - meanY), 0);
+    const variance = values.reduce((sum, _, x) => sum + (x - meanX) ** 2, 0);
+    slope = covariance / variance;
+    intercept = meanY - slope * meanX;
+  }
+  return Array.from({ length: count }, (_, i) => roundTrend(intercept + slope * (n + i)));
+};
+
+/**
+ * Continue dates on the same day of the month that are a whole number of months
+ * apart (e.g. month ends, quarter starts), keeping the day of the month
+ * @param serials - Dates to continue, as serial numbers
+ * @param count - How many to add
+ * @returns The next `count` dates, or null if the dates are not a monthly series
+ */
+const extendMonths = (serials: number[], count: number): number[] | null => {
+  if (serials.length < 2) return null;
+  const parts = serials.map(partsFromSerial);
+  const months = parts.map(({ year, month }) => year * 12 + month - 1);
+  const step = months[1] - months[0];
+  const isMonthly = step !== 0
+    && parts.every(({ day }) => day === parts[0].day)
+    && months.every((month, i) => i === 0 || month - months[i - 1] === step);
+  if (!isMonthly) return null;
+
+  const last = months[months.length - 1];
+  const { day, hours, minutes, seconds } = parts[0];
+  return Array.from({ length: count }, (_, i) => {
+    const month = last + step * (i + 1);
+    return serialFromParts(Math.floor(month / 12), (month % 12) + 1, day, hours, minutes, seconds);
+  });
+};
+
+/**
+ * Work out the cells an autofill adds after its source cells
+ *
+ * - Numbers extend their series (2020, 2021 → 2022, 2023); a single number repeats
+ * - Dates extend by the same number of days, or of months when they fall on the
+ *   same day of the month; a single date extends a day at a time
+ * - Anything else, including formulas, repeats the source cells in order;
+ *   formulas keep their relative references pointing the same distance away
+ *
+ * @param source - Source cells, in fill order
+ * @param count - How many cells to fill
+ * @param direction - Which way the fill goes, to adjust formula references along
+ * @returns The filled cells, in fill order
+ */
+export const fillSeries = (source: FillCell[], count: number, direction: FillDirection): FillCell[] => {
+  const isNumber = (cell: FillCell) => typeof cell.value === 'number' && !cell.formula;
+  const isSeries = source.every(cell => isNumber(cell) && cell.type === source[0].type);
+
+  if (isSeries && source[0].type === 'date') {
+    const serials = source.map(cell => cell.value as number);
+    const dates = extendMonths(serials, count) ?? extendTrend(serials, count, 1);
+    return dates.map(value => ({ value, type: 'date' }));
+  }
+  if (isSeries && source.length > 1) {
+    return extendTrend(source.map(cell => cell.value as number), count, 0).map(value => ({ value }));
+  }
+
+  return Array.from({ length: count }, (_, i) => {
+    const cell = source[i % source.length];
+    if (!cell.formula) return { value: cell.value, type: cell.type };
+    // The filled cell is this far along from the source cell it repeats
+    const distance = source.length + i - (i % source.length);
+    const formula = direction === 'down' ? shiftFormula(cell.formula, distance, 0) : shiftFormula(cell.formula, 0, distance);
+    return { value: '', formula };
+  });
+};
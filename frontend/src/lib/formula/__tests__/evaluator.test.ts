@@ -0,0 +1,687 @@
+import {
+  evaluateArrayFormulaNode,
+  evaluateFormula,
+  evaluateFormulaSteps,
+  parseCriterion,
+  parseFormula,
+  CellValue,
+  CellAddress,
+  DateValue,
+  FormulaError,
+  FormulaFunction,
+  createNameResolver,
+  findCompletions,
+  getSignatureHelp,
+  registerFunction,
+  validateName
+} from '..';
+
+// Header row (Excel row 1) followed by data rows starting at Excel row 2
+const header: CellValue[] = ['Product', '2020', '2021', '2022'];
+const rows: CellValue[][] = [
+  ['Widget A', 100, 120, 150],
+  ['Widget B', 200, 180, 220],
+  ['Widget C', 50, 75, 90],
+  ['Widget D', null, 'n/a', 0],
+  ['Broken', new FormulaError('#DIV/0!', 'Division by zero', { row: 4, col: 1 }), 5, null],
+];
+
+const context = {
+  getCellValue: ({ row, col }: CellAddress): CellValue =>
+    row === -1 ? header[col] ?? null : rows[row]?.[col] ?? null,
+};
+
+// Error values are compared by their code
+const evaluate = (formula: string) => {
+  const result = evaluateFormula(formula, context);
+  return result instanceof FormulaError ? result.code : result;
+};
+
+describe('Formula evaluator', () => {
+  describe('Arithmetic', () => {
+    it.each([
+      ['1+2*3', 7],
+      ['(1+2)*3', 9],
+      ['2^3^2', 64],
+      ['-2^2', 4],
+      ['-B2+10', -90],
+      ['50%', 0.5],
+      ['B2/C2*100', (100 / 120) * 100],
+      ['B2+C2-D2', 70],
+    ])('evaluates %s', (formula, expected) => {
+      expect(evaluate(formula)).toBeCloseTo(expected as number);
+    });
+
+    it('treats blank cells as zero', () => {
+      expect(evaluate('B5+1')).toBe(1);
+      expect(evaluate('B5')).toBe(0);
+    });
+
+    it('fails on non-numeric text', () => {
+      expect(evaluate('C5*2')).toBe('#VALUE!');
+    });
+
+    it('fails on division by zero instead of returning 0', () => {
+      expect(evaluate('B2/D5')).toBe('#DIV/0!');
+    });
+  });
+
+  describe('Functions', () => {
+    it('combines functions with operators', () => {
+      expect(evaluate('SUM(B2:B4)*2')).toBe(700);
+      expect(evaluate('MAX(B2,C2)-MIN(D2:D4)')).toBe(30);
+    });
+
+    it('supports nested calls', () => {
+      expect(evaluate('SUM(MAX(B2:D2), MIN(B3:D3))')).toBe(330);
+    });
+
+    it('ignores text and blanks inside ranges', () => {
+      expect(evaluate('SUM(B2:C5)')).toBe(725);
+      expect(evaluate('COUNT(A2:D5)')).toBe(10);
+      expect(evaluate('AVERAGE(B2:B5)')).toBeCloseTo(350 / 3);
+    });
+
+    it('fails on averaging no numbers instead of returning 0', () => {
+      expect(evaluate('AVERAGE(B5:B5)')).toBe('#DIV/0!');
+      expect(evaluate('AVERAGE(A2:A5)')).toBe('#DIV/0!');
+    });
+
+    it('reads header names from row 1', () => {
+      expect(evaluate('A1&" total"')).toBe('Product total');
+    });
+
+    it('reports unknown functions and wrong argument counts', () => {
+      expect(evaluate('INVALID_FORMULA()')).toBe('#NAME?');
+      expect(evaluate('SUM()')).toBe('#VALUE!');
+    });
+  });
+
+  describe('Errors', () => {
+    it.each([
+      ['B6+1', '#DIV/0!'],
+      ['-B6', '#DIV/0!'],
+      ['B6&"x"', '#DIV/0!'],
+      ['B6>0', '#DIV/0!'],
+      ['SUM(B2:B6)', '#DIV/0!'],
+      ['MAX(1, B6)', '#DIV/0!'],
+      ['SUM(1/0, B6)', '#DIV/0!'],
+      ['SUM(C5, 1)', '#VALUE!'],
+    ])('propagates through %s', (formula, expected) => {
+      expect(evaluate(formula)).toBe(expected);
+    });
+
+    it('keeps the cell an error started in', () => {
+      const result = evaluateFormula('B6*2', context) as FormulaError;
+      expect(result.message).toBe('Division by zero');
+      expect(result.source).toEqual({ row: 4, col: 1 });
+    });
+
+    it('evaluates #REF! left by a deleted reference', () => {
+      expect(evaluate('#REF!+1')).toBe('#REF!');
+      expect(evaluate('IFERROR(#REF!, 0)')).toBe(0);
+    });
+
+    it('skips errors in COUNT', () => {
+      expect(evaluate('COUNT(B2:D6)')).toBe(11);
+    });
+
+    it.each([
+      ['ISERROR(B6)', true],
+      ['ISERROR(1/0)', true],
+      ['ISERROR(B2)', false],
+      ['IFERROR(B2/D5, -1)', -1],
+      ['IFERROR(B6*2, "n/a")', 'n/a'],
+      ['IFERROR(B2*2, 0)', 200],
+      ['IFERROR(NOPE(), 1)', 1],
+    ])('evaluates %s', (formula, expected) => {
+      expect(evaluate(formula)).toBe(expected);
+    });
+  });
+
+  describe('Conditional aggregates', () => {
+    it.each([
+      ['SUMIF(A2:A5, "Widget*", C2:C5)', 375],
+      ['SUMIF(B2:B4, ">100")', 200],
+      ['SUMIF(A2:A6, "*b", D2:D6)', 220],
+      ['SUMIFS(D2:D5, A2:A5, "<>Widget B", B2:B5, ">0")', 240],
+      ['COUNTIF(D2:D6, 0)', 1],
+      ['COUNTIF(B2:B6, "")', 1],
+      ['COUNTIF(A2:A6, "<>Broken")', 4],
+      ['COUNTIF(A2:A6, "widget ?")', 4],
+      ['COUNTIF(B2:B6, ">=100")', 2],
+      ['COUNTIFS(A2:A5, "Widget*", D2:D5, ">100")', 2],
+      ['AVERAGEIF(B2:B4, "<>200")', 75],
+      ['AVERAGEIFS(C2:C4, B2:B4, ">0", D2:D4, "<200")', 97.5],
+    ])('evaluates %s', (formula, expected) => {
+      expect(evaluate(formula)).toBe(expected);
+    });
+
+    it.each([
+      ['AVERAGEIF(B2:B4, ">1000")', '#DIV/0!'],
+      ['SUMIF(A2:A6, "Broken", B2:B6)', '#DIV/0!'],
+      ['SUMIFS(D2:D5, A2:A4, "x")', '#VALUE!'],
+      ['COUNTIFS(A2:A5, "x", B2:B5)', '#VALUE!'],
+    ])('fails in %s', (formula, expected) => {
+      expect(evaluate(formula)).toBe(expected);
+    });
+
+    it('ignores errors outside the matching cells', () => {
+      expect(evaluate('SUMIF(A2:A6, "Widget*", B2:B6)')).toBe(350);
+    });
+
+    it('escapes wildcards with ~', () => {
+      const matches = parseCriterion('5~*');
+      expect(matches('5*')).toBe(true);
+      expect(matches('50')).toBe(false);
+    });
+  });
+
+  describe('Lookup functions', () => {
+    it.each([
+      ['VLOOKUP("Widget B", A2:D5, 3, FALSE)', 180],
+      ['VLOOKUP("widget c", A2:D5, 4, FALSE)', 90],
+      ['VLOOKUP("*D", A2:D5, 2, FALSE)', 0],
+      ['VLOOKUP(175, C2:D4, 2)', 150],
+      ['VLOOKUP(180, C2:D4, 2, TRUE)', 220],
+      ['HLOOKUP("2021", A1:D4, 3, FALSE)', 180],
+      ['INDEX(A2:D5, 2, 3)', 180],
+      ['INDEX(B2:B4, 3)', 50],
+      ['INDEX(A2:D2, 2)', 100],
+      ['SUM(INDEX(B2:D4, 0, 2))', 375],
+      ['SUM(INDEX(B2:D4, 2, 0))', 600],
+      ['MATCH("Widget C", A2:A6, 0)', 3],
+      ['MATCH(160, D2:D4)', 1],
+      ['MATCH(100, B2:D2, 0)', 1],
+      ['INDEX(D2:D5, MATCH("Widget B", A2:A5, 0))', 220],
+      ['XLOOKUP("Widget C", A2:A5, D2:D5)', 90],
+      ['XLOOKUP("Nope", A2:A5, D2:D5, "none")', 'none'],
+      ['XLOOKUP(190, C2:C4, A2:A4, "none", 1)', 'none'],
+      ['XLOOKUP(170, C2:C4, A2:A4, "none", 1)', 'Widget B'],
+      ['XLOOKUP(170, C2:C4, A2:A4, "none", -1)', 'Widget A'],
+      ['XLOOKUP("2022", B1:D1, B3:D3)', 220],
+      ['SUM(XLOOKUP("Widget B", A2:A5, B2:D5))', 600],
+      ['XLOOKUP("W*", A2:A5, A2:A5, "none", 2, -1)', 'Widget D'],
+      ['IFERROR(VLOOKUP("Widget Z", A2:D5, 2, FALSE), "missing")', 'missing'],
+    ])('evaluates %s', (formula, expected) => {
+      expect(evaluate(formula)).toBe(expected);
+    });
+
+    it.each([
+      ['VLOOKUP("Widget Z", A2:D5, 2, FALSE)', '#N/A'],
+      ['VLOOKUP("Widget B", A2:D5, 5, FALSE)', '#REF!'],
+      ['VLOOKUP(10, C2:D4, 2)', '#N/A'],
+      ['INDEX(B2:D4, 4, 1)', '#REF!'],
+      ['MATCH("x", A2:A6, 0)', '#N/A'],
+      ['MATCH(1, B2:C3)', '#VALUE!'],
+      ['XLOOKUP("Nope", A2:A5, D2:D5)', '#N/A'],
+      ['XLOOKUP("Widget A", A2:A5, D2:D4)', '#VALUE!'],
+    ])('fails in %s', (formula, expected) => {
+      expect(evaluate(formula)).toBe(expected);
+    });
+  });
+
+  describe('Financial functions', () => {
+    // Column A holds cash flows, column B their dates as serial numbers (A1:B5)
+    const cashFlows: CellValue[][] = [
+      [-10000, 39448],
+      [2750, 39508],
+      [4250, 39751],
+      [3250, 39859],
+      [2750, 39904],
+    ];
+    const finance = (formula: string) => {
+      const result = evaluateFormula(formula, {
+        getCellValue: ({ row, col }: CellAddress) => cashFlows[row + 1]?.[col] ?? null,
+      });
+      return result instanceof FormulaError ? result.code : result;
+    };
+
+    it.each([
+      ['NPV(0.1, -10000, 3000, 4200, 6800)', 1188.44],
+      ['XNPV(0.09, A1:A5, B1:B5)', 2086.65],
+      ['IRR(A1:A5)', 0.1154],
+      ['IRR(A1:A5, -0.5)', 0.1154],
+      ['PMT(0.08/12, 10, 10000)', -1037.03],
+      ['PMT(0, 10, 1000)', -100],
+      ['FV(0.06/12, 10, -200, -500, 1)', 2581.40],
+      ['PV(0.08/12, 240, 500)', -59777.15],
+      ['RATE(48, -200, 8000)', 0.0077],
+      ['RRI(3, 100, 133.1)', 0.1],
+    ])('evaluates %s', (formula, expected) => {
+      const digits = Math.abs(expected) < 1 ? 4 : 2;
+      expect(finance(formula)).toBeCloseTo(expected, digits);
+    });
+
+    it('computes CAGR across a row, one period per cell', () => {
+      expect(evaluate('CAGR(B2:D2)')).toBeCloseTo(Math.sqrt(1.5) - 1);
+      expect(evaluate('CAGR(B2:D2)')).toBeCloseTo(evaluate('RRI(2, B2, D2)') as number);
+    });
+
+    it.each([
+      ['IRR(1, 2, 3)', '#VALUE!'],
+      ['IRR(B2:D2)', '#NUM!'],
+      ['RATE(12, 100, 1000)', '#NUM!'],
+      ['RRI(0, 100, 200)', '#NUM!'],
+      ['CAGR(B5:C5)', '#NUM!'],
+      ['CAGR(B2:B6)', '#DIV/0!'],
+      ['PMT(0, 0, 1000)', '#NUM!'],
+    ])('fails in %s', (formula, expected) => {
+      expect(evaluate(formula)).toBe(expected);
+    });
+  });
+
+  describe('Statistical functions', () => {
+    it.each([
+      ['MEDIAN(B2:D4)', 120],
+      ['MEDIAN(1, 2, 3, 4)', 2.5],
+      ['MODE(1, 3, 2, 3, 2)', 3],
+      ['VAR(2, 4, 4, 4, 5, 5, 7, 9)', 32 / 7],
+      ['VAR.P(2, 4, 4, 4, 5, 5, 7, 9)', 4],
+      ['STDEV.P(2, 4, 4, 4, 5, 5, 7, 9)', 2],
+      ['STDEV(B2:B4)', Math.sqrt(17500 / 3)],
+      ['PERCENTILE(D2:D5, 0.25)', 67.5],
+      ['QUARTILE(D2:D5, 2)', 120],
+      ['QUARTILE.EXC(D2:D5, 1)', 22.5],
+      ['CORREL(B2:B4, C2:C4)', 8000 / Math.sqrt(11666.666666666666 * 5550)],
+      ['RANK(150, D2:D5)', 2],
+      ['RANK(150, D2:D5, 1)', 3],
+      ['RANK(D3, B2:D4)', 1],
+    ])('evaluates %s', (formula, expected) => {
+      expect(evaluate(formula)).toBeCloseTo(expected);
+    });
+
+    it.each([
+      ['MODE(B2:B4)', '#N/A'],
+      ['MEDIAN(A2:A5)', '#NUM!'],
+      ['STDEV(1)', '#DIV/0!'],
+      ['PERCENTILE(D2:D5, 1.5)', '#NUM!'],
+      ['PERCENTILE.EXC(D2:D5, 0.1)', '#NUM!'],
+      ['CORREL(B2:B4, C2:C3)', '#N/A'],
+      ['RANK(999, B2:B4)', '#N/A'],
+      ['STDEV(B2:B6)', '#DIV/0!'],
+    ])('fails in %s', (formula, expected) => {
+      expect(evaluate(formula)).toBe(expected);
+    });
+
+    it('ranks ties the same, or by their average rank with RANK.AVG', () => {
+      const scores: CellValue[] = [10, 20, 20, 30];
+      const rankOf = (formula: string) => evaluateFormula(formula, {
+        getCellValue: ({ row, col }: CellAddress) => (col === 0 ? scores[row + 1] ?? null : null),
+      });
+
+      expect(rankOf('RANK(20, A1:A4)')).toBe(2);
+      expect(rankOf('RANK.EQ(30, A1:A4)')).toBe(1);
+      expect(rankOf('RANK.AVG(20, A1:A4)')).toBe(2.5);
+      expect(rankOf('RANK.AVG(20, A1:A4, 1)')).toBe(2.5);
+      expect(rankOf('RANK(10, A1:A4, 1)')).toBe(1);
+    });
+  });
+
+  describe('Date functions', () => {
+    // A2 is a date cell (2023-01-15), B2 a later one (2024-03-31)
+    const dateContext = {
+      getCellValue: ({ row, col }: CellAddress): CellValue =>
+        row === 0 ? [new DateValue(44941), new DateValue(45382)][col] ?? null : null,
+    };
+    const evaluateDate = (formula: string) => {
+      const result = evaluateFormula(formula, dateContext);
+      if (result instanceof FormulaError) return result.code;
+      return result instanceof DateValue ? `date ${result}` : result;
+    };
+
+    it.each([
+      ['DATE(2023, 1, 15)', 'date 2023-01-15'],
+      ['DATE(2023, 14, 1)', 'date 2024-02-01'],
+      ['DATE(23, 1, 1)', 'date 1923-01-01'],
+      ['DATEVALUE("1/15/2023")', 'date 2023-01-15'],
+      ['YEAR(A2)', 2023],
+      ['MONTH(B2)', 3],
+      ['DAY("2023-01-15")', 15],
+      ['EDATE(B2, -1)', 'date 2024-02-29'],
+      ['EOMONTH(A2, 1)', 'date 2023-02-28'],
+      ['DATEDIF(A2, B2, "Y")', 1],
+      ['DATEDIF(A2, B2, "M")', 14],
+      ['DATEDIF(A2, B2, "D")', 441],
+      ['DATEDIF(A2, B2, "MD")', 16],
+      ['DATEDIF(A2, B2, "YM")', 2],
+      ['DATEDIF(A2, B2, "YD")', 76],
+      ['A2+30', 'date 2023-02-14'],
+      ['B2-7', 'date 2024-03-24'],
+      ['B2-A2', 441],
+      ['B2>A2', true],
+      ['A2=DATE(2023, 1, 15)', true],
+      ['A2&""', '2023-01-15'],
+    ])('evaluates %s', (formula, expected) => {
+      expect(evaluateDate(formula)).toBe(expected);
+    });
+
+    it.each([
+      ['DATE(10000, 1, 1)', '#NUM!'],
+      ['DATEVALUE("2023-02-30")', '#VALUE!'],
+      ['DATEDIF(B2, A2, "D")', '#NUM!'],
+      ['DATEDIF(A2, B2, "W")', '#NUM!'],
+      ['YEAR(-1)', '#NUM!'],
+      ['MONTH("soon")', '#VALUE!'],
+    ])('fails in %s', (formula, expected) => {
+      expect(evaluateDate(formula)).toBe(expected);
+    });
+
+    it('returns today without a time and now with one', () => {
+      const today = evaluateFormula('TODAY()', dateContext) as DateValue;
+      const now = evaluateFormula('NOW()', dateContext) as DateValue;
+
+      expect(Number.isInteger(today.serial)).toBe(true);
+      expect(now.serial - today.serial).toBeGreaterThanOrEqual(0);
+      expect(now.serial - today.serial).toBeLessThan(1);
+    });
+  });
+
+  describe('Text functions', () => {
+    it.each([
+      ['LEFT(A2, 6)', 'Widget'],
+      ['LEFT(A2)', 'W'],
+      ['RIGHT(A2, 1)', 'A'],
+      ['MID(A2, 3, 4)', 'dget'],
+      ['LEN(A2)', 8],
+      ['LEN(B2)', 3],
+      ['TRIM("  a   b  ")', 'a b'],
+      ['UPPER(A2)', 'WIDGET A'],
+      ['LOWER("ABC")', 'abc'],
+      ['CONCAT(A2, " ", B2:D2)', 'Widget A 100120150'],
+      ['SUBSTITUTE(A2, "Widget", "Gadget")', 'Gadget A'],
+      ['SUBSTITUTE("a-b-c", "-", "+", 2)', 'a-b+c'],
+      ['TEXT(1234.5, "#,##0.00")', '1,234.50'],
+      ['TEXT(0.256, "0.0%")', '25.6%'],
+      ['TEXT(B2, "$0")', '$100'],
+      ['TEXT(7, "000")', '007'],
+      ['TEXT(1.5, "0.##")', '1.5'],
+      ['TEXT(DATE(2023, 1, 5), "mmm d, yyyy")', 'Jan 5, 2023'],
+      ['TEXT(DATE(2023, 1, 5), "dddd dd/mm/yy")', 'Thursday 05/01/23'],
+      ['TEXT(DATE(2023, 1, 5) + 0.6, "h:mm AM/PM")', '2:24 PM'],
+      ['TEXT("n/a", "0.00")', 'n/a'],
+    ])('evaluates %s', (formula, expected) => {
+      expect(evaluate(formula)).toBe(expected);
+    });
+
+    it('splits text into one row, converting numbers', () => {
+      expect(evaluate('INDEX(SPLIT("a,b;;3", ",;"), 1, 3)')).toBe(3);
+      expect(evaluate('COUNT(SPLIT("1 2 3", " "))')).toBe(3);
+      expect(evaluate('INDEX(SPLIT("a, b", ", ", FALSE), 1, 2)')).toBe('b');
+      expect(evaluate('INDEX(SPLIT("a,,b", ",", TRUE, FALSE), 1, 3)')).toBe('b');
+    });
+
+    it.each([
+      ['LEFT(A2, -1)', '#VALUE!'],
+      ['MID(A2, 0, 2)', '#VALUE!'],
+      ['SUBSTITUTE(A2, "W", "V", 0)', '#VALUE!'],
+      ['SPLIT(A2, "")', '#VALUE!'],
+      ['TEXT(B2:B3, "0")', '#VALUE!'],
+      ['UPPER(B6)', '#DIV/0!'],
+    ])('fails in %s', (formula, expected) => {
+      expect(evaluate(formula)).toBe(expected);
+    });
+  });
+
+  describe('Array formulas', () => {
+    // Whole results, with error values compared by their code
+    const evaluateArray = (formula: string) => {
+      const result = evaluateArrayFormulaNode(parseFormula(formula), context);
+      const code = (value: CellValue) => (value instanceof FormulaError ? value.code : value);
+      return Array.isArray(result) ? result.map(row => row.map(code)) : code(result);
+    };
+
+    it('applies operators to every cell of a range', () => {
+      expect(evaluateArray('B2:B4*2')).toEqual([[200], [400], [100]]);
+      expect(evaluateArray('B2:B4>C2:C4')).toEqual([[false], [true], [false]]);
+      expect(evaluateArray('-B2:D2')).toEqual([[-100, -120, -150]]);
+      expect(evaluateArray('A2:A3&": "&B2:B3')).toEqual([['Widget A: 100'], ['Widget B: 200']]);
+      expect(evaluate('SUM(B2:B4*C2:C4)')).toBe(100 * 120 + 200 * 180 + 50 * 75);
+    });
+
+    it('repeats a row or column to match the other operand', () => {
+      expect(evaluateArray('B2:B3+C2:D2')).toEqual([[220, 250], [320, 350]]);
+    });
+
+    it('fails cell by cell', () => {
+      expect(evaluateArray('C4:C5*2')).toEqual([[150], ['#VALUE!']]);
+      expect(evaluateArray('B2:B4+C2:C3')).toEqual([[220], [380], ['#N/A']]);
+    });
+
+    it('shows blank cells of a result as 0 and 1x1 results as one value', () => {
+      expect(evaluateArray('B4:B5')).toEqual([[50], [0]]);
+      expect(evaluateArray('B2:B2')).toBe(100);
+    });
+
+    it.each([
+      ['SORT(B2:B4)', [[50], [100], [200]]],
+      ['SORT(A2:B4, 2, -1)', [['Widget B', 200], ['Widget A', 100], ['Widget C', 50]]],
+      ['SORT(B2:D2, 1, -1, TRUE)', [[150, 120, 100]]],
+      ['FILTER(A2:B4, B2:B4>75)', [['Widget A', 100], ['Widget B', 200]]],
+      ['FILTER(B2:D2, B2:D2>=120)', [[120, 150]]],
+      ['FILTER(A2:A4, B2:B4>1000, "none")', 'none'],
+      ['UNIQUE(SPLIT("a,B,A,c,b", ","), TRUE)', [['a', 'B', 'c']]],
+    ])('evaluates %s', (formula, expected) => {
+      expect(evaluateArray(formula)).toEqual(expected);
+    });
+
+    it.each([
+      ['SORT(B2:C4, 3)', '#VALUE!'],
+      ['SORT(B2:B4, 1, 0)', '#VALUE!'],
+      ['FILTER(A2:B4, B2:B3>0)', '#VALUE!'],
+      ['FILTER(A2:A4, B2:B4>1000)', '#N/A'],
+      ['FILTER(A2:A6, B2:B6>0)', '#DIV/0!'],
+    ])('fails in %s', (formula, expected) => {
+      expect(evaluateArray(formula)).toBe(expected);
+    });
+
+    it('keeps the first of each distinct row with UNIQUE', () => {
+      const items: CellValue[][] = [['a', 1], ['B', 2], ['A', 1], ['c', 3], ['b', 2], ['a', 4]];
+      const uniqueOf = (formula: string) => evaluateArrayFormulaNode(parseFormula(formula), {
+        getCellValue: ({ row, col }: CellAddress) => items[row]?.[col] ?? null,
+      });
+
+      expect(uniqueOf('UNIQUE(A2:A7)')).toEqual([['a'], ['B'], ['c']]);
+      expect(uniqueOf('UNIQUE(A2:B7)')).toEqual([['a', 1], ['B', 2], ['c', 3], ['a', 4]]);
+      expect(uniqueOf('UNIQUE(A2:A7, FALSE, TRUE)')).toEqual('c');
+      expect(uniqueOf('UNIQUE(B2:B7, FALSE, TRUE)')).toEqual([[3], [4]]);
+      expect(uniqueOf('SORT(UNIQUE(B2:B7), 1, -1)')).toEqual([[4], [3], [2], [1]]);
+    });
+  });
+
+  describe('Named ranges', () => {
+    const names = [
+      { name: 'Revenue2020', reference: 'B2:B4' },
+      { name: 'TopProduct', reference: '$A$2' },
+      { name: 'Removed', reference: '#REF!' },
+    ];
+    const evaluateNamed = (formula: string) => {
+      const result = evaluateFormula(formula, { ...context, resolveName: createNameResolver(names) });
+      return result instanceof FormulaError ? result.code : result;
+    };
+
+    it('evaluates names as the cells they refer to, ignoring case', () => {
+      expect(evaluateNamed('SUM(Revenue2020)')).toBe(350);
+      expect(evaluateNamed('SUM(revenue2020)/COUNT(REVENUE2020)')).toBeCloseTo(350 / 3);
+      expect(evaluateNamed('TopProduct&"!"')).toBe('Widget A!');
+    });
+
+    it('shows #NAME? for unknown names and #REF! for deleted ones', () => {
+      expect(evaluateNamed('SUM(Revenue2021)')).toBe('#NAME?');
+      expect(evaluate('SUM(Revenue2020)')).toBe('#NAME?');
+      expect(evaluateNamed('Removed*2')).toBe('#REF!');
+    });
+
+    it.each([
+      ['Revenue2023', null],
+      ['tax_rate', null],
+      ['', 'Enter a name'],
+      ['2023Revenue', 'Names start with a letter or "_" and contain only letters, digits, "_" and "."'],
+      ['REV2023', '"REV2023" looks like a cell reference'],
+      ['true', '"true" is reserved'],
+      ['topproduct', '"topproduct" is already defined'],
+    ])('validates the name %p', (name, expected) => {
+      expect(validateName(name, names)).toBe(expected);
+    });
+
+    it('lets a name keep its own name when edited', () => {
+      expect(validateName('TopProduct', names, 'TopProduct')).toBeNull();
+    });
+  });
+
+  describe('Logical functions', () => {
+    it.each([
+      ['IF(D2>C2, "Up", "Down")', 'Up'],
+      ['IF(B3>C3, "Up", "Down")', 'Up'],
+      ['IF(B4>C4, "Up", "Down")', 'Down'],
+      ['IF(B2>1000, "big")', false],
+      ['IF(1, 2, 3)', 2],
+      ['IF(TRUE, 1, 1/0)', 1],
+      ['AND(B2>0, C2>0, TRUE)', true],
+      ['AND(B2:D4)', true],
+      ['AND(B2:D5)', false],
+      ['OR(B2>1000, C2=120)', true],
+      ['OR(FALSE, 0)', false],
+      ['NOT(B2>C2)', true],
+      ['IFS(B2>150, "high", B2>75, "mid", TRUE, "low")', 'mid'],
+      ['SWITCH(A3, "Widget A", 1, "widget b", 2, 0)', 2],
+      ['SWITCH(B4, 100, "x", "other")', 'other'],
+      ['IF(AND(B2>50, OR(C2<100, D2>100)), B2*2, 0)', 200],
+      ['TRUE+TRUE', 2],
+    ])('evaluates %s', (formula, expected) => {
+      expect(evaluate(formula)).toBe(expected);
+    });
+
+    it.each([
+      ['IF(1/0, 1, 2)', '#DIV/0!'],
+      ['IF(FALSE, 1, B6)', '#DIV/0!'],
+      ['IF("maybe", 1, 2)', '#VALUE!'],
+      ['AND(A2:A5)', '#VALUE!'],
+      ['OR(B2:B6)', '#DIV/0!'],
+      ['IFS(FALSE, 1)', '#N/A'],
+      ['IFS(TRUE, 1, FALSE)', '#VALUE!'],
+      ['SWITCH(3, 1, "a", 2, "b")', '#N/A'],
+      ['NOT(1, 2)', '#VALUE!'],
+    ])('reports %s as an error', (formula, expected) => {
+      expect(evaluate(formula)).toBe(expected);
+    });
+  });
+
+  describe('Comparison and text', () => {
+    it.each([
+      ['B2>C2', false],
+      ['B3>=C3', true],
+      ['A2="widget a"', true],
+      ['A2<>A3', true],
+      ['1<"a"', true],
+      ['B5=0', true],
+    ])('evaluates %s', (formula, expected) => {
+      expect(evaluate(formula)).toBe(expected);
+    });
+
+    it('concatenates with &', () => {
+      expect(evaluate('A2&": "&B2')).toBe('Widget A: 100');
+    });
+
+    it('binds & looser than arithmetic', () => {
+      expect(evaluate('"Total "&B2+C2')).toBe('Total 220');
+    });
+  });
+
+  describe('Evaluate formula steps', () => {
+    const steps = (formula: string) => {
+      const result = evaluateFormulaSteps(formula, context);
+      return result instanceof FormulaError ? result.code : result;
+    };
+
+    it('evaluates references, operators and calls innermost first', () => {
+      expect(steps('(B2+C2)*2-SUM(B2:B4)')).toEqual([
+        { expression: 'B2', value: '100', formula: '=(100+C2)*2-SUM(B2:B4)' },
+        { expression: 'C2', value: '120', formula: '=(100+120)*2-SUM(B2:B4)' },
+        { expression: '100+120', value: '220', formula: '=220*2-SUM(B2:B4)' },
+        { expression: '220*2', value: '440', formula: '=440-SUM(B2:B4)' },
+        { expression: 'B2:B4', value: '{100;200;50}', formula: '=440-SUM({100;200;50})' },
+        { expression: 'SUM({100;200;50})', value: '350', formula: '=440-350' },
+        { expression: '440-350', value: '90', formula: '=90' },
+      ]);
+    });
+
+    it('shows text, blanks and errors as formula values', () => {
+      const result = steps('IF(B5="", A2&"!", 1/0)');
+
+      expect(result).toEqual([
+        { expression: 'B5', value: '""', formula: '=IF(""="", A2&"!", 1/0)' },
+        { expression: '""=""', value: 'TRUE', formula: '=IF(TRUE, A2&"!", 1/0)' },
+        { expression: 'A2', value: '"Widget A"', formula: '=IF(TRUE, "Widget A"&"!", 1/0)' },
+        { expression: '"Widget A"&"!"', value: '"Widget A!"', formula: '=IF(TRUE, "Widget A!", 1/0)' },
+        { expression: '1/0', value: '#DIV/0!', formula: '=IF(TRUE, "Widget A!", #DIV/0!)' },
+        { expression: 'IF(TRUE, "Widget A!", #DIV/0!)', value: '"Widget A!"', formula: '="Widget A!"' },
+      ]);
+    });
+
+    it('keeps the parentheses precedence needs and reports formulas that do not parse', () => {
+      expect((steps('-(2^3)%*(B2-(C2-D2))') as { expression: string }[]).map(step => step.expression)).toEqual([
+        '2^3', '8%', '-0.08', 'B2', 'C2', 'D2', '120-150', '100--30', '-0.08*130',
+      ]);
+      expect(steps('SUM(')).toBe('#ERROR!');
+    });
+  });
+
+  describe('Custom functions', () => {
+    const unregister: (() => void)[] = [];
+    afterEach(() => unregister.splice(0).forEach(remove => remove()));
+
+    const runRate: FormulaFunction = {
+      description: 'Annualizes the average of monthly figures',
+      args: ['monthly_values'],
+      minArgs: 1,
+      maxArgs: 1,
+      returns: 'number',
+      evaluate: ([values]) => values
+    };
+
+    it('are called like built-in functions and show up in autocomplete', () => {
+      unregister.push(registerFunction('RunRate', {
+        ...runRate,
+        evaluate: ([values]) => {
+          const numbers = (values as CellValue[][]).flat().filter((v): v is number => typeof v === 'number');
+          return (numbers.reduce((a, b) => a + b, 0) / numbers.length) * 12;
+        }
+      }));
+
+      expect(evaluate('RUNRATE(B2:D2)')).toBe(1480);
+      expect(evaluate('runrate(B2:D2)/12')).toBeCloseTo(123.33, 2);
+      expect(evaluate('RUNRATE(B2:D2, 1)')).toBe('#VALUE!');
+      expect(findCompletions('=RUN', 4, { names: [], columns: [] })?.completions).toEqual([
+        { kind: 'function', label: 'RUNRATE', insertText: 'RUNRATE(', detail: 'Annualizes the average of monthly figures' },
+      ]);
+      expect(getSignatureHelp('=RUNRATE(', 9)).toMatchObject({ args: ['monthly_values'], returns: 'number' });
+
+      unregister.splice(0).forEach(remove => remove());
+      expect(evaluate('RUNRATE(B2:D2)')).toBe('#NAME?');
+    });
+
+    it('turn results of the wrong type and thrown exceptions into errors', () => {
+      unregister.push(
+        registerFunction('LABEL', { ...runRate, evaluate: () => 'text' }),
+        registerFunction('FAILS', { ...runRate, evaluate: () => { throw new Error('no data'); } }),
+        registerFunction('ENDOFYEAR', { ...runRate, returns: 'date', evaluate: () => 45291 })
+      );
+
+      expect(evaluateFormula('LABEL(1)', context)).toMatchObject({
+        code: '#VALUE!',
+        message: 'LABEL returned text instead of a number'
+      });
+      expect(evaluateFormula('FAILS(1)', context)).toMatchObject({ code: '#VALUE!', message: 'FAILS failed: no data' });
+      // Errors in the arguments still propagate before the function is called
+      expect(evaluate('LABEL(1/0)')).toBe('#DIV/0!');
+      expect(evaluateFormula('ENDOFYEAR(1)', context)).toEqual(new DateValue(45291));
+    });
+
+    it('reject invalid names, built-in names and inconsistent argument counts', () => {
+      expect(() => registerFunction('2X', runRate)).toThrow('"2X" is not a valid function name');
+      expect(() => registerFunction('sum', runRate)).toThrow('SUM is a built-in function');
+      expect(() => registerFunction('RUNRATE', { ...runRate, minArgs: 2 })).toThrow('RUNRATE needs a name');
+    });
+  });
+});
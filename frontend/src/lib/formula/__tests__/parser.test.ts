@@ -0,0 +1,206 @@
+import { findCompletions, findFormulaReferences, getSignatureHelp, isReferenceInsertionPoint } from '../editing';
+import { FUNCTIONS } from '../functions';
+import { createNameResolver } from '../names';
+import { parseFormula } from '../parser';
+import { tokenize } from '../tokenizer';
+import { FormulaError } from '../errors';
+
+describe('Formula tokenizer', () => {
+  it('splits a formula into typed tokens', () => {
+    const tokens = tokenize('SUM(A2:B3)*2.5>="x"');
+
+    expect(tokens.map(t => [t.type, t.value])).toEqual([
+      ['identifier', 'SUM'],
+      ['lparen', '('],
+      ['reference', 'A2'],
+      ['colon', ':'],
+      ['reference', 'B3'],
+      ['rparen', ')'],
+      ['operator', '*'],
+      ['number', '2.5'],
+      ['operator', '>='],
+      ['string', 'x'],
+      ['eof', ''],
+    ]);
+  });
+
+  it('unescapes doubled quotes in string literals', () => {
+    expect(tokenize('"say ""hi"""')[0].value).toBe('say "hi"');
+  });
+
+  it('reads anchored references and error literals', () => {
+    expect(tokenize('$A$1+A$2-$B3&#ref!').map(t => [t.type, t.value])).toEqual([
+      ['reference', '$A$1'],
+      ['operator', '+'],
+      ['reference', 'A$2'],
+      ['operator', '-'],
+      ['reference', '$B3'],
+      ['operator', '&'],
+      ['error', '#REF!'],
+      ['eof', ''],
+    ]);
+  });
+
+  it('rejects unterminated strings', () => {
+    expect(() => tokenize('"abc')).toThrow(FormulaError);
+  });
+});
+
+describe('Formula parser', () => {
+  it('respects operator precedence', () => {
+    expect(parseFormula('1+2*3')).toEqual({
+      type: 'binary',
+      operator: '+',
+      left: { type: 'number', value: 1 },
+      right: {
+        type: 'binary',
+        operator: '*',
+        left: { type: 'number', value: 2 },
+        right: { type: 'number', value: 3 },
+      },
+    });
+  });
+
+  it('binds unary minus tighter than exponentiation', () => {
+    expect(parseFormula('-2^2')).toMatchObject({
+      type: 'binary',
+      operator: '^',
+      left: { type: 'unary', operator: '-' },
+    });
+  });
+
+  it('parses ranges and nested function calls', () => {
+    expect(parseFormula('MAX(A2,B2)-MIN(C2:C4)')).toMatchObject({
+      type: 'binary',
+      operator: '-',
+      left: { type: 'call', name: 'MAX', args: [{ type: 'reference' }, { type: 'reference' }] },
+      right: {
+        type: 'call',
+        name: 'MIN',
+        args: [{ type: 'range', start: { row: 0, col: 2 }, end: { row: 2, col: 2 } }],
+      },
+    });
+  });
+
+  it('maps row 1 to the header row', () => {
+    expect(parseFormula('B1')).toEqual({ type: 'reference', address: { row: -1, col: 1 } });
+  });
+
+  it('ignores $ anchors when resolving addresses', () => {
+    expect(parseFormula('$C$4')).toEqual({ type: 'reference', address: { row: 2, col: 2 } });
+  });
+
+  it('parses TRUE and FALSE as booleans', () => {
+    expect(parseFormula('true')).toEqual({ type: 'boolean', value: true });
+  });
+
+  it('parses words that are not calls or references as names', () => {
+    expect(parseFormula('SUM(Revenue2023)*tax_rate')).toEqual({
+      type: 'binary',
+      operator: '*',
+      left: { type: 'call', name: 'SUM', args: [{ type: 'name', name: 'Revenue2023' }] },
+      right: { type: 'name', name: 'tax_rate' },
+    });
+  });
+
+  it.each(['1+', 'SUM(A2', '(1+2))', 'A2:', 'FOO(', ''])('rejects malformed formula %p', source => {
+    expect(() => parseFormula(source)).toThrow(FormulaError);
+  });
+});
+
+describe('Formula editing helpers', () => {
+  it('finds the references in a formula with their positions', () => {
+    expect(findFormulaReferences('=SUM(B4:B2)+$C$3*2')).toEqual([
+      { start: { row: 0, col: 1 }, end: { row: 2, col: 1 }, position: 5, length: 5 },
+      { start: { row: 1, col: 2 }, end: { row: 1, col: 2 }, position: 12, length: 4 },
+    ]);
+  });
+
+  it('finds references in unfinished formulas and names that refer to cells', () => {
+    const resolveName = createNameResolver([{ name: 'Sales', reference: 'B2:B4' }]);
+
+    expect(findFormulaReferences('=SUM(Sales, A2', resolveName)).toEqual([
+      { start: { row: 0, col: 1 }, end: { row: 2, col: 1 }, position: 5, length: 5 },
+      { start: { row: 0, col: 0 }, end: { row: 0, col: 0 }, position: 12, length: 2 },
+    ]);
+    expect(findFormulaReferences('=SUM(Other)')).toEqual([]);
+    expect(findFormulaReferences('B2')).toEqual([]);
+    expect(findFormulaReferences('="B2')).toEqual([]);
+  });
+
+  it.each([
+    ['=', 1, true],
+    ['=SUM(', 5, true],
+    ['=SUM(B2, ', 9, true],
+    ['=B2*', 4, true],
+    ['=B2:', 4, true],
+    ['=SUM(B2', 7, false],
+    ['=SUM(B2)', 8, false],
+    ['="a,', 4, false],
+    ['SUM(', 4, false],
+  ])('checks whether a reference can go into %p at %p', (formula, caret, expected) => {
+    expect(isReferenceInsertionPoint(formula, caret)).toBe(expected);
+  });
+
+  const sources = {
+    names: [{ name: 'Revenue2023', reference: 'E2:E12' }],
+    columns: [{ name: 'Region', reference: 'A2:A12' }, { name: 'Revenue', reference: 'B2:B12' }]
+  };
+
+  it('completes names, columns and functions matching the word before the caret', () => {
+    const { start, completions } = findCompletions('=SUM(re', 7, sources)!;
+
+    expect(start).toBe(5);
+    expect(completions.map(c => [c.kind, c.label, c.insertText])).toEqual([
+      ['name', 'Revenue2023', 'Revenue2023'],
+      ['column', 'Region', 'A2:A12'],
+      ['column', 'Revenue', 'B2:B12'],
+    ]);
+    expect(findCompletions('=COUNTI', 7, sources)!.completions.map(c => c.insertText)).toEqual([
+      'COUNTIF(',
+      'COUNTIFS(',
+    ]);
+  });
+
+  it('offers every function right after the "=" but not after references or in strings', () => {
+    const functions = findCompletions('=', 1, sources)!.completions.filter(c => c.kind === 'function');
+
+    expect(functions).toHaveLength(Object.keys(FUNCTIONS).length);
+    expect(findCompletions('=B2', 3, sources)).toEqual({ start: 1, completions: [] });
+    expect(findCompletions('=SUM(B2)', 8, sources)).toBeNull();
+    expect(findCompletions('="su', 4, sources)).toBeNull();
+    expect(findCompletions('su', 2, sources)).toBeNull();
+  });
+
+  it('describes the argument being typed in the innermost function call', () => {
+    expect(getSignatureHelp('=ROUND(SUMIF(A2:A5, "x', 21)).toEqual({
+      name: 'SUMIF',
+      description: FUNCTIONS.SUMIF.description,
+      args: ['range', 'criteria', '[sum_range]'],
+      activeArgument: 1,
+    });
+    expect(getSignatureHelp('=IF(A2>0, (B2+', 14)?.activeArgument).toBe(1);
+    expect(getSignatureHelp('=SUM(B2:B4)', 11)).toBeNull();
+    expect(getSignatureHelp('=B2*(C2', 7)).toBeNull();
+  });
+
+  it('numbers repeating arguments and maps later ones onto the second set', () => {
+    expect(getSignatureHelp('=SUM(1, 2, 3', 12)).toMatchObject({
+      args: ['number1', '[number2]', '...'],
+      activeArgument: 1,
+    });
+    const help = getSignatureHelp('=SUMIFS(C2:C9, A2:A9, "x", B2:B9, ', 34);
+
+    expect(help?.args).toEqual(['sum_range', 'criteria_range1', 'criteria1', '[criteria_range2', 'criteria2]', '...']);
+    expect(help?.activeArgument).toBe(4);
+    expect(getSignatureHelp('=TODAY(', 7)).toMatchObject({ args: [], activeArgument: -1 });
+  });
+
+  it('describes every function with an argument name for each argument it takes', () => {
+    Object.entries(FUNCTIONS).forEach(([name, fn]) => {
+      expect([name, fn.description.length > 0]).toEqual([name, true]);
+      expect([name, fn.args.length >= fn.minArgs]).toEqual([name, true]);
+      if (fn.maxArgs !== undefined) expect([name, fn.args.length]).toEqual([name, fn.maxArgs]);
+    });
+  });
+});
@@ -0,0 +1,470 @@
+import {
+  GridCell,
+  RecalculateResponse,
+  applyCellPatches,
+  buildDependencyGraph,
+  collectPrecedents,
+  describeCellError,
+  findCircularReferences,
+  findCycles,
+  findDependents,
+  displayGridValue,
+  handleRecalculateRequest,
+  parseFormula,
+  parseGridInput,
+  recalculateGrid,
+  registerFunction,
+  sortTopologically,
+  traceDependents,
+  tracePrecedents
+} from '..';
+
+const headers = ['Product', '2020', '2021'];
+
+const graphOf = (formulas: Record<string, string>) =>
+  buildDependencyGraph(Object.entries(formulas).map(([key, source]) => {
+    const [row, col] = key.split(',').map(Number);
+    return { address: { row, col }, node: parseFormula(source) };
+  }));
+
+describe('Dependency graph', () => {
+  it('collects single cells and normalized ranges', () => {
+    expect(collectPrecedents(parseFormula('B2+SUM(C4:B3)'))).toEqual([
+      { start: { row: 0, col: 1 }, end: { row: 0, col: 1 } },
+      { start: { row: 1, col: 1 }, end: { row: 2, col: 2 } },
+    ]);
+  });
+
+  it('finds transitive dependents of a changed cell', () => {
+    // C2 = B2*2, C3 = C2+1, C4 = SUM(C2:C3), B4 is independent
+    const graph = graphOf({ '0,2': 'B2*2', '1,2': 'C2+1', '2,2': 'SUM(C2:C3)', '2,1': 'B3' });
+
+    expect(findDependents(graph, [{ row: 0, col: 1 }])).toEqual(new Set(['0,2', '1,2', '2,2']));
+    expect(findDependents(graph, [{ row: 5, col: 5 }]).size).toBe(0);
+  });
+
+  it('orders formulas after the formulas they read', () => {
+    const graph = graphOf({ '2,2': 'SUM(C2:C3)', '1,2': 'C2+1', '0,2': 'B2*2' });
+    const { order, cyclic } = sortTopologically(graph, new Set(graph.keys()));
+
+    expect(order).toEqual(['0,2', '1,2', '2,2']);
+    expect(cyclic).toEqual([]);
+  });
+
+  it('leaves cells in a reference cycle unordered', () => {
+    const graph = graphOf({ '0,1': 'C2', '0,2': 'B2', '1,1': 'B2+1', '2,1': 'B4' });
+    const { order, cyclic } = sortTopologically(graph, new Set(graph.keys()));
+
+    expect(cyclic.sort()).toEqual(['0,1', '0,2', '1,1', '2,1']);
+    expect(order).toEqual([]);
+  });
+
+  it('reports each cycle as a closed path, ignoring cells that only read from one', () => {
+    const graph = graphOf({ '0,1': 'C2', '0,2': 'D2', '0,3': 'B2', '1,1': 'B2+1', '2,1': 'B4' });
+    const cycles = findCycles(graph, new Set(graph.keys()));
+
+    expect(cycles).toHaveLength(2);
+    expect(cycles).toContainEqual(['2,1', '2,1']);
+    const loop = cycles.find(path => path.length === 4)!;
+    expect(loop[0]).toBe(loop[3]);
+    expect(new Set(loop)).toEqual(new Set(['0,1', '0,2', '0,3']));
+  });
+});
+
+describe('recalculateGrid', () => {
+  const grid = (): GridCell[][] => [
+    [{ value: 'Widget A' }, { value: 100 }, { value: 0, formula: '=B2*2' }],
+    [{ value: 'Widget B' }, { value: 200 }, { value: 0, formula: '=C2+B3' }],
+    [{ value: 'Total' }, { value: 0, formula: '=SUM(B2:B3)' }, { value: 0, formula: '=SUM(C2:C3)' }],
+  ];
+
+  it('computes chained formulas regardless of their position in the grid', () => {
+    const result = recalculateGrid(grid(), headers);
+
+    expect(result.map(row => row.map(cell => cell.value))).toEqual([
+      ['Widget A', 100, 200],
+      ['Widget B', 200, 400],
+      ['Total', 300, 600],
+    ]);
+  });
+
+  it('recomputes only what depends on the changed cell', () => {
+    const initial = recalculateGrid(grid(), headers);
+    const edited = initial.map(row => row.slice());
+    edited[1][1] = { value: 50 };
+
+    const result = recalculateGrid(edited, headers, [{ row: 1, col: 1 }]);
+
+    expect(result[1][2].value).toBe(250);
+    expect(result[2][1].value).toBe(150);
+    expect(result[2][2].value).toBe(450);
+    // Unaffected rows keep their identity
+    expect(result[0]).toBe(edited[0]);
+  });
+
+  it('returns the same grid when nothing changes', () => {
+    const initial = recalculateGrid(grid(), headers);
+    expect(recalculateGrid(initial, headers, [{ row: 5, col: 0 }])).toBe(initial);
+  });
+
+  it('recomputes formulas calling volatile functions after any change', () => {
+    let calls = 0;
+    const unregister = registerFunction('TICK', {
+      description: 'Counts its calls',
+      args: [],
+      minArgs: 0,
+      maxArgs: 0,
+      volatile: true,
+      evaluate: () => ++calls
+    });
+
+    const initial = recalculateGrid<GridCell>(
+      [[{ value: 'Ticks' }, { value: 0, formula: '=TICK()' }, { value: 0, formula: '=B2*10' }]],
+      headers
+    );
+    const result = recalculateGrid(initial, headers, [{ row: 0, col: 0 }]);
+    unregister();
+
+    expect(initial[0].map(cell => cell.value)).toEqual(['Ticks', 1, 10]);
+    expect(result[0].map(cell => cell.value)).toEqual(['Ticks', 2, 20]);
+  });
+
+  it('marks cycle members #CIRC! and still evaluates cells downstream of them', () => {
+    const result = recalculateGrid<GridCell>(
+      [
+        [{ value: 'Widget A' }, { value: 1, formula: '=C2' }, { value: 2, formula: '=B2' }],
+        [{ value: 'Widget B' }, { value: 0, formula: '=B2&"?"' }, { value: 0, formula: '=5*2' }],
+      ],
+      headers
+    );
+
+    expect(result[0][1].value).toBe('#CIRC!');
+    expect(result[0][2].value).toBe('#CIRC!');
+    expect(result[0][1].error?.message).toBe('Circular reference: B2 → C2 → B2');
+    expect(result[1][1].value).toBe('#CIRC!');
+    expect(result[1][1].error?.source).toEqual({ row: 0, col: 1 });
+    expect(result[1][2].value).toBe(10);
+    expect(findCircularReferences(result)).toEqual([
+      [{ row: 0, col: 1 }, { row: 0, col: 2 }, { row: 0, col: 1 }],
+    ]);
+  });
+
+  it('clears #CIRC! once an edit breaks the cycle', () => {
+    const cyclic = recalculateGrid<GridCell>(
+      [[{ value: '' }, { value: 0, formula: '=C2' }, { value: 0, formula: '=B2' }]],
+      headers
+    );
+    const edited = cyclic.map(row => row.slice());
+    edited[0][1] = { value: 7 };
+
+    const result = recalculateGrid(edited, headers, [{ row: 0, col: 1 }]);
+
+    expect(result[0][2].value).toBe(7);
+    expect(findCircularReferences(result)).toEqual([]);
+  });
+
+  it('records where an error started and explains it', () => {
+    const result = recalculateGrid<GridCell>(
+      [
+        [{ value: 10 }, { value: 0 }, { value: 0, formula: '=A2/B2' }],
+        [{ value: 0, formula: '=C2+1' }, { value: 0, formula: '=IFERROR(A3, -1)' }, { value: 0, formula: '=SUM(' }],
+      ],
+      headers
+    );
+
+    expect(result[0][2]).toMatchObject({ value: '#DIV/0!', error: { source: { row: 0, col: 2 } } });
+    expect(result[1][0]).toMatchObject({ value: '#DIV/0!', error: { source: { row: 0, col: 2 } } });
+    expect(result[1][1].value).toBe(-1);
+    expect(result[1][2].value).toBe('#ERROR!');
+
+    expect(describeCellError(result[0][2], { row: 0, col: 2 })).toBe('#DIV/0!: Division by zero');
+    expect(describeCellError(result[1][0], { row: 1, col: 0 })).toBe('#DIV/0!: Division by zero (from C2)');
+    expect(describeCellError(result[1][1], { row: 1, col: 1 })).toBeUndefined();
+  });
+
+  it('clears the error once the source is fixed', () => {
+    const broken = recalculateGrid<GridCell>(
+      [[{ value: 10 }, { value: 0 }, { value: 0, formula: '=A2/B2' }]],
+      headers
+    );
+    const edited = broken.map(row => row.slice());
+    edited[0][1] = { value: 4 };
+
+    const result = recalculateGrid(edited, headers, [{ row: 0, col: 1 }]);
+
+    expect(result[0][2].value).toBe(2.5);
+    expect(result[0][2].error).toBeUndefined();
+  });
+
+  it('reads header names from row 1 and stores booleans as TRUE/FALSE', () => {
+    const result = recalculateGrid(
+      [[{ value: '', formula: '=A1&"!"' }, { value: '', formula: '=B1="2020"' }]],
+      headers
+    );
+
+    expect(result[0][0].value).toBe('Product!');
+    expect(result[0][1].value).toBe('TRUE');
+  });
+
+  it('reads TRUE/FALSE cells back as booleans', () => {
+    const result = recalculateGrid<GridCell>(
+      [[{ value: 'TRUE' }, { value: 0, formula: '=A2+1' }, { value: '', formula: '=IF(B2>1, "ok", "no")' }]],
+      headers
+    );
+
+    expect(result[0][1].value).toBe(2);
+    expect(result[0][2].value).toBe('ok');
+  });
+
+  it('reads date cells as dates and marks date results', () => {
+    const result = recalculateGrid<GridCell>(
+      [[
+        { value: 44941, type: 'date' },
+        { value: 0, formula: '=A2+30' },
+        { value: 0, formula: '=B2-A2' },
+        { value: '', formula: '=YEAR(A2)' },
+      ]],
+      headers
+    );
+
+    expect(result[0][1]).toMatchObject({ value: 44971, type: 'date' });
+    expect(displayGridValue(result[0][1])).toBe('2023-02-14');
+    expect(result[0][2].value).toBe(30);
+    expect(result[0][2].type).toBeUndefined();
+    expect(result[0][3].value).toBe(2023);
+  });
+});
+
+describe('Spilled results', () => {
+  const values = (grid: GridCell[][]) => grid.map(row => row.map(cell => cell.value));
+  const grid = (): GridCell[][] => [
+    [{ value: 'Widget A' }, { value: 100 }, { value: '', formula: '=SORT(B2:B4, 1, -1)' }, { value: '' }],
+    [{ value: 'Widget B' }, { value: 200 }, { value: '' }, { value: '' }],
+    [{ value: 'Widget C' }, { value: 50 }, { value: '' }, { value: 0, formula: '=C4*10' }],
+  ];
+
+  it('fills the cells below and to the right of the formula', () => {
+    const result = recalculateGrid(grid(), headers);
+
+    expect(values(result)).toEqual([
+      ['Widget A', 100, 200, ''],
+      ['Widget B', 200, 100, ''],
+      ['Widget C', 50, 50, 500],
+    ]);
+    expect(result[0][2].spill).toEqual({ rows: 3, cols: 1 });
+    expect(result[1][2].spilledFrom).toEqual({ row: 0, col: 2 });
+    expect(result[1][2].formula).toBeUndefined();
+  });
+
+  it('updates spilled cells and the formulas reading them after an edit', () => {
+    const edited = recalculateGrid(grid(), headers).map(row => row.slice());
+    edited[0][1] = { value: 10 };
+
+    const result = recalculateGrid(edited, headers, [{ row: 0, col: 1 }]);
+
+    expect(result.map(row => row[2].value)).toEqual([200, 50, 10]);
+    expect(result[2][3].value).toBe(100);
+  });
+
+  it('shows #SPILL! while a cell is in the way, and spills once it is cleared', () => {
+    const blocked = grid();
+    blocked[1][2] = { value: 'note' };
+
+    const result = recalculateGrid(blocked, headers);
+    expect(result[0][2].value).toBe('#SPILL!');
+    expect(describeCellError(result[0][2], { row: 0, col: 2 }))
+      .toBe('#SPILL!: The result needs C2:C4, but C3 is not empty');
+    expect(result[2][2].value).toBe('');
+
+    const cleared = result.map(row => row.slice());
+    cleared[1][2] = { value: '' };
+    const spilled = recalculateGrid(cleared, headers, [{ row: 1, col: 2 }]);
+    expect(spilled.map(row => row[2].value)).toEqual([200, 100, 50]);
+    expect(spilled[2][3].value).toBe(500);
+  });
+
+  it('shows #SPILL! when the result runs past the edge of the grid', () => {
+    const tall = grid();
+    tall[1][2] = { value: '', formula: '=SORT(B2:B4)' };
+    tall[0][2] = { value: '' };
+
+    const result = recalculateGrid(tall, headers);
+    expect(result[1][2].value).toBe('#SPILL!');
+    expect(result[1][2].error?.message).toBe('The result needs C3:C5, but it runs past the edge of the sheet');
+  });
+
+  it('empties the cells a result no longer covers', () => {
+    const initial = recalculateGrid(grid(), headers);
+    const edited = initial.map(row => row.slice());
+    edited[0][2] = { ...edited[0][2], formula: '=FILTER(B2:B4, B2:B4>75)' };
+
+    const result = recalculateGrid(edited, headers, [{ row: 0, col: 2 }]);
+
+    expect(result.map(row => row[2].value)).toEqual([100, 200, '']);
+    expect(result[2][2].spilledFrom).toBeUndefined();
+    // C4 is blank now, so the formula reading it recalculates too
+    expect(result[2][3].value).toBe(0);
+  });
+
+  it('empties spilled cells once their formula is gone', () => {
+    const initial = recalculateGrid(grid(), headers);
+    const edited = initial.map(row => row.slice());
+    edited[0][2] = { value: 'plain' };
+
+    const result = recalculateGrid(edited, headers, [{ row: 0, col: 2 }]);
+
+    expect(result.map(row => row[2].value)).toEqual(['plain', '', '']);
+    expect(result[0][2].spill).toBeUndefined();
+    expect(result[2][3].value).toBe(0);
+  });
+
+  it('treats a formula reading its own spilled result as circular', () => {
+    const result = recalculateGrid<GridCell>(
+      [[{ value: 1 }, { value: '', formula: '=A2:A3+B3' }], [{ value: 2 }, { value: '' }]],
+      headers
+    );
+
+    expect(result[0][1].value).toBe('#CIRC!');
+    expect(result[1][1].value).toBe('');
+    expect(findCircularReferences(result)).toEqual([[{ row: 0, col: 1 }, { row: 0, col: 1 }]]);
+  });
+});
+
+describe('Named ranges in the grid', () => {
+  const names = [{ name: 'Sales', reference: 'B2:B3' }];
+
+  it('recalculates formulas when the cells a name refers to change', () => {
+    const grid: GridCell[][] = [
+      [{ value: 'Widget A' }, { value: 100 }, { value: '', formula: '=SUM(Sales)' }],
+      [{ value: 'Widget B' }, { value: 200 }, { value: '' }],
+    ];
+    const first = recalculateGrid(grid, headers, undefined, names);
+    expect(first[0][2].value).toBe(300);
+
+    const edited = first.map(row => row.slice());
+    edited[1][1] = { value: 50 };
+    expect(recalculateGrid(edited, headers, [{ row: 1, col: 1 }], names)[0][2].value).toBe(150);
+  });
+
+  it('finds cycles that go through a name', () => {
+    const result = recalculateGrid(
+      [[{ value: 1 }, { value: '', formula: '=SUM(Sales)' }], [{ value: 2 }, { value: 3 }]],
+      headers,
+      undefined,
+      names
+    );
+
+    expect(result[0][1].value).toBe('#CIRC!');
+    expect(findCircularReferences(result, names)).toEqual([[{ row: 0, col: 1 }, { row: 0, col: 1 }]]);
+  });
+});
+
+describe('Tracing precedents and dependents', () => {
+  // C2 = B2*2, C3 = SUM(B2:B3)+Bonus, D2 = C2+C3, and E2 spills SORT(B2:B3) into E3
+  const names = [{ name: 'Bonus', reference: 'B4' }];
+  const grid = recalculateGrid(
+    [
+      [{ value: 'A' }, { value: 10 }, { value: '', formula: '=B2*2' }, { value: '', formula: '=C2+C3' }, { value: '', formula: '=SORT(B2:B3)' }],
+      [{ value: 'B' }, { value: 5 }, { value: '', formula: '=SUM(B2:B3)+Bonus' }, { value: '' }, { value: '' }],
+      [{ value: 'C' }, { value: 1 }, { value: '' }, { value: '', formula: '=E3*2' }, { value: '' }],
+    ],
+    headers,
+    undefined,
+    names
+  );
+
+  it('lists the cells and ranges a formula reads, including named ones', () => {
+    expect(tracePrecedents(grid, { row: 1, col: 2 }, names)).toEqual([
+      { start: { row: 0, col: 1 }, end: { row: 1, col: 1 } },
+      { start: { row: 2, col: 1 }, end: { row: 2, col: 1 } },
+    ]);
+    expect(tracePrecedents(grid, { row: 0, col: 1 }, names)).toEqual([]);
+    // A spilled cell comes from the formula that spilled it
+    expect(tracePrecedents(grid, { row: 1, col: 4 }, names)).toEqual([
+      { start: { row: 0, col: 4 }, end: { row: 0, col: 4 } },
+    ]);
+  });
+
+  it('lists the formulas that read a cell directly', () => {
+    expect(traceDependents(grid, { row: 0, col: 1 }, names)).toEqual([
+      { row: 0, col: 2 },
+      { row: 0, col: 4 },
+      { row: 1, col: 2 },
+    ]);
+    expect(traceDependents(grid, { row: 2, col: 1 }, names)).toEqual([{ row: 1, col: 2 }]);
+    expect(traceDependents(grid, { row: 0, col: 4 }, names)).toEqual([{ row: 2, col: 3 }]);
+    expect(traceDependents(grid, { row: 0, col: 3 }, names)).toEqual([]);
+  });
+});
+
+describe('Recalculation worker protocol', () => {
+  const grid = (): GridCell[][] => [
+    [{ value: 'Widget A' }, { value: 100 }, { value: 0, formula: '=B2*2' }],
+    [{ value: 'Widget B' }, { value: 200 }, { value: 0, formula: '=C2+B3' }],
+    [{ value: 'Total' }, { value: 0, formula: '=SUM(B2:B3)' }, { value: 0, formula: '=SORT(B2:B3)' }],
+    [{ value: '' }, { value: '' }, { value: '' }],
+  ];
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('replies with patches that reproduce the recalculated grid', () => {
+    const responses: RecalculateResponse[] = [];
+    handleRecalculateRequest(
+      { type: 'recalculate', id: 7, grid: grid(), headers, names: [] },
+      response => responses.push(response)
+    );
+
+    const result = responses[responses.length - 1];
+    expect(result).toMatchObject({ type: 'result', id: 7 });
+    if (result.type !== 'result') return;
+    // Only formula cells and the cell the SORT result spills into changed
+    expect(result.patches.map(({ row, col }) => [row, col])).toEqual([[0, 2], [1, 2], [2, 1], [2, 2], [3, 2]]);
+
+    // Patches keep the cell properties recalculation does not own
+    const formatted = grid().map(row => row.map(cell => ({ ...cell, format: { bold: true } })));
+    const patched = applyCellPatches(formatted, result.patches);
+    expect(patched.map(row => row.map(displayGridValue))).toEqual(
+      recalculateGrid(grid(), headers).map(row => row.map(displayGridValue))
+    );
+    expect(patched[2][2]).toMatchObject({ value: 100, spill: { rows: 2, cols: 1 }, format: { bold: true } });
+    expect(patched[0][0]).toBe(formatted[0][0]);
+  });
+
+  it('reports progress at most every 100ms', () => {
+    let now = 0;
+    jest.spyOn(Date, 'now').mockImplementation(() => (now += 60));
+
+    const rows: GridCell[][] = Array.from({ length: 10 }, (_, row) => [
+      { value: row },
+      { value: 0, formula: `=A${row + 2}*2` },
+    ]);
+    const responses: RecalculateResponse[] = [];
+    handleRecalculateRequest(
+      { type: 'recalculate', id: 1, grid: rows, headers, names: [] },
+      response => responses.push(response)
+    );
+
+    // One clock reading per formula after the start, so every other formula is reported
+    expect(responses.filter(r => r.type === 'progress')).toEqual([
+      { type: 'progress', id: 1, done: 2, total: 10 },
+      { type: 'progress', id: 1, done: 4, total: 10 },
+      { type: 'progress', id: 1, done: 6, total: 10 },
+      { type: 'progress', id: 1, done: 8, total: 10 },
+      { type: 'progress', id: 1, done: 10, total: 10 },
+    ]);
+    expect(responses[responses.length - 1].type).toBe('result');
+  });
+});
+
+describe('parseGridInput', () => {
+  it.each([
+    ['2023-01-15', { value: 44941, type: 'date' }],
+    ['1/15/2023', { value: 44941, type: 'date' }],
+    ['2023-01-15 06:00', { value: 44941.25, type: 'date' }],
+    ['2023-02-30', { value: '2023-02-30', type: undefined }],
+    ['Widget A', { value: 'Widget A', type: undefined }],
+    [42, { value: 42, type: undefined }],
+  ])('parses %p', (input, expected) => {
+    expect(parseGridInput(input)).toEqual(expected);
+  });
+});
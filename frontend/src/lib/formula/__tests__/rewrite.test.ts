@@ -0,0 +1,134 @@
+import {
+  StructuralChange,
+  mapIndex,
+  renameInFormula,
+  renameInGridFormulas,
+  rewriteFormula,
+  rewriteGridFormulas,
+  rewriteNamedRanges,
+  shiftFormula
+} from '..';
+
+const insertRow = (index: number, count = 1): StructuralChange => ({ axis: 'row', type: 'insert', index, count });
+const deleteRow = (index: number, count = 1): StructuralChange => ({ axis: 'row', type: 'delete', index, count });
+const insertColumn = (index: number): StructuralChange => ({ axis: 'column', type: 'insert', index, count: 1 });
+const deleteColumn = (index: number): StructuralChange => ({ axis: 'column', type: 'delete', index, count: 1 });
+
+describe('mapIndex', () => {
+  it('moves an index the way Array.splice does', () => {
+    const move: StructuralChange = { axis: 'row', type: 'move', from: 1, to: 3 };
+    const items = ['a', 'b', 'c', 'd', 'e'];
+    const moved = [...items];
+    moved.splice(3, 0, moved.splice(1, 1)[0]);
+
+    items.forEach((item, index) => {
+      expect(moved[mapIndex(move, index)!]).toBe(item);
+    });
+  });
+});
+
+describe('rewriteFormula', () => {
+  it.each([
+    // Row 0 is Excel row 2, so inserting at index 1 shifts row 3 and below
+    ['=B2+B3', insertRow(1), '=B2+B4'],
+    ['=SUM(B2:B4)', insertRow(1), '=SUM(B2:B5)'],
+    ['=SUM(B2:B4)', insertRow(3), '=SUM(B2:B4)'],
+    ['=$B$3*B$3/$B3', insertRow(0), '=$B$4*B$4/$B4'],
+    ['=A1&B1', insertRow(0), '=A1&B1'],
+    ['=SUM(B1:B3)', insertRow(0, 2), '=SUM(B1:B5)'],
+    ['=B2+C2', insertColumn(1), '=C2+D2'],
+    ['=SUM(A2:C2)', insertColumn(3), '=SUM(A2:C2)'],
+  ])('rewrites %s on insert', (formula, change, expected) => {
+    expect(rewriteFormula(formula, change)).toBe(expected);
+  });
+
+  it.each([
+    ['=B2+B4', deleteRow(1), '=B2+B3'],
+    ['=B2+B3', deleteRow(1), '=B2+#REF!'],
+    ['=SUM(B2:B6)', deleteRow(1, 2), '=SUM(B2:B4)'],
+    ['=SUM(B3:B6)', deleteRow(0, 2), '=SUM(B2:B4)'],
+    ['=SUM(B3:B4)', deleteRow(1, 2), '=SUM(#REF!)'],
+    ['=SUM(B6:B2)', deleteRow(1), '=SUM(B5:B2)'],
+    ['=C2*2', deleteColumn(2), '=#REF!*2'],
+    ['=SUM(B2:D2)', deleteColumn(1), '=SUM(B2:C2)'],
+  ])('rewrites %s on delete', (formula, change, expected) => {
+    expect(rewriteFormula(formula, change)).toBe(expected);
+  });
+
+  it('follows a moved row', () => {
+    expect(rewriteFormula('=B2-B5', { axis: 'row', type: 'move', from: 0, to: 3 })).toBe('=B5-B4');
+  });
+
+  it('keeps spacing, case and string literals as written', () => {
+    expect(rewriteFormula('=sum( b3 , "B3" )', insertRow(0))).toBe('=sum( B4 , "B3" )');
+  });
+
+  it('leaves formulas that do not tokenize alone', () => {
+    expect(rewriteFormula('="unterminated', insertRow(0))).toBe('="unterminated');
+  });
+});
+
+describe('shiftFormula', () => {
+  it.each([
+    ['=A2*2', 1, 0, '=A3*2'],
+    ['=SUM(B2:C2)', 0, 2, '=SUM(D2:E2)'],
+    ['=$A$2+A$2+$A2', 3, 1, '=$A$2+B$2+$A5'],
+    ['=SUM(B3:B5)/B$1', -1, 0, '=SUM(B2:B4)/B$1'],
+    ['=B2+A3', 0, -1, '=A2+#REF!'],
+    ['=SUM(A2:B3)', -3, 0, '=SUM(#REF!)'],
+  ])('moves %s by %i rows and %i columns', (formula, rows, cols, expected) => {
+    expect(shiftFormula(formula, rows, cols)).toBe(expected);
+  });
+
+  it('keeps names, functions and string literals as written', () => {
+    expect(shiftFormula('=total*sum(b2, "B2")', 1, 0)).toBe('=total*sum(B3, "B2")');
+  });
+});
+
+describe('rewriteGridFormulas', () => {
+  it('rewrites only formula cells and keeps the grid when nothing changes', () => {
+    const grid = [[{ value: 1 }, { value: 2, formula: '=A2*2' }]];
+
+    expect(rewriteGridFormulas(grid, insertRow(5))).toBe(grid);
+    expect(rewriteGridFormulas(grid, insertColumn(0))[0]).toEqual([
+      { value: 1 },
+      { value: 2, formula: '=B2*2' },
+    ]);
+  });
+});
+
+describe('Named ranges', () => {
+  const names = [
+    { name: 'Revenue2023', reference: 'E2:E12' },
+    { name: 'TaxRate', reference: '$B$3' },
+  ];
+
+  it('moves named ranges with their cells', () => {
+    expect(rewriteNamedRanges(names, insertRow(0))).toEqual([
+      { name: 'Revenue2023', reference: 'E3:E13' },
+      { name: 'TaxRate', reference: '$B$4' },
+    ]);
+    expect(rewriteNamedRanges(names, { axis: 'column', type: 'move', from: 4, to: 0 })).toEqual([
+      { name: 'Revenue2023', reference: 'A2:A12' },
+      { name: 'TaxRate', reference: '$C$3' },
+    ]);
+    expect(rewriteNamedRanges(names, deleteColumn(1))[1]).toEqual({ name: 'TaxRate', reference: '#REF!' });
+  });
+
+  it('keeps the names when nothing moves', () => {
+    expect(rewriteNamedRanges(names, insertRow(20))).toBe(names);
+  });
+
+  it('renames names in formulas but not functions or text', () => {
+    expect(renameInFormula('=SUM(revenue2023)*TaxRate', 'Revenue2023', 'Sales')).toBe('=SUM(Sales)*TaxRate');
+    expect(renameInFormula('=REVENUE2023("Revenue2023")', 'Revenue2023', 'Sales')).toBe('=REVENUE2023("Revenue2023")');
+    expect(renameInFormula('=SUM(Revenue2023', 'Revenue2023', 'Sales')).toBe('=SUM(Sales');
+  });
+
+  it('renames names across a grid', () => {
+    const grid = [[{ value: 1 }, { value: 2, formula: '=TaxRate*2' }]];
+
+    expect(renameInGridFormulas(grid, 'Revenue2023', 'Sales')).toBe(grid);
+    expect(renameInGridFormulas(grid, 'TaxRate', 'Rate')[0][1].formula).toBe('=Rate*2');
+  });
+});
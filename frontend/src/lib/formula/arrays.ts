@@ -0,0 +1,134 @@
+import { FormulaError } from './errors';
+import type { FormulaFunction } from './functions';
+import {
+  CellValue,
+  FormulaValue,
+  RangeValue,
+  compareValues,
+  isError,
+  numericValue,
+  toBoolean,
+  toNumber,
+  toRange,
+  toText,
+  transpose
+} from './values';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Read an array argument as a list of rows, or of columns when by_col is set
+ * @param value - Evaluated array argument
+ * @param byColumn - Evaluated by_col argument, undefined when omitted
+ * @returns The rows (or columns) and whether they were transposed
+ */
+const toLines = (value: FormulaValue, byColumn: FormulaValue | undefined): { lines: RangeValue; transposed: boolean } => {
+  const transposed = byColumn !== undefined && toBoolean(byColumn);
+  const range = toRange(value);
+  return { lines: transposed ? transpose(range) : range, transposed };
+};
+
+/**
+ * Key identifying a value for UNIQUE
+ * Text is compared case-insensitively and dates as their serial number, as
+ * the comparison operators do
+ * @param value - Value to identify
+ * @throws The value itself if it is an error
+ */
+const uniqueKey = (value: CellValue): string => {
+  if (isError(value)) throw value;
+  const number = numericValue(value);
+  if (number !== null) return `n${number}`;
+  if (typeof value === 'boolean') return `b${value}`;
+  return `s${toText(value).toLowerCase()}`;
+};
+
+// ============================================================================
+// FUNCTIONS
+// ============================================================================
+
+/**
+ * Dynamic array functions, keyed by upper-case name
+ * They return whole ranges, which spill from the formula's cell into the
+ * cells below and to the right of it
+ */
+export const ARRAY_FUNCTIONS: Record<string, FormulaFunction> = {
+  SORT: {
+    description: 'Sorts the rows or columns of a range',
+    args: ['array', 'sort_index', 'sort_order', 'by_col'],
+    minArgs: 1,
+    maxArgs: 4,
+    // =SORT(array, [sort_index], [sort_order], [by_col]) sorts rows by one column,
+    // ascending for 1 and descending for -1; rows with equal keys keep their order
+    evaluate: ([array, indexArg = 1, orderArg = 1, byColumn]) => {
+      const { lines, transposed } = toLines(array, byColumn);
+      const index = Math.trunc(toNumber(indexArg));
+      if (index < 1 || index > lines[0].length) {
+        throw new FormulaError('#VALUE!', `SORT index ${index} is outside the range`);
+      }
+      const order = toNumber(orderArg);
+      if (order !== 1 && order !== -1) {
+        throw new FormulaError('#VALUE!', 'SORT order must be 1 (ascending) or -1 (descending)');
+      }
+
+      const sorted = lines.slice().sort((a, b) => compareValues(a[index - 1], b[index - 1]) * order);
+      return transposed ? transpose(sorted) : sorted;
+    }
+  },
+
+  FILTER: {
+    description: 'Keeps the rows or columns of a range that meet a condition',
+    args: ['array', 'include', 'if_empty'],
+    minArgs: 2,
+    maxArgs: 3,
+    // =FILTER(array, include, [if_empty]) keeps the rows (or columns) whose
+    // include value is TRUE; include is a column as tall as the array or a row as wide
+    evaluate: ([array, includeArg, ifEmpty]) => {
+      const range = toRange(array);
+      const include = toRange(includeArg);
+      const byRow = include[0].length === 1 && include.length === range.length;
+      if (!byRow && !(include.length === 1 && include[0].length === range[0].length)) {
+        throw new FormulaError('#VALUE!', 'FILTER include must be one row or column the size of the array');
+      }
+
+      const keep = (byRow ? include.map(row => row[0]) : include[0]).map(value => toBoolean(value));
+      const lines = byRow ? range : transpose(range);
+      const kept = lines.filter((_, i) => keep[i]);
+      if (kept.length === 0) {
+        if (ifEmpty !== undefined) return ifEmpty;
+        throw new FormulaError('#N/A', 'FILTER found no matching values');
+      }
+      return byRow ? kept : transpose(kept);
+    }
+  },
+
+  UNIQUE: {
+    description: 'Returns the distinct rows or columns of a range',
+    args: ['array', 'by_col', 'exactly_once'],
+    minArgs: 1,
+    maxArgs: 3,
+    // =UNIQUE(array, [by_col], [exactly_once]) keeps the first of each distinct row
+    // (or column), or only the ones that appear exactly once
+    evaluate: ([array, byColumn, onceArg = false]) => {
+      const { lines, transposed } = toLines(array, byColumn);
+      const groups = new Map<string, { line: CellValue[]; count: number }>();
+      lines.forEach(line => {
+        const key = JSON.stringify(line.map(uniqueKey));
+        const group = groups.get(key);
+        if (group) group.count++;
+        else groups.set(key, { line, count: 1 });
+      });
+
+      const once = toBoolean(onceArg);
+      const unique = Array.from(groups.values())
+        .filter(group => !once || group.count === 1)
+        .map(group => group.line);
+      if (unique.length === 0) {
+        throw new FormulaError('#N/A', 'UNIQUE found no values that appear exactly once');
+      }
+      return transposed ? transpose(unique) : unique;
+    }
+  }
+};
@@ -0,0 +1,157 @@
+import { FormulaError } from './errors';
+import { EvaluationContext, evaluateNode } from './evaluator';
+import { FormulaNode, PRECEDENCE, parseFormula } from './parser';
+import { formatCellReference } from './references';
+import { CellValue, FormulaValue, isDate, isError, isRange } from './values';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * One step of evaluating a formula, innermost parts first, like Excel's Evaluate Formula
+ * @property expression - The part evaluated, with its own parts already replaced by
+ *   their values (e.g. "100*2" for B2*2)
+ * @property value - Its value as formula text (e.g. "200", "\"Up\"", "{1;2;3}" or "#DIV/0!")
+ * @property formula - The whole formula after this step, with the part replaced by its value
+ */
+export type EvaluationStep = { expression: string; value: string; formula: string };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Most values of a range shown in a step; larger ranges end with "…" */
+const MAX_SHOWN_RANGE_VALUES = 12;
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * Write a value the way it would appear in a formula
+ * Blank cells read as "", and ranges use array notation ({1,2;3,4}: "," between
+ * columns, ";" between rows)
+ * @param value - Value to write
+ * @returns Formula text for the value
+ */
+const formatValue = (value: FormulaValue): string => {
+  if (isRange(value)) {
+    const rows = value.map(row => row.map(formatValue).join(','));
+    const cells = value.reduce((count, row) => count + row.length, 0);
+    if (cells <= MAX_SHOWN_RANGE_VALUES) return `{${rows.join(';')}}`;
+    const shown = value.flat().slice(0, MAX_SHOWN_RANGE_VALUES).map(cell => formatValue(cell));
+    return `{${shown.join(',')},…}`;
+  }
+  const cell: CellValue = value;
+  if (cell === null) return '""';
+  if (isError(cell)) return cell.code;
+  if (isDate(cell)) return cell.toString();
+  if (typeof cell === 'string') return `"${cell.replace(/"/g, '""')}"`;
+  if (typeof cell === 'boolean') return cell ? 'TRUE' : 'FALSE';
+  return String(cell);
+};
+
+/**
+ * Binding strength of a node, for deciding where parentheses are needed
+ * Binary operators follow PRECEDENCE; unary operators and everything else bind tighter
+ * @param node - Node to rank
+ * @returns Higher numbers bind tighter
+ */
+const bindingStrength = (node: FormulaNode): number => {
+  if (node.type === 'binary') return PRECEDENCE.findIndex(level => level.includes(node.operator));
+  if (node.type === 'unary') return node.operator === '%' ? PRECEDENCE.length + 1 : PRECEDENCE.length;
+  return PRECEDENCE.length + 2;
+};
+
+/**
+ * Write a formula AST back as text, replacing parts that have been evaluated
+ * Parentheses are only added where precedence needs them, and "$" anchors are
+ * not kept, so the text can differ from what was typed
+ * @param node - Node to write
+ * @param evaluated - Text of the values of parts evaluated so far
+ * @returns Formula text without the leading "="
+ */
+const formatNode = (node: FormulaNode, evaluated: Map<FormulaNode, string>): string => {
+  const done = evaluated.get(node);
+  if (done !== undefined) return done;
+
+  const operand = (child: FormulaNode, minimum: number) => {
+    const text = formatNode(child, evaluated);
+    return !evaluated.has(child) && bindingStrength(child) < minimum ? `(${text})` : text;
+  };
+
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return formatValue(node.value);
+    case 'error':
+      return node.code;
+    case 'reference':
+      return formatCellReference(node.address);
+    case 'range':
+      return `${formatCellReference(node.start)}:${formatCellReference(node.end)}`;
+    case 'name':
+      return node.name;
+    case 'unary':
+      return node.operator === '%'
+        ? `${operand(node.operand, bindingStrength(node))}%`
+        : `${node.operator}${operand(node.operand, bindingStrength(node))}`;
+    case 'binary': {
+      // Operators are left-associative, so only the right side needs parentheses at equal precedence
+      const strength = bindingStrength(node);
+      return `${operand(node.left, strength)}${node.operator}${operand(node.right, strength + 1)}`;
+    }
+    case 'call':
+      return `${node.name}(${node.args.map(arg => formatNode(arg, evaluated)).join(', ')})`;
+  }
+};
+
+// ============================================================================
+// EVALUATE FORMULA
+// ============================================================================
+
+/**
+ * Evaluate a formula one part at a time, for stepping through how its result comes about
+ * Every reference, name, operator and function call is a step, innermost first;
+ * literals are shown as they are. A part that fails shows its error, and so
+ * do the parts it feeds into
+ * @param source - Formula text without the leading "="
+ * @param context - Evaluation context providing cell values
+ * @returns The steps in evaluation order (the last one gives the result), or the
+ *   FormulaError explaining why the formula cannot be parsed
+ */
+export const evaluateFormulaSteps = (source: string, context: EvaluationContext): EvaluationStep[] | FormulaError => {
+  let root: FormulaNode;
+  try {
+    root = parseFormula(source);
+  } catch (error) {
+    if (error instanceof FormulaError) return error;
+    throw error;
+  }
+
+  const evaluated = new Map<FormulaNode, string>();
+  const steps: EvaluationStep[] = [];
+
+  const visit = (node: FormulaNode) => {
+    if (node.type === 'unary') visit(node.operand);
+    if (node.type === 'binary') [node.left, node.right].forEach(visit);
+    if (node.type === 'call') node.args.forEach(visit);
+    if (node.type === 'number' || node.type === 'string' || node.type === 'boolean') return;
+
+    const expression = formatNode(node, evaluated);
+    let value: FormulaValue;
+    try {
+      value = evaluateNode(node, context);
+    } catch (error) {
+      if (!(error instanceof FormulaError)) throw error;
+      value = error;
+    }
+    evaluated.set(node, formatValue(value));
+    steps.push({ expression, value: formatValue(value), formula: `=${formatNode(root, evaluated)}` });
+  };
+
+  visit(root);
+  return steps;
+};
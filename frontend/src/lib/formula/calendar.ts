@@ -0,0 +1,153 @@
+// ============================================================================
+// DATE VALUE
+// ============================================================================
+
+/**
+ * A date (and optional time of day) as a spreadsheet serial number
+ * The whole part counts days from the 1900 epoch (1 is 1900-01-01 for dates
+ * after February 1900, as in other spreadsheets) and the fraction is the time
+ * of day. Dates behave as their serial number in arithmetic and comparisons,
+ * so they can be sorted and subtracted; they display as ISO text
+ * @property serial - Serial number
+ */
+export class DateValue {
+  readonly serial: number;
+
+  constructor(serial: number) {
+    this.serial = serial;
+  }
+
+  toString(): string {
+    return formatDateSerial(this.serial);
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Day zero of the serial numbers, chosen so that 1900-03-01 is serial 61 */
+const EPOCH = Date.UTC(1899, 11, 30);
+
+/** Milliseconds in a day */
+const MS_PER_DAY = 86400000;
+
+/** yyyy-mm-dd with an optional time of day, e.g. "2023-01-15" or "2023-01-15 14:30" */
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/** m/d/yyyy with an optional time of day, e.g. "1/15/2023" */
+const US_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?: (\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+// ============================================================================
+// SERIAL NUMBERS
+// ============================================================================
+
+/**
+ * The parts of a date and time of day
+ * Months and days are 1-based; weekday is 0 for Sunday
+ */
+export type DateParts = {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  weekday: number;
+};
+
+/**
+ * Build a serial number from calendar parts
+ * Out-of-range months and days roll over, so month 13 is January of the next year
+ * @param year - Full year (e.g. 2023)
+ * @param month - Month, 1-12
+ * @param day - Day of the month
+ * @param hours - Hours, 0-23
+ * @param minutes - Minutes
+ * @param seconds - Seconds
+ * @returns The serial number
+ */
+export const serialFromParts = (
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0,
+  seconds = 0
+): number => {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  date.setUTCHours(hours, minutes, seconds, 0);
+  return (date.getTime() - EPOCH) / MS_PER_DAY;
+};
+
+/**
+ * Split a serial number into calendar parts
+ * @param serial - Serial number
+ * @returns Its date and time of day (rounded to the second)
+ */
+export const partsFromSerial = (serial: number): DateParts => {
+  const date = new Date(EPOCH + Math.round(serial * 86400) * 1000);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hours: date.getUTCHours(),
+    minutes: date.getUTCMinutes(),
+    seconds: date.getUTCSeconds(),
+    weekday: date.getUTCDay()
+  };
+};
+
+/**
+ * Serial number of the current moment, in local time
+ * @returns Today's serial number including the time of day
+ */
+export const currentSerial = (): number => {
+  const now = new Date();
+  return serialFromParts(
+    now.getFullYear(), now.getMonth() + 1, now.getDate(),
+    now.getHours(), now.getMinutes(), now.getSeconds()
+  );
+};
+
+// ============================================================================
+// TEXT CONVERSION
+// ============================================================================
+
+/**
+ * Parse date text typed into a cell
+ * Accepts yyyy-mm-dd and m/d/yyyy, each optionally followed by hh:mm[:ss]
+ * @param text - Text to parse
+ * @returns The serial number, or null if the text is not a valid date
+ */
+export const parseDateText = (text: string): number | null => {
+  const trimmed = text.trim();
+  const iso = ISO_DATE_PATTERN.exec(trimmed);
+  const us = iso ? null : US_DATE_PATTERN.exec(trimmed);
+  if (!iso && !us) return null;
+
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : [Number(us![3]), Number(us![1]), Number(us![2])];
+  const [hours, minutes, seconds] = (iso ?? us!).slice(4, 7).map(part => Number(part ?? 0));
+
+  // Reject dates that would roll over, such as 2023-02-30
+  if (month < 1 || month > 12 || day < 1 || hours > 23 || minutes > 59 || seconds > 59) return null;
+  const serial = serialFromParts(year, month, day, hours, minutes, seconds);
+  return partsFromSerial(serial).day === day ? serial : null;
+};
+
+/**
+ * Format a serial number as ISO date text
+ * The time of day is only shown when there is one
+ * @param serial - Serial number
+ * @returns Text such as "2023-01-15" or "2023-01-15 14:30"
+ */
+export const formatDateSerial = (serial: number): string => {
+  const { year, month, day, hours, minutes, seconds } = partsFromSerial(serial);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = `${String(year).padStart(4, '0')}-${pad(month)}-${pad(day)}`;
+  if (hours === 0 && minutes === 0 && seconds === 0) return date;
+  return `${date} ${pad(hours)}:${pad(minutes)}${seconds ? `:${pad(seconds)}` : ''}`;
+};
@@ -0,0 +1,323 @@
+import { FormulaError } from './errors';
+import type { FormulaFunction } from './functions';
+import { parseDateText } from './calendar';
+import { CellValue, FormulaValue, RangeValue, compareValues, isDate, isError, isRange, numericValue, toRange, toText } from './values';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Test deciding whether a cell counts towards a conditional aggregate
+ * Error values never match
+ */
+export type Criterion = (value: CellValue) => boolean;
+
+/** Comparison operators a criteria string may start with */
+type CriterionOperator = '=' | '<>' | '<' | '>' | '<=' | '>=';
+
+// ============================================================================
+// CRITERIA
+// ============================================================================
+
+/** Operator prefix of a criteria string; two-character operators are tried first */
+const OPERATOR_PATTERN = /^(<=|>=|<>|<|>|=)?([\s\S]*)$/;
+
+/**
+ * Build a case-insensitive pattern from text with wildcards
+ * "*" matches any run of characters, "?" any single character and "~"
+ * escapes the character after it (so "~*" is a literal asterisk)
+ * @param pattern - Criteria text
+ * @returns Regular expression matching the whole text
+ */
+export const wildcardToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '~' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '*') {
+      source += '[\\s\\S]*';
+    } else if (char === '?') {
+      source += '[\\s\\S]';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+};
+
+/**
+ * Check an ordering comparison result against an operator
+ * @param operator - Comparison operator
+ * @param comparison - Negative, zero or positive, as from compareValues
+ */
+const satisfies = (operator: CriterionOperator, comparison: number): boolean => {
+  switch (operator) {
+    case '=': return comparison === 0;
+    case '<>': return comparison !== 0;
+    case '<': return comparison < 0;
+    case '>': return comparison > 0;
+    case '<=': return comparison <= 0;
+    case '>=': return comparison >= 0;
+  }
+};
+
+/**
+ * Turn a SUMIF/COUNTIF-style criteria argument into a test
+ *
+ * A criteria string may start with a comparison operator (">0", "<>Total");
+ * without one it means "equal to". The rest of the string decides how cells
+ * are compared:
+ * - a number or date compares numerically with number and date cells
+ *   ("=5" also matches the text "5", ">=2023-01-01" matches dates from 2023)
+ * - TRUE/FALSE compares with boolean cells
+ * - nothing matches blank cells ("=" or "") or non-blank cells ("<>")
+ * - other text compares case-insensitively with text cells; "=" and "<>"
+ *   understand the wildcards * and ? (escape them with ~)
+ * "<>" matches every cell that is not equal, whatever its type
+ *
+ * @param criteria - Criteria argument (a number, boolean or criteria string)
+ * @returns The test for each cell
+ * @throws The criteria itself if it is an error value
+ */
+export const parseCriterion = (criteria: CellValue): Criterion => {
+  if (isError(criteria)) throw criteria;
+  if (typeof criteria === 'number' || typeof criteria === 'boolean' || isDate(criteria)) {
+    return parseCriterion(toText(criteria));
+  }
+
+  const [, prefix, operand] = OPERATOR_PATTERN.exec(criteria ?? '')!;
+  const operator = (prefix ?? '=') as CriterionOperator;
+  const trimmed = operand.trim();
+  const notError = (test: Criterion): Criterion => value => !isError(value) && test(value);
+
+  if (operand === '') {
+    const isBlank = (value: CellValue) => value === null || value === '';
+    if (operator === '=') return notError(isBlank);
+    if (operator === '<>') return notError(value => !isBlank(value));
+    return () => false;
+  }
+
+  const target = trimmed !== '' && !isNaN(Number(trimmed)) ? Number(trimmed) : parseDateText(trimmed);
+  if (target !== null) {
+    return notError(value => {
+      const number = numericValue(value);
+      if (number !== null) return satisfies(operator, number - target);
+      const isEqualText = typeof value === 'string' && value.trim() !== '' && Number(value) === target;
+      if (operator === '=') return isEqualText;
+      return operator === '<>' && !isEqualText;
+    });
+  }
+
+  const upper = trimmed.toUpperCase();
+  if (upper === 'TRUE' || upper === 'FALSE') {
+    const target = upper === 'TRUE';
+    return notError(value =>
+      typeof value === 'boolean' ? satisfies(operator, compareValues(value, target)) : operator === '<>'
+    );
+  }
+
+  if (operator === '=' || operator === '<>') {
+    const pattern = wildcardToRegExp(operand);
+    return notError(value => {
+      const matches = typeof value === 'string' && pattern.test(value);
+      return operator === '=' ? matches : !matches;
+    });
+  }
+
+  return notError(value => typeof value === 'string' && satisfies(operator, compareValues(value, operand)));
+};
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Reduce a criteria argument to one value
+ * @param criteria - Evaluated criteria argument
+ * @throws FormulaError if a multi-cell range is given as criteria
+ */
+const toScalarCriteria = (criteria: FormulaValue): CellValue => {
+  if (!isRange(criteria)) return criteria;
+  if (criteria.length === 1 && criteria[0].length === 1) return criteria[0][0];
+  throw new FormulaError('#VALUE!', 'Criteria must be a single value');
+};
+
+/**
+ * Find the cells that meet every condition of a conditional aggregate
+ * @param conditions - Alternating criteria ranges and criteria arguments
+ * @param name - Function name, for error messages
+ * @returns The shape shared by all criteria ranges and the matching
+ *   positions within it as [row, col]
+ * @throws FormulaError when the criteria ranges differ in size
+ */
+const findMatches = (
+  conditions: FormulaValue[],
+  name: string
+): { rows: number; cols: number; matches: [number, number][] } => {
+  const tests = [];
+  for (let i = 0; i < conditions.length; i += 2) {
+    tests.push({ range: toRange(conditions[i]), criterion: parseCriterion(toScalarCriteria(conditions[i + 1])) });
+  }
+
+  const rows = tests[0].range.length;
+  const cols = tests[0].range[0]?.length ?? 0;
+  if (tests.some(({ range }) => range.length !== rows || (range[0]?.length ?? 0) !== cols)) {
+    throw new FormulaError('#VALUE!', `${name} ranges must all be the same size`);
+  }
+
+  const matches: [number, number][] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (tests.every(({ range, criterion }) => criterion(range[row][col]))) {
+        matches.push([row, col]);
+      }
+    }
+  }
+  return { rows, cols, matches };
+};
+
+/**
+ * Collect the numbers at the matching positions of a range
+ * Text, booleans and blanks are skipped
+ * @param range - Range to read (positions outside it count as blank)
+ * @param matches - Positions as [row, col]
+ * @returns The numbers found
+ * @throws The first error value at a matching position
+ */
+const numbersAt = (range: RangeValue, matches: [number, number][]): number[] => {
+  const numbers: number[] = [];
+  matches.forEach(([row, col]) => {
+    const value = range[row]?.[col] ?? null;
+    if (isError(value)) throw value;
+    const number = numericValue(value);
+    if (number !== null) numbers.push(number);
+  });
+  return numbers;
+};
+
+/**
+ * Check the condition arguments of a *IFS function come in pairs
+ * @param conditions - Arguments after the value range (if any)
+ * @param name - Function name, for error messages
+ * @throws FormulaError when a range has no criteria
+ */
+const checkPairs = (conditions: FormulaValue[], name: string): void => {
+  if (conditions.length % 2 !== 0) {
+    throw new FormulaError('#VALUE!', `${name} needs criteria for every range`);
+  }
+};
+
+/**
+ * Collect the numbers of a *IFS value range at the positions meeting every condition
+ * @param values - Range to sum or average
+ * @param conditions - Alternating criteria ranges and criteria arguments
+ * @param name - Function name, for error messages
+ * @returns The matching numbers
+ * @throws FormulaError when the value range and criteria ranges differ in size
+ */
+const valuesMatching = (values: FormulaValue, conditions: FormulaValue[], name: string): number[] => {
+  checkPairs(conditions, name);
+  const range = toRange(values);
+  const { rows, cols, matches } = findMatches(conditions, name);
+  if (range.length !== rows || (range[0]?.length ?? 0) !== cols) {
+    throw new FormulaError('#VALUE!', `${name} ranges must all be the same size`);
+  }
+  return numbersAt(range, matches);
+};
+
+/**
+ * Sum the matching numbers
+ * @param numbers - Numbers to add
+ */
+const sum = (numbers: number[]): number => numbers.reduce((total, n) => total + n, 0);
+
+/**
+ * Average the matching numbers
+ * @param numbers - Numbers to average
+ * @param name - Function name, for error messages
+ * @throws FormulaError when no numbers match
+ */
+const average = (numbers: number[], name: string): number => {
+  if (numbers.length === 0) {
+    throw new FormulaError('#DIV/0!', `No cells match the ${name} criteria`);
+  }
+  return sum(numbers) / numbers.length;
+};
+
+// ============================================================================
+// FUNCTIONS
+// ============================================================================
+
+/**
+ * Conditional aggregates, keyed by upper-case name
+ * Ranges are matched cell by cell from their top-left corners, so the
+ * value range of SUMIF(B2:B10, ">0", D2:D10) is read row for row alongside B2:B10.
+ * Errors inside ranges only matter when they are at a matching position of
+ * the range being summed or averaged
+ */
+export const CONDITIONAL_FUNCTIONS: Record<string, FormulaFunction> = {
+  SUMIF: {
+    description: 'Adds the cells that meet a condition',
+    args: ['range', 'criteria', 'sum_range'],
+    minArgs: 2,
+    maxArgs: 3,
+    acceptsErrors: true,
+    evaluate: ([range, criteria, sumRange = range]) =>
+      sum(numbersAt(toRange(sumRange), findMatches([range, criteria], 'SUMIF').matches))
+  },
+
+  SUMIFS: {
+    description: 'Adds the cells that meet every condition',
+    args: ['sum_range', 'criteria_range', 'criteria'],
+    repeats: 2,
+    minArgs: 3,
+    acceptsErrors: true,
+    evaluate: ([sumRange, ...conditions]) => {
+      return sum(valuesMatching(sumRange, conditions, 'SUMIFS'));
+    }
+  },
+
+  COUNTIF: {
+    description: 'Counts the cells that meet a condition',
+    args: ['range', 'criteria'],
+    minArgs: 2,
+    maxArgs: 2,
+    acceptsErrors: true,
+    evaluate: args => findMatches(args, 'COUNTIF').matches.length
+  },
+
+  COUNTIFS: {
+    description: 'Counts the cells that meet every condition',
+    args: ['criteria_range', 'criteria'],
+    repeats: 2,
+    minArgs: 2,
+    acceptsErrors: true,
+    evaluate: args => {
+      checkPairs(args, 'COUNTIFS');
+      return findMatches(args, 'COUNTIFS').matches.length;
+    }
+  },
+
+  AVERAGEIF: {
+    description: 'Averages the cells that meet a condition',
+    args: ['range', 'criteria', 'average_range'],
+    minArgs: 2,
+    maxArgs: 3,
+    acceptsErrors: true,
+    evaluate: ([range, criteria, averageRange = range]) =>
+      average(numbersAt(toRange(averageRange), findMatches([range, criteria], 'AVERAGEIF').matches), 'AVERAGEIF')
+  },
+
+  AVERAGEIFS: {
+    description: 'Averages the cells that meet every condition',
+    args: ['average_range', 'criteria_range', 'criteria'],
+    repeats: 2,
+    minArgs: 3,
+    acceptsErrors: true,
+    evaluate: ([averageRange, ...conditions]) => {
+      return average(valuesMatching(averageRange, conditions, 'AVERAGEIFS'), 'AVERAGEIFS');
+    }
+  }
+};
@@ -0,0 +1,196 @@
+import { DateValue, currentSerial, parseDateText, partsFromSerial, serialFromParts } from './calendar';
+import { FormulaError } from './errors';
+import type { FormulaFunction } from './functions';
+import { FormulaValue, toNumber, toText } from './values';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Read a date argument as a whole-day serial number
+ * Accepts dates, serial numbers and date text
+ * @param value - Evaluated argument
+ * @param name - Function name, for error messages
+ * @returns The serial number of the day
+ * @throws FormulaError (#NUM!) for serial numbers before the epoch
+ */
+const toDay = (value: FormulaValue, name: string): number => {
+  const serial = Math.floor(toNumber(value));
+  if (serial < 0) {
+    throw new FormulaError('#NUM!', `${name} needs a date on or after 1900-01-01`);
+  }
+  return serial;
+};
+
+/**
+ * Number of days in a month
+ * @param year - Full year
+ * @param month - Month, 1-12 (out-of-range months roll over)
+ */
+const daysInMonth = (year: number, month: number): number => partsFromSerial(serialFromParts(year, month + 1, 0)).day;
+
+/**
+ * Move a date by whole months, keeping the day where the target month allows
+ * @param serial - Starting day
+ * @param months - Months to move (negative moves back)
+ * @returns The serial number of the new day
+ */
+const addMonths = (serial: number, months: number): number => {
+  const { year, month, day } = partsFromSerial(serial);
+  return serialFromParts(year, month + months, Math.min(day, daysInMonth(year, month + months)));
+};
+
+/**
+ * Difference between two days in a DATEDIF unit
+ * @param start - Earlier day
+ * @param end - Later day
+ * @param unit - "Y", "M", "D", "MD", "YM" or "YD"
+ * @returns Whole units between the days
+ * @throws FormulaError (#NUM!) for unknown units
+ */
+const dateDifference = (start: number, end: number, unit: string): number => {
+  const from = partsFromSerial(start);
+  const to = partsFromSerial(end);
+  // Whole months from start to end; a month only counts once its day is reached
+  const months = (to.year - from.year) * 12 + to.month - from.month - (to.day < from.day ? 1 : 0);
+
+  switch (unit) {
+    case 'Y':
+      return Math.floor(months / 12);
+    case 'M':
+      return months;
+    case 'D':
+      return end - start;
+    case 'YM':
+      return months % 12;
+    case 'MD':
+      return to.day >= from.day
+        ? to.day - from.day
+        : daysInMonth(to.year, to.month - 1) - from.day + to.day;
+    case 'YD': {
+      let anniversary = serialFromParts(to.year, from.month, from.day);
+      if (anniversary > end) anniversary = serialFromParts(to.year - 1, from.month, from.day);
+      return end - anniversary;
+    }
+    default:
+      throw new FormulaError('#NUM!', `Unknown DATEDIF unit "${unit}"`);
+  }
+};
+
+// ============================================================================
+// FUNCTIONS
+// ============================================================================
+
+/**
+ * Date functions, keyed by upper-case name
+ * Functions that produce dates return DateValues, so their cells display as
+ * dates; arguments may be dates, serial numbers or date text
+ */
+export const DATE_FUNCTIONS: Record<string, FormulaFunction> = {
+  TODAY: {
+    description: 'Returns the current date',
+    args: [],
+    minArgs: 0,
+    maxArgs: 0,
+    volatile: true,
+    evaluate: () => new DateValue(Math.floor(currentSerial()))
+  },
+
+  NOW: {
+    description: 'Returns the current date and time',
+    args: [],
+    minArgs: 0,
+    maxArgs: 0,
+    volatile: true,
+    evaluate: () => new DateValue(currentSerial())
+  },
+
+  DATE: {
+    description: 'Builds a date from a year, month and day',
+    args: ['year', 'month', 'day'],
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: ([yearArg, monthArg, dayArg]) => {
+      let year = Math.trunc(toNumber(yearArg));
+      // Years before 1900 count from 1900, as in other spreadsheets (DATE(23, 1, 1) is 1923)
+      if (year >= 0 && year < 1900) year += 1900;
+      const serial = serialFromParts(year, Math.trunc(toNumber(monthArg)), Math.trunc(toNumber(dayArg)));
+      if (year > 9999 || serial < 0) {
+        throw new FormulaError('#NUM!', 'DATE is outside the supported range');
+      }
+      return new DateValue(serial);
+    }
+  },
+
+  DATEVALUE: {
+    description: 'Converts date text to a date',
+    args: ['date_text'],
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([text]) => {
+      const serial = parseDateText(toText(text));
+      if (serial === null) {
+        throw new FormulaError('#VALUE!', `"${toText(text)}" is not a date`);
+      }
+      return new DateValue(Math.floor(serial));
+    }
+  },
+
+  YEAR: {
+    description: 'Returns the year of a date',
+    args: ['date'],
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([date]) => partsFromSerial(toDay(date, 'YEAR')).year
+  },
+  MONTH: {
+    description: 'Returns the month of a date, from 1 to 12',
+    args: ['date'],
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([date]) => partsFromSerial(toDay(date, 'MONTH')).month
+  },
+  DAY: {
+    description: 'Returns the day of the month of a date, from 1 to 31',
+    args: ['date'],
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([date]) => partsFromSerial(toDay(date, 'DAY')).day
+  },
+
+  EDATE: {
+    description: 'Returns the date a number of months before or after a date',
+    args: ['start_date', 'months'],
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([start, months]) => new DateValue(addMonths(toDay(start, 'EDATE'), Math.trunc(toNumber(months))))
+  },
+
+  EOMONTH: {
+    description: 'Returns the last day of the month a number of months before or after a date',
+    args: ['start_date', 'months'],
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([start, months]) => {
+      const { year, month } = partsFromSerial(toDay(start, 'EOMONTH'));
+      // Day 0 of the following month is the last day of the target month
+      return new DateValue(serialFromParts(year, month + Math.trunc(toNumber(months)) + 1, 0));
+    }
+  },
+
+  DATEDIF: {
+    description: 'Counts the days, months or years between two dates',
+    args: ['start_date', 'end_date', 'unit'],
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: ([startArg, endArg, unit]) => {
+      const start = toDay(startArg, 'DATEDIF');
+      const end = toDay(endArg, 'DATEDIF');
+      if (start > end) {
+        throw new FormulaError('#NUM!', 'DATEDIF start date is after the end date');
+      }
+      return dateDifference(start, end, toText(unit).toUpperCase());
+    }
+  }
+};
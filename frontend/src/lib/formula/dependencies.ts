@@ -0,0 +1,296 @@
+import type { NameResolver } from './names';
+import { FormulaNode } from './parser';
+import { CellAddress } from './references';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A block of cells a formula reads from (a single cell has start === end)
+ * @property start - Top-left corner
+ * @property end - Bottom-right corner
+ */
+export type Precedent = { start: CellAddress; end: CellAddress };
+
+/**
+ * Formula cells and the cells each one reads, keyed by "row,col"
+ * Ranges are kept as rectangles rather than expanded, so =SUM(B2:B1000)
+ * costs one entry instead of a thousand
+ */
+export type DependencyGraph = Map<string, { address: CellAddress; precedents: Precedent[] }>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Key a cell the same way the Spreadsheet keys its selection ("row,col")
+ * @param address - Cell position
+ * @returns Map key for the cell
+ */
+export const addressKey = ({ row, col }: CellAddress): string => `${row},${col}`;
+
+/**
+ * Check whether a cell lies inside a precedent block
+ * @param precedent - Block of cells
+ * @param address - Cell to test
+ * @returns True if the cell is inside the block
+ */
+const contains = ({ start, end }: Precedent, { row, col }: CellAddress): boolean =>
+  row >= start.row && row <= end.row && col >= start.col && col <= end.col;
+
+/**
+ * Number of cells covered by a precedent block
+ * @param precedent - Block of cells
+ * @returns Cell count
+ */
+const area = ({ start, end }: Precedent): number =>
+  (end.row - start.row + 1) * (end.col - start.col + 1);
+
+// ============================================================================
+// GRAPH CONSTRUCTION
+// ============================================================================
+
+/**
+ * Collect every cell and range a formula reads
+ * Range corners are normalized so start is always the top-left
+ * @param node - Root node of the formula
+ * @param resolveName - Looks up named ranges, so a name counts as the cells it refers to
+ * @returns Blocks of cells the formula depends on
+ */
+export const collectPrecedents = (node: FormulaNode, resolveName?: NameResolver): Precedent[] => {
+  const precedents: Precedent[] = [];
+
+  const visit = (current: FormulaNode) => {
+    switch (current.type) {
+      case 'reference':
+        precedents.push({ start: current.address, end: current.address });
+        break;
+      case 'range':
+        precedents.push({
+          start: {
+            row: Math.min(current.start.row, current.end.row),
+            col: Math.min(current.start.col, current.end.col)
+          },
+          end: {
+            row: Math.max(current.start.row, current.end.row),
+            col: Math.max(current.start.col, current.end.col)
+          }
+        });
+        break;
+      case 'name': {
+        const target = resolveName?.(current.name);
+        if (target) visit(target);
+        break;
+      }
+      case 'unary':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'call':
+        current.args.forEach(visit);
+        break;
+    }
+  };
+
+  visit(node);
+  return precedents;
+};
+
+/**
+ * Build the dependency graph for a set of formula cells
+ * @param formulas - Each formula cell's position and parsed formula
+ * @param resolveName - Looks up the named ranges formulas may use
+ * @returns Graph keyed by "row,col"
+ */
+export const buildDependencyGraph = (
+  formulas: { address: CellAddress; node: FormulaNode }[],
+  resolveName?: NameResolver
+): DependencyGraph => {
+  const graph: DependencyGraph = new Map();
+  formulas.forEach(({ address, node }) => {
+    graph.set(addressKey(address), { address, precedents: collectPrecedents(node, resolveName) });
+  });
+  return graph;
+};
+
+// ============================================================================
+// GRAPH QUERIES
+// ============================================================================
+
+/**
+ * Find the formula cells a formula reads directly, limited to a candidate set
+ * Walks whichever is smaller: the cells in each precedent block or the candidates
+ * @param graph - Dependency graph
+ * @param key - Formula cell to inspect
+ * @param candidates - Formula cells to consider
+ * @returns Keys of candidate cells the formula reads
+ */
+const directPrecedentFormulas = (graph: DependencyGraph, key: string, candidates: Set<string>): string[] => {
+  const found = new Set<string>();
+  graph.get(key)?.precedents.forEach(precedent => {
+    if (area(precedent) <= candidates.size) {
+      for (let row = precedent.start.row; row <= precedent.end.row; row++) {
+        for (let col = precedent.start.col; col <= precedent.end.col; col++) {
+          const candidate = addressKey({ row, col });
+          if (candidates.has(candidate)) found.add(candidate);
+        }
+      }
+    } else {
+      candidates.forEach(candidate => {
+        const entry = graph.get(candidate);
+        if (entry && contains(precedent, entry.address)) found.add(candidate);
+      });
+    }
+  });
+  return Array.from(found);
+};
+
+/**
+ * Find every formula cell affected by a change, directly or through other formulas
+ * Changed cells that are themselves formulas are included
+ * @param graph - Dependency graph
+ * @param changed - Cells whose values changed
+ * @returns Keys of all formula cells that need recalculating
+ */
+export const findDependents = (graph: DependencyGraph, changed: CellAddress[]): Set<string> => {
+  const affected = new Set<string>();
+  const queue: CellAddress[] = [];
+
+  changed.forEach(address => {
+    const key = addressKey(address);
+    if (graph.has(key) && !affected.has(key)) {
+      affected.add(key);
+    }
+    queue.push(address);
+  });
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    graph.forEach((entry, key) => {
+      if (affected.has(key)) return;
+      if (entry.precedents.some(precedent => contains(precedent, current))) {
+        affected.add(key);
+        queue.push(entry.address);
+      }
+    });
+  }
+
+  return affected;
+};
+
+/**
+ * Order formula cells so every cell comes after the formulas it reads (Kahn's algorithm)
+ * Cells caught in a reference cycle can never be ordered and are returned separately
+ * @param graph - Dependency graph
+ * @param keys - Formula cells to order
+ * @returns Evaluation order, plus the cells left over because of cycles
+ */
+export const sortTopologically = (
+  graph: DependencyGraph,
+  keys: Set<string>
+): { order: string[]; cyclic: string[] } => {
+  const remaining = new Map<string, number>();
+  const dependents = new Map<string, string[]>();
+
+  keys.forEach(key => {
+    const precedents = directPrecedentFormulas(graph, key, keys);
+    remaining.set(key, precedents.length);
+    precedents.forEach(precedent => {
+      dependents.set(precedent, [...(dependents.get(precedent) ?? []), key]);
+    });
+  });
+
+  const ready = Array.from(keys).filter(key => remaining.get(key) === 0);
+  const order: string[] = [];
+
+  while (ready.length > 0) {
+    const key = ready.shift()!;
+    order.push(key);
+    dependents.get(key)?.forEach(dependent => {
+      const count = remaining.get(dependent)! - 1;
+      remaining.set(dependent, count);
+      if (count === 0) ready.push(dependent);
+    });
+  }
+
+  const ordered = new Set(order);
+  return { order, cyclic: Array.from(keys).filter(key => !ordered.has(key)) };
+};
+
+/**
+ * Find the reference cycles among a set of formula cells
+ * Uses Tarjan's strongly connected components; each cycle is reported once as
+ * a closed path starting and ending at the same cell (e.g. B2 → C2 → B2)
+ * @param graph - Dependency graph
+ * @param keys - Formula cells to search, typically the `cyclic` output of sortTopologically
+ * @returns One path of cell keys per cycle
+ */
+export const findCycles = (graph: DependencyGraph, keys: Set<string>): string[][] => {
+  const edges = new Map(Array.from(keys).map(key => [key, directPrecedentFormulas(graph, key, keys)]));
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const connect = (key: string) => {
+    index.set(key, index.size);
+    lowLink.set(key, index.get(key)!);
+    stack.push(key);
+    onStack.add(key);
+
+    edges.get(key)!.forEach(next => {
+      if (!index.has(next)) {
+        connect(next);
+        lowLink.set(key, Math.min(lowLink.get(key)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(key, Math.min(lowLink.get(key)!, index.get(next)!));
+      }
+    });
+
+    if (lowLink.get(key) === index.get(key)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== key);
+      components.push(component);
+    }
+  };
+
+  keys.forEach(key => {
+    if (!index.has(key)) connect(key);
+  });
+
+  return components
+    .filter(component => component.length > 1 || edges.get(component[0])!.includes(component[0]))
+    .map(component => {
+      // Breadth-first search for the shortest way back to the first member
+      const members = new Set(component);
+      const start = component[component.length - 1];
+      const previous = new Map<string, string>();
+      const queue = [start];
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const next of edges.get(current)!) {
+          if (next === start) {
+            const path = [current];
+            while (path[0] !== start) path.unshift(previous.get(path[0])!);
+            return [...path, start];
+          }
+          if (members.has(next) && !previous.has(next)) {
+            previous.set(next, current);
+            queue.push(next);
+          }
+        }
+      }
+      return [start, start];
+    });
+};
@@ -0,0 +1,279 @@
+import { FormulaError } from './errors';
+import { FormulaFunction, FunctionReturnType, findFunction, listFunctions } from './functions';
+import type { NamedRange, NameResolver } from './names';
+import { CellAddress, parseCellReference } from './references';
+import { Token, tokenize } from './tokenizer';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A cell or range mentioned in formula text, for highlighting while editing
+ * @property start - Top-left corner of the block it covers
+ * @property end - Bottom-right corner (the same as start for a single cell)
+ * @property position - Offset of its text in the formula, counting the leading "="
+ * @property length - Length of its text (e.g. 5 for "B2:B4")
+ */
+export type FormulaReference = { start: CellAddress; end: CellAddress; position: number; length: number };
+
+/**
+ * Something that can complete the word being typed in a formula
+ * @property kind - A function, a named range or a column of the grid
+ * @property label - Text shown in the list (e.g. "SUMIF" or a column's header)
+ * @property insertText - Text that replaces the word (e.g. "SUMIF(" or "B2:B12")
+ * @property detail - What it is: a function's description, or the cells it stands for
+ */
+export type FormulaCompletion = {
+  kind: 'function' | 'name' | 'column';
+  label: string;
+  insertText: string;
+  detail: string;
+};
+
+/**
+ * Workbook-specific things that can be completed besides functions
+ * @property names - Named ranges
+ * @property columns - Column headers and the range of values under each (e.g. "B2:B12")
+ */
+export type CompletionSources = {
+  names: NamedRange[];
+  columns: { name: string; reference: string }[];
+};
+
+/**
+ * Completions for the word before the caret
+ * @property start - Offset of the word in the formula, counting the leading "="
+ * @property completions - Matching functions, names and columns
+ */
+export type FormulaCompletions = { start: number; completions: FormulaCompletion[] };
+
+/**
+ * Signature help for the function call the caret is in
+ * @property name - Function name (e.g. "SUMIF")
+ * @property description - What the function does
+ * @property args - Argument labels, optional ones in brackets (e.g. ["range", "criteria", "[sum_range]"])
+ * @property activeArgument - Index in args of the argument being typed, or -1 when there is none
+ * @property returns - Kind of value the function returns, when it declares one
+ */
+export type SignatureHelp = {
+  name: string;
+  description: string;
+  args: string[];
+  activeArgument: number;
+  returns?: FunctionReturnType;
+};
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Text before the caret that a reference can follow: "=", "(", ",", ":" or an operator */
+const INSERTION_POINT_PATTERN = /[=(,:+\-*/^&<>]\s*$/;
+
+/** Word being typed at the end of text: a function or name, possibly unfinished */
+const WORD_BEFORE_CARET_PATTERN = /[A-Za-z_][A-Za-z0-9_.]*$/;
+
+/** Order of completion kinds in the list: the workbook's own names before built-ins */
+const COMPLETION_ORDER: FormulaCompletion['kind'][] = ['name', 'column', 'function'];
+
+// ============================================================================
+// REFERENCES
+// ============================================================================
+
+/**
+ * Find the cells and ranges a formula mentions, in the order they appear
+ * Works on unfinished formulas, so references can be highlighted while typing
+ * @param formula - Formula text including the leading "="
+ * @param resolveName - Looks up named ranges, so names are highlighted as their cells
+ * @returns The references found (none when the text is not a formula or cannot be tokenized)
+ */
+export const findFormulaReferences = (formula: string, resolveName?: NameResolver): FormulaReference[] => {
+  if (!formula.startsWith('=')) return [];
+  let tokens: Token[];
+  try {
+    tokens = tokenize(formula.slice(1));
+  } catch (error) {
+    if (error instanceof FormulaError) return [];
+    throw error;
+  }
+
+  const references: FormulaReference[] = [];
+  const add = (start: CellAddress, end: CellAddress, first: Token, last: Token) => {
+    references.push({
+      start: { row: Math.min(start.row, end.row), col: Math.min(start.col, end.col) },
+      end: { row: Math.max(start.row, end.row), col: Math.max(start.col, end.col) },
+      position: first.position + 1,
+      length: last.position + last.value.length - first.position
+    });
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'reference') {
+      const start = parseCellReference(token.value)!;
+      const end = tokens[i + 1]?.type === 'colon' && tokens[i + 2]?.type === 'reference' ? tokens[i + 2] : null;
+      add(start, end ? parseCellReference(end.value)! : start, token, end ?? token);
+      if (end) i += 2;
+    } else if (token.type === 'identifier' && tokens[i + 1]?.type !== 'lparen') {
+      const target = resolveName?.(token.value);
+      if (target?.type === 'reference') add(target.address, target.address, token, token);
+      if (target?.type === 'range') add(target.start, target.end, token, token);
+    }
+  }
+  return references;
+};
+
+/**
+ * Check whether a reference can be inserted at a position in formula text
+ * True right after "=", "(", ",", ":" or an operator, outside string literals;
+ * this is where clicking a cell while editing inserts its reference
+ * @param formula - Formula text including the leading "="
+ * @param caret - Position in the text
+ */
+export const isReferenceInsertionPoint = (formula: string, caret: number): boolean => {
+  if (!formula.startsWith('=')) return false;
+  const before = formula.slice(0, caret);
+  const insideString = (before.match(/"/g)?.length ?? 0) % 2 === 1;
+  return !insideString && INSERTION_POINT_PATTERN.test(before);
+};
+
+// ============================================================================
+// COMPLETIONS
+// ============================================================================
+
+/**
+ * Find what can complete the word before the caret
+ * Completions are offered where a reference could go, and right after the "="
+ * even before anything is typed
+ * @param formula - Formula text including the leading "="
+ * @param caret - Position in the text
+ * @param sources - Named ranges and columns to offer besides functions
+ * @returns The word's position and its completions (case-insensitive prefix matches),
+ *   or null when the caret is not at a word that can be completed
+ */
+export const findCompletions = (
+  formula: string,
+  caret: number,
+  sources: CompletionSources
+): FormulaCompletions | null => {
+  if (!formula.startsWith('=')) return null;
+  const word = formula.slice(0, caret).match(WORD_BEFORE_CARET_PATTERN)?.[0] ?? '';
+  const start = caret - word.length;
+  if (word === '' ? start !== 1 : !isReferenceInsertionPoint(formula, start)) return null;
+
+  const prefix = word.toUpperCase();
+  const candidates: FormulaCompletion[] = [
+    ...Object.entries(listFunctions()).map(([name, fn]) => ({
+      kind: 'function' as const,
+      label: name,
+      insertText: `${name}(`,
+      detail: fn.description
+    })),
+    ...sources.names.map(({ name, reference }) => ({
+      kind: 'name' as const,
+      label: name,
+      insertText: name,
+      detail: `Named range ${reference}`
+    })),
+    ...sources.columns.map(({ name, reference }) => ({
+      kind: 'column' as const,
+      label: name,
+      insertText: reference,
+      detail: `Column values ${reference}`
+    }))
+  ];
+
+  const completions = candidates
+    // A word that is already complete has nothing left to offer
+    .filter(({ label, insertText }) =>
+      label.toUpperCase().startsWith(prefix) && insertText.toUpperCase() !== prefix
+    )
+    .sort((a, b) =>
+      COMPLETION_ORDER.indexOf(a.kind) - COMPLETION_ORDER.indexOf(b.kind) || a.label.localeCompare(b.label)
+    );
+  return { start, completions };
+};
+
+// ============================================================================
+// SIGNATURE HELP
+// ============================================================================
+
+/**
+ * Argument labels for a function's signature, Excel-style: optional arguments in
+ * brackets, and repeating ones numbered and followed by "..."
+ * @param fn - Function to describe
+ * @returns The labels (e.g. ["number1", "[number2]", "..."] for SUM)
+ */
+const formatArguments = (fn: FormulaFunction): string[] => {
+  const label = (arg: string, i: number) => (i < fn.minArgs ? arg : `[${arg}]`);
+  if (fn.maxArgs !== undefined) return fn.args.map(label);
+
+  const fixed = fn.args.length - (fn.repeats ?? 1);
+  const repeated = fn.args.slice(fixed);
+  const again = repeated.map(arg => `${arg}2`);
+  again[0] = `[${again[0]}`;
+  again[again.length - 1] += ']';
+  return [...fn.args.slice(0, fixed).map(label), ...repeated.map((arg, i) => label(`${arg}1`, fixed + i)), ...again, '...'];
+};
+
+/**
+ * Which label an argument of a call belongs to
+ * Arguments past the first repetition all map onto the second, bracketed one
+ * @param fn - Function being called
+ * @param index - Zero-based argument index in the call
+ * @returns Index into the labels from formatArguments, or -1 if the function takes no such argument
+ */
+const getArgumentLabelIndex = (fn: FormulaFunction, index: number): number => {
+  if (fn.maxArgs !== undefined) return index < fn.args.length ? index : -1;
+  const repeats = fn.repeats ?? 1;
+  const fixed = fn.args.length - repeats;
+  return index < fn.args.length ? index : fn.args.length + ((index - fixed) % repeats);
+};
+
+/**
+ * Describe the innermost function call the caret is inside, for signature help
+ * Works on unfinished formulas, including inside an unclosed string argument
+ * @param formula - Formula text including the leading "="
+ * @param caret - Position in the text
+ * @returns The call's signature with the argument being typed, or null outside
+ *   any call to a known function
+ */
+export const getSignatureHelp = (formula: string, caret: number): SignatureHelp | null => {
+  if (!formula.startsWith('=')) return null;
+  let before = formula.slice(1, caret);
+  // Close a string that is still being typed, so what comes before it can be read
+  if ((before.match(/"/g)?.length ?? 0) % 2 === 1) before += '"';
+  let tokens: Token[];
+  try {
+    tokens = tokenize(before);
+  } catch (error) {
+    if (error instanceof FormulaError) return null;
+    throw error;
+  }
+
+  // One entry per open parenthesis: the function it calls (if any) and the argument reached
+  const calls: { name: string | null; argument: number }[] = [];
+  tokens.forEach((token, i) => {
+    if (token.type === 'lparen') {
+      const previous = tokens[i - 1];
+      calls.push({ name: previous?.type === 'identifier' ? previous.value.toUpperCase() : null, argument: 0 });
+    } else if (token.type === 'comma' && calls.length > 0) {
+      calls[calls.length - 1].argument++;
+    } else if (token.type === 'rparen') {
+      calls.pop();
+    }
+  });
+
+  // Parentheses that only group belong to the call around them
+  const call = calls.reverse().find(({ name }) => name !== null);
+  const fn = call?.name ? findFunction(call.name) : undefined;
+  if (!call?.name || !fn) return null;
+  return {
+    name: call.name,
+    description: fn.description,
+    args: formatArguments(fn),
+    activeArgument: getArgumentLabelIndex(fn, call.argument),
+    returns: fn.returns
+  };
+};
@@ -0,0 +1,62 @@
+import { CellAddress } from './references';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Spreadsheet error values
+ * - #DIV/0!: division by zero
+ * - #REF!: reference to a cell that no longer exists
+ * - #NAME?: unknown function or name
+ * - #VALUE!: wrong type of argument (e.g. text where a number is needed)
+ * - #NUM!: number out of range or a calculation that does not converge
+ * - #N/A: value not available (e.g. a lookup with no match)
+ * - #CIRC!: the cell is part of a reference cycle
+ * - #SPILL!: a multi-cell result has no room to spill into
+ * - #ERROR!: the formula could not be parsed
+ */
+export type ErrorCode =
+  '#DIV/0!' | '#REF!' | '#NAME?' | '#VALUE!' | '#NUM!' | '#N/A' | '#CIRC!' | '#SPILL!' | '#ERROR!';
+
+/** Every error code, for recognizing error values stored in cells */
+export const ERROR_CODES: readonly ErrorCode[] = [
+  '#DIV/0!', '#REF!', '#NAME?', '#VALUE!', '#NUM!', '#N/A', '#CIRC!', '#SPILL!', '#ERROR!'
+];
+
+/** Error value shown in cells that are part of a reference cycle */
+export const CIRCULAR_REFERENCE: ErrorCode = '#CIRC!';
+
+/** Error value shown in formula cells whose multi-cell result is blocked */
+export const SPILL_BLOCKED: ErrorCode = '#SPILL!';
+
+// ============================================================================
+// ERROR VALUE
+// ============================================================================
+
+/**
+ * A spreadsheet error, used both as a value and as an exception
+ * Reading a cell that holds an error yields one as a value; operators and
+ * most functions throw it as soon as they try to use it, which is how errors
+ * propagate up to the formula's cell
+ * @property code - Error value shown in the cell (e.g. "#DIV/0!")
+ * @property source - Cell the error started in, when it came from another cell
+ */
+export class FormulaError extends Error {
+  readonly code: ErrorCode;
+  readonly source?: CellAddress;
+
+  constructor(code: ErrorCode, message: string, source?: CellAddress) {
+    super(message);
+    this.name = 'FormulaError';
+    this.code = code;
+    this.source = source;
+  }
+}
+
+/**
+ * Check whether a value is an error code (e.g. a cell showing "#DIV/0!")
+ * @param value - Value to check
+ */
+export const isErrorCode = (value: unknown): value is ErrorCode =>
+  typeof value === 'string' && (ERROR_CODES as readonly string[]).includes(value);
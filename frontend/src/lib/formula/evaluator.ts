@@ -0,0 +1,287 @@
+import { DateValue } from './calendar';
+import { FormulaError } from './errors';
+import { getFunction } from './functions';
+import type { NameResolver } from './names';
+import { BinaryOperator, FormulaNode, UnaryOperator } from './parser';
+import { CellAddress } from './references';
+import {
+  CellValue,
+  FormulaValue,
+  RangeValue,
+  compareValues,
+  isDate,
+  isError,
+  isRange,
+  toNumber,
+  toRange,
+  toScalar,
+  toText
+} from './values';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Everything the evaluator needs from the host spreadsheet
+ * @property getCellValue - Current value of a cell (null for blank or out-of-bounds
+ *   cells, a FormulaError for cells showing an error)
+ * @property resolveName - Looks up named ranges; without it every name is #NAME?
+ */
+export type EvaluationContext = {
+  getCellValue: (address: CellAddress) => CellValue;
+  resolveName?: NameResolver;
+};
+
+// ============================================================================
+// RANGE RESOLUTION
+// ============================================================================
+
+/**
+ * Get all cell values in a rectangular range, preserving its 2-D shape
+ * Handles reversed corners (e.g. B3:A1)
+ * @param start - One corner of the range
+ * @param end - The opposite corner
+ * @param context - Evaluation context providing cell values
+ * @returns Values indexed [row][col] from the top-left corner
+ */
+export const getCellsInRange = (start: CellAddress, end: CellAddress, context: EvaluationContext): RangeValue => {
+  const minRow = Math.min(start.row, end.row);
+  const maxRow = Math.max(start.row, end.row);
+  const minCol = Math.min(start.col, end.col);
+  const maxCol = Math.max(start.col, end.col);
+
+  const values: RangeValue = [];
+  for (let row = minRow; row <= maxRow; row++) {
+    const rowValues: CellValue[] = [];
+    for (let col = minCol; col <= maxCol; col++) {
+      rowValues.push(context.getCellValue({ row, col }));
+    }
+    values.push(rowValues);
+  }
+  return values;
+};
+
+// ============================================================================
+// OPERATORS
+// ============================================================================
+
+/**
+ * Apply an operator to every value of its operands when any of them is a range
+ * Operands are paired by position; a single value, row or column is repeated to
+ * match the other operand, and positions only one operand has are #N/A. Each
+ * position fails on its own, so one bad cell does not fail the whole result
+ * (=B2:B5*2 gives four values, =E2:E12>100 a column of TRUE/FALSE)
+ * @param operands - Evaluated operands
+ * @param apply - Operator applied to single values
+ * @returns A range if any operand is a range, otherwise the single result
+ */
+const applyElementWise = (operands: FormulaValue[], apply: (values: CellValue[]) => CellValue): FormulaValue => {
+  if (!operands.some(isRange)) return apply(operands as CellValue[]);
+
+  const ranges = operands.map(toRange);
+  const rows = Math.max(...ranges.map(range => range.length));
+  const cols = Math.max(...ranges.map(range => range[0]?.length ?? 0));
+  const valueAt = (range: RangeValue, row: number, col: number): CellValue => {
+    const cells = range.length === 1 ? range[0] : range[row];
+    const value = cells?.length === 1 ? cells[0] : cells?.[col];
+    return value === undefined ? new FormulaError('#N/A', 'The ranges are different sizes') : value;
+  };
+
+  return Array.from({ length: rows }, (_, row) => Array.from({ length: cols }, (_, col) => {
+    try {
+      return apply(ranges.map(range => valueAt(range, row, col)));
+    } catch (error) {
+      if (error instanceof FormulaError) return error;
+      throw error;
+    }
+  }));
+};
+
+/**
+ * Apply a unary operator to an evaluated operand
+ * @param operator - Operator to apply
+ * @param value - Operand
+ * @returns The operator's result
+ */
+const applyUnary = (operator: UnaryOperator, value: CellValue): CellValue => {
+  const operand = toNumber(value);
+  if (operator === '-') return -operand;
+  if (operator === '%') return operand / 100;
+  return operand;
+};
+
+/**
+ * Apply a binary operator to two evaluated operands
+ * Adding days to a date, or subtracting them, gives a date; the difference
+ * of two dates is a number of days
+ * @param operator - Operator to apply
+ * @param leftValue - Left operand
+ * @param rightValue - Right operand
+ * @returns The operator's result
+ */
+const applyBinary = (operator: BinaryOperator, leftValue: CellValue, rightValue: CellValue): CellValue => {
+  switch (operator) {
+    case '+': {
+      const sum = toNumber(leftValue) + toNumber(rightValue);
+      return isDate(leftValue) !== isDate(rightValue) ? new DateValue(sum) : sum;
+    }
+    case '-': {
+      const difference = toNumber(leftValue) - toNumber(rightValue);
+      return isDate(leftValue) && !isDate(rightValue) ? new DateValue(difference) : difference;
+    }
+    case '*':
+      return toNumber(leftValue) * toNumber(rightValue);
+    case '/': {
+      const divisor = toNumber(rightValue);
+      if (divisor === 0) {
+        throw new FormulaError('#DIV/0!', 'Division by zero');
+      }
+      return toNumber(leftValue) / divisor;
+    }
+    case '^': {
+      const result = Math.pow(toNumber(leftValue), toNumber(rightValue));
+      if (!isFinite(result)) {
+        throw new FormulaError('#NUM!', 'Result is not a finite number');
+      }
+      return result;
+    }
+    case '&':
+      return toText(leftValue) + toText(rightValue);
+    default: {
+      const comparison = compareValues(leftValue, rightValue);
+      switch (operator) {
+        case '=': return comparison === 0;
+        case '<>': return comparison !== 0;
+        case '<': return comparison < 0;
+        case '>': return comparison > 0;
+        case '<=': return comparison <= 0;
+        case '>=': return comparison >= 0;
+      }
+    }
+  }
+};
+
+// ============================================================================
+// EVALUATOR
+// ============================================================================
+
+/**
+ * Evaluate an AST node
+ * Range nodes, operators applied to ranges and array functions (SORT, FILTER,
+ * ...) evaluate to 2-D arrays; everything else to a single value
+ * @param node - Node to evaluate
+ * @param context - Evaluation context providing cell values
+ * @returns The node's value
+ * @throws FormulaError when the formula cannot be computed
+ */
+export const evaluateNode = (node: FormulaNode, context: EvaluationContext): FormulaValue => {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+
+    case 'error':
+      return new FormulaError(
+        node.code,
+        node.code === '#REF!' ? 'The formula refers to a cell that was deleted' : `The formula contains ${node.code}`
+      );
+
+    case 'reference':
+      return context.getCellValue(node.address);
+
+    case 'range':
+      return getCellsInRange(node.start, node.end, context);
+
+    case 'name': {
+      const target = context.resolveName?.(node.name);
+      if (!target) {
+        throw new FormulaError('#NAME?', `Unknown name "${node.name}"`);
+      }
+      return evaluateNode(target, context);
+    }
+
+    case 'unary':
+      return applyElementWise(
+        [evaluateNode(node.operand, context)],
+        ([value]) => applyUnary(node.operator, value)
+      );
+
+    case 'binary':
+      return applyElementWise(
+        [evaluateNode(node.left, context), evaluateNode(node.right, context)],
+        ([left, right]) => applyBinary(node.operator, left, right)
+      );
+
+    case 'call': {
+      const fn = getFunction(node.name, node.args.length);
+      const args = node.args.map(arg => evaluateArgument(arg, context));
+      if (!fn.acceptsErrors) {
+        const error = args.find(isError);
+        if (error) throw error;
+      }
+      return fn.evaluate(args);
+    }
+  }
+};
+
+/**
+ * Evaluate a function argument, turning a failure into an error value
+ * so functions like IFERROR can inspect it
+ * @param node - Argument node
+ * @param context - Evaluation context providing cell values
+ * @returns The argument's value, or the error it failed with
+ */
+const evaluateArgument = (node: FormulaNode, context: EvaluationContext): FormulaValue => {
+  try {
+    return evaluateNode(node, context);
+  } catch (error) {
+    if (error instanceof FormulaError) return error;
+    throw error;
+  }
+};
+
+/**
+ * Evaluate a parsed formula to the single value shown in its cell
+ * @param node - Root node of the formula
+ * @param context - Evaluation context providing cell values
+ * @returns The result, or the FormulaError explaining why it cannot be computed
+ */
+export const evaluateFormulaNode = (node: FormulaNode, context: EvaluationContext): CellValue => {
+  try {
+    const result = toScalar(evaluateNode(node, context));
+    // A formula pointing at a blank cell shows 0, like other spreadsheets
+    return result === null ? 0 : result;
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      return error;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Evaluate a parsed formula, keeping a multi-cell result whole so it can spill
+ * into the cells below and to the right of the formula
+ * Blank values show 0, as in evaluateFormulaNode; 1x1 results are single values
+ * @param node - Root node of the formula
+ * @param context - Evaluation context providing cell values
+ * @returns The single result or the array of results, or the FormulaError
+ *   explaining why the formula cannot be computed
+ */
+export const evaluateArrayFormulaNode = (node: FormulaNode, context: EvaluationContext): CellValue | RangeValue => {
+  try {
+    const result = evaluateNode(node, context);
+    if (isRange(result) && (result.length > 1 || result[0]?.length > 1)) {
+      return result.map(row => row.map(value => value ?? 0));
+    }
+    const scalar = toScalar(result);
+    return scalar === null ? 0 : scalar;
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      return error;
+    }
+    throw error;
+  }
+};
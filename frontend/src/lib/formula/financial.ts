@@ -0,0 +1,265 @@
+import { FormulaError } from './errors';
+import type { FormulaFunction } from './functions';
+import { CellValue, FormulaValue, collectNumbers, isError, numericValue, toNumber, toRange } from './values';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Iterations the solvers try before giving up with #NUM! */
+const MAX_ITERATIONS = 100;
+
+/** How close to zero a solver's function must get to count as solved */
+const TOLERANCE = 1e-10;
+
+/** Days per year used by XNPV to turn date differences into periods */
+const DAYS_PER_YEAR = 365;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check that a financial result is a usable number
+ * @param value - Computed result
+ * @param name - Function name, for error messages
+ * @returns The value
+ * @throws FormulaError (#NUM!) for infinite or undefined results
+ */
+const finite = (value: number, name: string): number => {
+  if (!isFinite(value)) {
+    throw new FormulaError('#NUM!', `${name} has no finite result for these arguments`);
+  }
+  return value;
+};
+
+/**
+ * Find the rate at which a function of the rate is zero, using Newton's method
+ * The rate never drops to -100% or below, where growth factors stop making sense
+ * @param f - Function of the rate to solve
+ * @param guess - Starting rate
+ * @param name - Function name, for error messages
+ * @returns The rate
+ * @throws FormulaError (#NUM!) if the solver does not converge
+ */
+const solveRate = (f: (rate: number) => number, guess: number, name: string): number => {
+  const step = 1e-6;
+  let rate = guess;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const value = f(rate);
+    if (Math.abs(value) < TOLERANCE) return rate;
+
+    const slope = (f(rate + step) - f(rate - step)) / (2 * step);
+    if (!isFinite(value) || !isFinite(slope) || slope === 0) break;
+
+    const next = rate - value / slope;
+    if (next <= -1) {
+      // Step back halfway towards -100% instead; these steps never count as converging
+      rate = (rate - 1) / 2;
+      continue;
+    }
+    if (Math.abs(next - rate) < TOLERANCE) return next;
+    rate = next;
+  }
+  throw new FormulaError('#NUM!', `${name} did not converge; try a different guess`);
+};
+
+/**
+ * Net present value of cash flows at whole-period intervals
+ * @param rate - Discount rate per period
+ * @param values - Cash flows, the first one discounted by one period
+ */
+const presentValue = (rate: number, values: number[]): number =>
+  values.reduce((total, value, i) => total + value / Math.pow(1 + rate, i + 1), 0);
+
+/**
+ * Value of an annuity: present value, payments and future value combined
+ * Zero when the arguments balance, which is what RATE solves for
+ * @param rate - Interest rate per period
+ * @param nper - Number of periods
+ * @param pmt - Payment per period
+ * @param pv - Present value
+ * @param fv - Future value
+ * @param type - 1 when payments are due at the start of each period, 0 at the end
+ */
+const annuityBalance = (rate: number, nper: number, pmt: number, pv: number, fv: number, type: number): number => {
+  if (rate === 0) return pv + pmt * nper + fv;
+  const growth = Math.pow(1 + rate, nper);
+  return pv * growth + pmt * (1 + rate * type) * (growth - 1) / rate + fv;
+};
+
+/**
+ * Check that cash flows can have an internal rate of return
+ * @param values - Cash flows
+ * @param name - Function name, for error messages
+ * @throws FormulaError (#NUM!) unless there is at least one payment and one receipt
+ */
+const checkCashFlows = (values: number[], name: string): void => {
+  if (!values.some(value => value > 0) || !values.some(value => value < 0)) {
+    throw new FormulaError('#NUM!', `${name} needs at least one positive and one negative cash flow`);
+  }
+};
+
+/**
+ * Read an optional argument as a number
+ * @param value - Evaluated argument, undefined when omitted
+ * @param fallback - Value used when the argument is omitted
+ */
+const optionalNumber = (value: FormulaValue | undefined, fallback: number): number =>
+  value === undefined ? fallback : toNumber(value);
+
+// ============================================================================
+// FUNCTIONS
+// ============================================================================
+
+/**
+ * Financial functions, keyed by upper-case name
+ * Rates are per period and cash flows follow the spreadsheet sign convention:
+ * money paid out is negative, money received is positive
+ */
+export const FINANCIAL_FUNCTIONS: Record<string, FormulaFunction> = {
+  NPV: {
+    description: 'Net present value of periodic cash flows at a discount rate',
+    args: ['rate', 'value'],
+    minArgs: 2,
+    evaluate: ([rate, ...values]) => finite(presentValue(toNumber(rate), collectNumbers(values)), 'NPV')
+  },
+
+  XNPV: {
+    description: 'Net present value of cash flows on the given dates',
+    args: ['rate', 'values', 'dates'],
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: ([rate, valuesArg, datesArg]) => {
+      const r = toNumber(rate);
+      const values = collectNumbers([valuesArg]);
+      const dates = collectNumbers([datesArg]);
+      if (values.length === 0 || values.length !== dates.length) {
+        throw new FormulaError('#NUM!', 'XNPV needs one date for every cash flow');
+      }
+      if (dates.some(date => date < dates[0])) {
+        throw new FormulaError('#NUM!', 'XNPV dates cannot precede the first date');
+      }
+      const total = values.reduce(
+        (sum, value, i) => sum + value / Math.pow(1 + r, (dates[i] - dates[0]) / DAYS_PER_YEAR),
+        0
+      );
+      return finite(total, 'XNPV');
+    }
+  },
+
+  IRR: {
+    description: 'Internal rate of return of periodic cash flows',
+    args: ['values', 'guess'],
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate: ([valuesArg, guess]) => {
+      const values = collectNumbers([valuesArg]);
+      checkCashFlows(values, 'IRR');
+      // IRR discounts the first cash flow by zero periods, unlike NPV
+      return solveRate(rate => values[0] + presentValue(rate, values.slice(1)), optionalNumber(guess, 0.1), 'IRR');
+    }
+  },
+
+  PMT: {
+    description: 'Payment per period of a loan or investment',
+    args: ['rate', 'nper', 'pv', 'fv', 'type'],
+    minArgs: 3,
+    maxArgs: 5,
+    evaluate: ([rate, nper, pv, fv, type]) => {
+      const r = toNumber(rate);
+      const n = toNumber(nper);
+      const f = optionalNumber(fv, 0);
+      const t = optionalNumber(type, 0) ? 1 : 0;
+      if (r === 0) return finite(-(toNumber(pv) + f) / n, 'PMT');
+      const growth = Math.pow(1 + r, n);
+      return finite(-r * (toNumber(pv) * growth + f) / ((1 + r * t) * (growth - 1)), 'PMT');
+    }
+  },
+
+  FV: {
+    description: 'Future value of an investment',
+    args: ['rate', 'nper', 'pmt', 'pv', 'type'],
+    minArgs: 3,
+    maxArgs: 5,
+    evaluate: ([rate, nper, pmt, pv, type]) => {
+      const t = optionalNumber(type, 0) ? 1 : 0;
+      // The future value is whatever balances the annuity when fv is zero
+      return finite(-annuityBalance(toNumber(rate), toNumber(nper), toNumber(pmt), optionalNumber(pv, 0), 0, t), 'FV');
+    }
+  },
+
+  PV: {
+    description: 'Present value of an investment',
+    args: ['rate', 'nper', 'pmt', 'fv', 'type'],
+    minArgs: 3,
+    maxArgs: 5,
+    evaluate: ([rate, nper, pmt, fv, type]) => {
+      const r = toNumber(rate);
+      const n = toNumber(nper);
+      const t = optionalNumber(type, 0) ? 1 : 0;
+      const unpaid = annuityBalance(r, n, toNumber(pmt), 0, optionalNumber(fv, 0), t);
+      return finite(-unpaid / Math.pow(1 + r, n), 'PV');
+    }
+  },
+
+  RATE: {
+    description: 'Interest rate per period of a loan or investment',
+    args: ['nper', 'pmt', 'pv', 'fv', 'type', 'guess'],
+    minArgs: 3,
+    maxArgs: 6,
+    evaluate: ([nper, pmt, pv, fv, type, guess]) => {
+      const n = toNumber(nper);
+      const p = toNumber(pmt);
+      const present = toNumber(pv);
+      const f = optionalNumber(fv, 0);
+      const t = optionalNumber(type, 0) ? 1 : 0;
+      if (n <= 0) {
+        throw new FormulaError('#NUM!', 'RATE needs a positive number of periods');
+      }
+      return solveRate(rate => annuityBalance(rate, n, p, present, f, t), optionalNumber(guess, 0.1), 'RATE');
+    }
+  },
+
+  RRI: {
+    description: 'Equivalent growth rate per period for an investment to grow from pv to fv',
+    args: ['nper', 'pv', 'fv'],
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: ([nper, pv, fv]) => {
+      const n = toNumber(nper);
+      const start = toNumber(pv);
+      if (n <= 0 || start === 0) {
+        throw new FormulaError('#NUM!', 'RRI needs a positive number of periods and a non-zero start value');
+      }
+      return finite(Math.pow(toNumber(fv) / start, 1 / n) - 1, 'RRI');
+    }
+  },
+
+  CAGR: {
+    description: 'Compound annual growth rate from the first to the last number in a row or column',
+    args: ['range'],
+    minArgs: 1,
+    maxArgs: 1,
+    // =CAGR(B2:E2): growth per period from the first to the last number in a
+    // row or column, counting one period per cell between them
+    evaluate: ([range]) => {
+      const cells = toRange(range).flat();
+      const isNumber = (value: CellValue) => numericValue(value) !== null;
+      const first = cells.findIndex(isNumber);
+      const last = cells.length - 1 - [...cells].reverse().findIndex(isNumber);
+      const error = cells.find(isError);
+      if (error) throw error;
+      if (first === -1 || last === first) {
+        throw new FormulaError('#NUM!', 'CAGR needs numbers in at least two cells');
+      }
+
+      const start = numericValue(cells[first])!;
+      const end = numericValue(cells[last])!;
+      if (start === 0) {
+        throw new FormulaError('#NUM!', 'CAGR needs a non-zero first value');
+      }
+      return finite(Math.pow(end / start, 1 / (last - first)) - 1, 'CAGR');
+    }
+  }
+};
@@ -0,0 +1,389 @@
+import { ARRAY_FUNCTIONS } from './arrays';
+import { DateValue } from './calendar';
+import { CONDITIONAL_FUNCTIONS } from './conditional';
+import { DATE_FUNCTIONS } from './dates';
+import { FormulaError } from './errors';
+import { FINANCIAL_FUNCTIONS } from './financial';
+import { LOOKUP_FUNCTIONS } from './lookup';
+import { STATISTICAL_FUNCTIONS } from './statistics';
+import { TEXT_FUNCTIONS } from './text';
+import {
+  FormulaValue,
+  collectNumbers,
+  compareValues,
+  isDate,
+  isError,
+  isRange,
+  numericValue,
+  toBoolean,
+  toRange,
+  toScalar
+} from './values';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Kind of value a function returns
+ * "date" results may be serial numbers, which are shown as dates; "array" results
+ * may be single values, which fill one cell
+ */
+export type FunctionReturnType = 'number' | 'text' | 'boolean' | 'date' | 'array' | 'any';
+
+/**
+ * A function callable from formulas
+ * Functions describe themselves, so autocomplete and signature help cover all of them
+ * @property description - What the function does, in one line
+ * @property args - Argument names in order; those from minArgs on are optional
+ * @property repeats - For functions without maxArgs, how many of the last arguments
+ *   can be given again (default 1, e.g. 2 for SUMIFS criteria_range/criteria pairs)
+ * @property minArgs - Minimum number of arguments
+ * @property maxArgs - Maximum number of arguments (omit for unlimited)
+ * @property acceptsErrors - Receive error arguments as values instead of failing with them
+ * @property volatile - Recalculate on every change, not just when the arguments change
+ *   (e.g. TODAY)
+ * @property returns - Kind of value returned; results of another kind become #VALUE!
+ * @property evaluate - Computes the result from the evaluated arguments
+ */
+export type FormulaFunction = {
+  description: string;
+  args: string[];
+  repeats?: number;
+  minArgs: number;
+  maxArgs?: number;
+  acceptsErrors?: boolean;
+  volatile?: boolean;
+  returns?: FunctionReturnType;
+  evaluate: (args: FormulaValue[]) => FormulaValue;
+};
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Function names: letters, digits, "_" and ".", starting with a letter or "_" (e.g. RUNRATE, FIRM.MARGIN) */
+const FUNCTION_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+// ============================================================================
+// ARGUMENT HELPERS
+// ============================================================================
+
+/**
+ * Collect the truth values from AND/OR arguments
+ * Ranges contribute their booleans and numbers and skip text and blanks;
+ * values passed directly must be convertible to TRUE/FALSE
+ * @param args - Evaluated arguments
+ * @returns All truth values in argument order
+ * @throws FormulaError when there is nothing to test, or the first error value found
+ */
+export const collectBooleans = (args: FormulaValue[]): boolean[] => {
+  const booleans: boolean[] = [];
+  args.forEach(arg => {
+    if (isRange(arg)) {
+      arg.forEach(row => row.forEach(value => {
+        if (isError(value)) throw value;
+        if (typeof value === 'boolean') booleans.push(value);
+        const number = numericValue(value);
+        if (number !== null) booleans.push(number !== 0);
+      }));
+    } else if (arg !== null) {
+      booleans.push(toBoolean(arg));
+    }
+  });
+  if (booleans.length === 0) {
+    throw new FormulaError('#VALUE!', 'No logical values to test');
+  }
+  return booleans;
+};
+
+// ============================================================================
+// FUNCTION REGISTRY
+// ============================================================================
+
+/**
+ * Built-in functions, keyed by upper-case name
+ */
+export const FUNCTIONS: Record<string, FormulaFunction> = {
+  SUM: {
+    description: 'Adds numbers and ranges',
+    args: ['number'],
+    minArgs: 1,
+    evaluate: args => collectNumbers(args).reduce((sum, n) => sum + n, 0)
+  },
+
+  AVERAGE: {
+    description: 'Returns the arithmetic mean of its numbers',
+    args: ['number'],
+    minArgs: 1,
+    evaluate: args => {
+      const numbers = collectNumbers(args);
+      if (numbers.length === 0) throw new FormulaError('#DIV/0!', 'No numbers to average');
+      return numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+    }
+  },
+
+  COUNT: {
+    description: 'Counts the cells and values that contain numbers',
+    args: ['value'],
+    minArgs: 1,
+    // Errors are not numbers, so COUNT skips them rather than failing
+    acceptsErrors: true,
+    evaluate: args => args.reduce<number>((count, arg) => {
+      if (isRange(arg)) {
+        return count + arg.flat().filter(value => numericValue(value) !== null).length;
+      }
+      return count + (numericValue(arg) !== null ? 1 : 0);
+    }, 0)
+  },
+
+  MAX: {
+    description: 'Returns the largest number',
+    args: ['number'],
+    minArgs: 1,
+    evaluate: args => {
+      const numbers = collectNumbers(args);
+      return numbers.length > 0 ? Math.max(...numbers) : 0;
+    }
+  },
+
+  MIN: {
+    description: 'Returns the smallest number',
+    args: ['number'],
+    minArgs: 1,
+    evaluate: args => {
+      const numbers = collectNumbers(args);
+      return numbers.length > 0 ? Math.min(...numbers) : 0;
+    }
+  },
+
+  IF: {
+    description: 'Returns one value if a condition is TRUE and another if it is FALSE',
+    args: ['logical_test', 'value_if_true', 'value_if_false'],
+    minArgs: 2,
+    maxArgs: 3,
+    // Only the branch that is taken can make IF fail
+    acceptsErrors: true,
+    evaluate: ([condition, whenTrue, whenFalse = false]) => (toBoolean(condition) ? whenTrue : whenFalse)
+  },
+
+  IFS: {
+    description: 'Returns the value for the first condition that is TRUE',
+    args: ['logical_test', 'value_if_true'],
+    repeats: 2,
+    minArgs: 2,
+    acceptsErrors: true,
+    evaluate: args => {
+      if (args.length % 2 !== 0) {
+        throw new FormulaError('#VALUE!', 'IFS needs a value for every condition');
+      }
+      for (let i = 0; i < args.length; i += 2) {
+        if (toBoolean(args[i])) return args[i + 1];
+      }
+      throw new FormulaError('#N/A', 'No IFS condition is TRUE');
+    }
+  },
+
+  SWITCH: {
+    description: 'Compares an expression against a list of values and returns the result for the first match',
+    args: ['expression', 'value', 'result'],
+    repeats: 2,
+    minArgs: 3,
+    acceptsErrors: true,
+    evaluate: ([expression, ...cases]) => {
+      const value = toScalar(expression);
+      if (isError(value)) throw value;
+      for (let i = 0; i + 1 < cases.length; i += 2) {
+        if (compareValues(value, toScalar(cases[i])) === 0) return cases[i + 1];
+      }
+      // An odd number of cases leaves a trailing default
+      if (cases.length % 2 === 1) return cases[cases.length - 1];
+      throw new FormulaError('#N/A', 'No SWITCH case matches');
+    }
+  },
+
+  AND: {
+    description: 'Returns TRUE if all of its arguments are TRUE',
+    args: ['logical'],
+    minArgs: 1,
+    evaluate: args => collectBooleans(args).every(Boolean)
+  },
+
+  OR: {
+    description: 'Returns TRUE if any of its arguments is TRUE',
+    args: ['logical'],
+    minArgs: 1,
+    evaluate: args => collectBooleans(args).some(Boolean)
+  },
+
+  NOT: {
+    description: 'Reverses a logical value',
+    args: ['logical'],
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([value]) => !toBoolean(value)
+  },
+
+  ISERROR: {
+    description: 'Returns TRUE if the value is an error',
+    args: ['value'],
+    minArgs: 1,
+    maxArgs: 1,
+    acceptsErrors: true,
+    evaluate: ([value]) => isError(value)
+  },
+
+  IFERROR: {
+    description: 'Returns a fallback value if a value is an error, otherwise the value itself',
+    args: ['value', 'value_if_error'],
+    minArgs: 2,
+    maxArgs: 2,
+    acceptsErrors: true,
+    evaluate: ([value, fallback]) => (isError(value) ? fallback : value)
+  },
+
+  ...CONDITIONAL_FUNCTIONS,
+  ...LOOKUP_FUNCTIONS,
+  ...FINANCIAL_FUNCTIONS,
+  ...STATISTICAL_FUNCTIONS,
+  ...DATE_FUNCTIONS,
+  ...TEXT_FUNCTIONS,
+  ...ARRAY_FUNCTIONS
+};
+
+// ============================================================================
+// CUSTOM FUNCTIONS
+// ============================================================================
+
+/** Functions registered by the host app, keyed by upper-case name */
+const customFunctions: Record<string, FormulaFunction> = {};
+
+/**
+ * Describe the kind of a function result, for explaining a wrong return type
+ * @param value - Result of the function
+ * @returns e.g. "text" or "a number"
+ */
+const describeResult = (value: FormulaValue): string => {
+  if (isRange(value)) return 'an array';
+  if (value === null) return 'nothing';
+  if (isDate(value)) return 'a date';
+  if (typeof value === 'number') return 'a number';
+  if (typeof value === 'boolean') return 'TRUE/FALSE';
+  return 'text';
+};
+
+/**
+ * Check a custom function's result against its declared return type
+ * Errors pass through whatever the type
+ * @param name - Function name, for the error message
+ * @param returns - Declared return type
+ * @param value - Result of the function
+ * @returns The result, converted where the type allows (serial numbers to dates,
+ *   single values to arrays)
+ * @throws FormulaError (#VALUE!) for results of another kind, or (#NUM!) for
+ *   numbers that are not finite
+ */
+const checkResult = (name: string, returns: FunctionReturnType, value: FormulaValue): FormulaValue => {
+  if (isError(value) || returns === 'any') return value;
+  if (returns === 'array') return toRange(value);
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new FormulaError('#NUM!', `${name} returned a number that is too large or not a number`);
+  }
+
+  const fits =
+    (returns === 'number' && typeof value === 'number') ||
+    (returns === 'text' && typeof value === 'string') ||
+    (returns === 'boolean' && typeof value === 'boolean') ||
+    (returns === 'date' && (isDate(value) || typeof value === 'number'));
+  if (!fits) {
+    const expected = { number: 'a number', text: 'text', boolean: 'TRUE/FALSE', date: 'a date' }[returns];
+    throw new FormulaError('#VALUE!', `${name} returned ${describeResult(value)} instead of ${expected}`);
+  }
+  return returns === 'date' && typeof value === 'number' ? new DateValue(value) : value;
+};
+
+/**
+ * Make a function callable from formulas, alongside the built-in ones
+ * Its description and args show up in autocomplete and signature help like any
+ * other function. Results are checked against `returns`, and exceptions it throws
+ * become #VALUE! errors in the calling cell. Registering a name again replaces
+ * the earlier function
+ * @param name - Function name (case-insensitive, e.g. "RUNRATE")
+ * @param definition - The function
+ * @returns Callback that removes the function again
+ * @throws Error for invalid names, names of built-in functions and inconsistent
+ *   argument counts
+ */
+export const registerFunction = (name: string, definition: FormulaFunction): (() => void) => {
+  const upper = name.toUpperCase();
+  if (!FUNCTION_NAME_PATTERN.test(name) || upper === 'TRUE' || upper === 'FALSE') {
+    throw new Error(`"${name}" is not a valid function name`);
+  }
+  if (FUNCTIONS[upper]) {
+    throw new Error(`${upper} is a built-in function`);
+  }
+  const { minArgs, maxArgs, args } = definition;
+  if (minArgs < 0 || (maxArgs !== undefined && maxArgs < minArgs) || args.length < minArgs) {
+    throw new Error(`${upper} needs a name for each required argument, and at least minArgs arguments`);
+  }
+
+  const registered: FormulaFunction = {
+    ...definition,
+    evaluate: (values) => {
+      let result: FormulaValue;
+      try {
+        result = definition.evaluate(values);
+      } catch (error) {
+        if (error instanceof FormulaError) throw error;
+        throw new FormulaError('#VALUE!', `${upper} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return definition.returns ? checkResult(upper, definition.returns, result) : result;
+    }
+  };
+  customFunctions[upper] = registered;
+
+  return () => {
+    if (customFunctions[upper] === registered) delete customFunctions[upper];
+  };
+};
+
+/**
+ * Whether the host app has registered any functions
+ * Custom functions only exist on the page, so recalculation has to stay there
+ */
+export const hasCustomFunctions = (): boolean => Object.keys(customFunctions).length > 0;
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+/**
+ * Every function formulas can call, built-in and custom
+ * @returns Functions keyed by upper-case name
+ */
+export const listFunctions = (): Record<string, FormulaFunction> => ({ ...FUNCTIONS, ...customFunctions });
+
+/**
+ * Look up a function by name
+ * @param name - Upper-case function name
+ * @returns The built-in or custom function, or undefined for unknown names
+ */
+export const findFunction = (name: string): FormulaFunction | undefined => FUNCTIONS[name] ?? customFunctions[name];
+
+/**
+ * Look up a function and check its argument count
+ * @param name - Upper-case function name
+ * @param argCount - Number of arguments in the call
+ * @returns The function definition
+ * @throws FormulaError for unknown functions or a wrong number of arguments
+ */
+export const getFunction = (name: string, argCount: number): FormulaFunction => {
+  const fn = findFunction(name);
+  if (!fn) {
+    throw new FormulaError('#NAME?', `Unknown function ${name}`);
+  }
+  if (argCount < fn.minArgs || (fn.maxArgs !== undefined && argCount > fn.maxArgs)) {
+    throw new FormulaError('#VALUE!', `Wrong number of arguments to ${name}`);
+  }
+  return fn;
+};
@@ -0,0 +1,97 @@
+import { FormulaError } from './errors';
+import { EvaluationContext, evaluateFormulaNode } from './evaluator';
+import { parseFormula } from './parser';
+import { CellValue } from './values';
+
+export { ARRAY_FUNCTIONS } from './arrays';
+export { evaluateFormulaSteps } from './audit';
+export type { EvaluationStep } from './audit';
+export { DateValue, formatDateSerial, parseDateText, partsFromSerial, serialFromParts } from './calendar';
+export type { DateParts } from './calendar';
+export { CONDITIONAL_FUNCTIONS, parseCriterion } from './conditional';
+export { DATE_FUNCTIONS } from './dates';
+export { findCompletions, findFormulaReferences, getSignatureHelp, isReferenceInsertionPoint } from './editing';
+export type {
+  CompletionSources,
+  FormulaCompletion,
+  FormulaCompletions,
+  FormulaReference,
+  SignatureHelp
+} from './editing';
+export type { Criterion } from './conditional';
+export {
+  buildDependencyGraph,
+  collectPrecedents,
+  findCycles,
+  findDependents,
+  sortTopologically
+} from './dependencies';
+export type { DependencyGraph, Precedent } from './dependencies';
+export { CIRCULAR_REFERENCE, ERROR_CODES, FormulaError, SPILL_BLOCKED, isErrorCode } from './errors';
+export type { ErrorCode } from './errors';
+export { evaluateArrayFormulaNode, evaluateFormulaNode, evaluateNode, getCellsInRange } from './evaluator';
+export type { EvaluationContext } from './evaluator';
+export { FINANCIAL_FUNCTIONS } from './financial';
+export { FUNCTIONS, findFunction, hasCustomFunctions, listFunctions, registerFunction } from './functions';
+export type { FormulaFunction, FunctionReturnType } from './functions';
+export { LOOKUP_FUNCTIONS } from './lookup';
+export { createNameResolver, parseNamedReference, validateName } from './names';
+export type { NamedRange, NameResolver } from './names';
+export { parseFormula } from './parser';
+export type { FormulaNode } from './parser';
+export {
+  columnIndexToLetter,
+  columnLetterToIndex,
+  formatCellReference,
+  formatRangeReference,
+  formatReferenceParts,
+  parseCellReference,
+  parseReferenceParts
+} from './references';
+export type { CellAddress, ReferenceParts } from './references';
+export {
+  describeCellError,
+  displayGridValue,
+  findCircularReferences,
+  gridValueType,
+  parseGridInput,
+  readGridCell,
+  recalculateGrid,
+  toGridValue,
+  traceDependents,
+  tracePrecedents
+} from './recalculate';
+export type { CellError, CellState, GridCell, RecalculationProgress, SpillSize } from './recalculate';
+export {
+  mapIndex,
+  renameInFormula,
+  renameInGridFormulas,
+  rewriteFormula,
+  rewriteGridFormulas,
+  rewriteNamedRanges,
+  shiftFormula
+} from './rewrite';
+export type { StructuralChange } from './rewrite';
+export { STATISTICAL_FUNCTIONS } from './statistics';
+export { TEXT_FUNCTIONS } from './text';
+export { isDate, isError } from './values';
+export type { CellValue, FormulaValue, RangeValue } from './values';
+export { applyCellPatches, diffRecalculatedGrid, handleRecalculateRequest } from './worker';
+export type { CellPatch, RecalculateRequest, RecalculateResponse } from './worker';
+
+/**
+ * Parse and evaluate a formula
+ * @param source - Formula text without the leading "="
+ * @param context - Evaluation context providing cell values
+ * @returns The result, or the FormulaError explaining why it cannot be computed
+ */
+export const evaluateFormula = (source: string, context: EvaluationContext): CellValue => {
+  try {
+    return evaluateFormulaNode(parseFormula(source), context);
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      return error;
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,265 @@
+import { wildcardToRegExp } from './conditional';
+import { FormulaError } from './errors';
+import type { FormulaFunction } from './functions';
+import {
+  CellValue,
+  FormulaValue,
+  RangeValue,
+  compareValues,
+  isError,
+  numericValue,
+  toBoolean,
+  toNumber,
+  toRange,
+  toScalar,
+  toText,
+  transpose
+} from './values';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * How a lookup decides which value matches
+ * - exact: equal values only (text compares case-insensitively)
+ * - wildcard: like exact, but * and ? in a text lookup value are wildcards
+ * - next-smaller: an equal value, otherwise the largest value below it
+ * - next-larger: an equal value, otherwise the smallest value above it
+ */
+type MatchMode = 'exact' | 'wildcard' | 'next-smaller' | 'next-larger';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Reduce the value being looked up to a single value
+ * @param value - Evaluated lookup argument
+ * @throws The value itself if it is an error
+ */
+const toLookupValue = (value: FormulaValue): CellValue => {
+  const scalar = toScalar(value);
+  if (isError(scalar)) throw scalar;
+  return scalar;
+};
+
+/**
+ * Check whether a searched value can be compared with the lookup value
+ * Only values of the same type are compared (numbers and dates count as one
+ * type); blanks and errors never match
+ * @param value - Value in the searched row or column
+ * @param lookup - Value being looked up
+ */
+const isComparable = (value: CellValue, lookup: CellValue): boolean => {
+  if (value === null || isError(value)) return false;
+  const isNumeric = (v: CellValue) => numericValue(v) !== null;
+  if (isNumeric(value) || isNumeric(lookup)) return isNumeric(value) && isNumeric(lookup);
+  return typeof value === typeof lookup;
+};
+
+/**
+ * Find the position of the value matching a lookup value
+ * Approximate modes do not need the values sorted: they pick the closest
+ * value on the requested side, so sorted data gives the usual spreadsheet result
+ * @param lookup - Value being looked up
+ * @param values - Values to search
+ * @param mode - How to decide what matches
+ * @param fromEnd - Search from the last value backwards (decides between equal values)
+ * @returns Index of the match, or -1 if nothing matches
+ */
+const findMatch = (lookup: CellValue, values: CellValue[], mode: MatchMode, fromEnd = false): number => {
+  const order = values.map((_, index) => index);
+  if (fromEnd) order.reverse();
+
+  if (mode === 'exact' || mode === 'wildcard') {
+    const pattern = mode === 'wildcard' && typeof lookup === 'string' ? wildcardToRegExp(lookup) : null;
+    return order.find(index => {
+      const value = values[index];
+      if (pattern) return typeof value === 'string' && pattern.test(value);
+      return isComparable(value, lookup) && compareValues(value, lookup) === 0;
+    }) ?? -1;
+  }
+
+  const side = mode === 'next-smaller' ? -1 : 1;
+  let best = -1;
+  for (const index of order) {
+    const value = values[index];
+    if (!isComparable(value, lookup)) continue;
+    const comparison = compareValues(value, lookup);
+    if (comparison === 0) return index;
+    const isCloser = best === -1 || compareValues(value, values[best]) * side < 0;
+    if (Math.sign(comparison) === side && isCloser) best = index;
+  }
+  return best;
+};
+
+/**
+ * Build the #N/A error for a lookup that found nothing
+ * @param name - Function name
+ * @param lookup - Value that was looked up
+ */
+const notFound = (name: string, lookup: CellValue): FormulaError =>
+  new FormulaError('#N/A', `${name} found no match for "${toText(lookup)}"`);
+
+/**
+ * Read a lookup argument that must be a single row or column
+ * @param value - Evaluated argument
+ * @param name - Function name, for error messages
+ * @returns The values in order and whether they run down a column
+ * @throws FormulaError for ranges with several rows and columns
+ */
+const toVector = (value: FormulaValue, name: string): { values: CellValue[]; vertical: boolean } => {
+  const range = toRange(value);
+  if (range[0]?.length === 1) return { values: range.map(row => row[0]), vertical: true };
+  if (range.length === 1) return { values: range[0], vertical: false };
+  throw new FormulaError('#VALUE!', `${name} needs a single row or column to search`);
+};
+
+/**
+ * Read a 1-based position argument
+ * @param value - Evaluated argument
+ * @param name - Function name, for error messages
+ * @returns The position, truncated to a whole number
+ * @throws FormulaError for negative positions
+ */
+const toPosition = (value: FormulaValue, name: string): number => {
+  const position = Math.trunc(toNumber(value));
+  if (position < 0) {
+    throw new FormulaError('#VALUE!', `${name} positions cannot be negative`);
+  }
+  return position;
+};
+
+/**
+ * Shared implementation of VLOOKUP and HLOOKUP
+ * @param name - Function name
+ * @param args - Lookup value, table, 1-based column (or row) and the approximate flag
+ * @param table - The table arranged so its first column is searched
+ * @returns The value in the requested column of the matching row
+ */
+const lookupInTable = (name: string, args: FormulaValue[], table: RangeValue): CellValue => {
+  const [lookupArg, , indexArg, approximate = true] = args;
+  const lookup = toLookupValue(lookupArg);
+  const index = toPosition(indexArg, name);
+  if (index < 1) {
+    throw new FormulaError('#VALUE!', `${name} index must be at least 1`);
+  }
+  if (index > (table[0]?.length ?? 0)) {
+    throw new FormulaError('#REF!', `${name} index ${index} is outside the table`);
+  }
+
+  const keys = table.map(row => row[0]);
+  const match = findMatch(lookup, keys, toBoolean(approximate) ? 'next-smaller' : 'wildcard');
+  if (match === -1) throw notFound(name, lookup);
+  return table[match][index - 1];
+};
+
+// ============================================================================
+// FUNCTIONS
+// ============================================================================
+
+/** XLOOKUP match_mode argument values */
+const XLOOKUP_MATCH_MODES: Record<number, MatchMode> = {
+  0: 'exact',
+  [-1]: 'next-smaller',
+  1: 'next-larger',
+  2: 'wildcard'
+};
+
+/**
+ * Lookup functions, keyed by upper-case name
+ * Ranges keep their 2-D shape: positions are 1-based from the range's
+ * top-left corner, and a lookup that finds nothing is #N/A
+ */
+export const LOOKUP_FUNCTIONS: Record<string, FormulaFunction> = {
+  VLOOKUP: {
+    description: 'Looks for a value in the first column of a table and returns a value from the same row',
+    args: ['lookup_value', 'table_array', 'col_index_num', 'range_lookup'],
+    minArgs: 3,
+    maxArgs: 4,
+    evaluate: args => lookupInTable('VLOOKUP', args, toRange(args[1]))
+  },
+
+  HLOOKUP: {
+    description: 'Looks for a value in the first row of a table and returns a value from the same column',
+    args: ['lookup_value', 'table_array', 'row_index_num', 'range_lookup'],
+    minArgs: 3,
+    maxArgs: 4,
+    evaluate: args => lookupInTable('HLOOKUP', args, transpose(toRange(args[1])))
+  },
+
+  XLOOKUP: {
+    description: 'Looks for a value in one range and returns the matching item from another',
+    args: ['lookup_value', 'lookup_array', 'return_array', 'if_not_found', 'match_mode', 'search_mode'],
+    minArgs: 3,
+    maxArgs: 6,
+    evaluate: ([lookupArg, lookupArray, returnArray, ifNotFound, matchMode = 0, searchMode = 1]) => {
+      const lookup = toLookupValue(lookupArg);
+      const { values, vertical } = toVector(lookupArray, 'XLOOKUP');
+      const results = vertical ? toRange(returnArray) : transpose(toRange(returnArray));
+      if (results.length !== values.length) {
+        throw new FormulaError('#VALUE!', 'XLOOKUP lookup and return ranges must be the same length');
+      }
+
+      const mode = XLOOKUP_MATCH_MODES[toNumber(matchMode)];
+      const direction = toNumber(searchMode);
+      if (!mode || ![1, -1, 2, -2].includes(direction)) {
+        throw new FormulaError('#VALUE!', 'Unknown XLOOKUP match or search mode');
+      }
+
+      const match = findMatch(lookup, values, mode, direction < 0);
+      if (match === -1) {
+        if (ifNotFound !== undefined) return ifNotFound;
+        throw notFound('XLOOKUP', lookup);
+      }
+      // The matching row (or column) of the return range; one cell for a single column
+      const row = results[match];
+      if (row.length === 1) return row[0];
+      return vertical ? [row] : row.map(value => [value]);
+    }
+  },
+
+  INDEX: {
+    description: 'Returns the value at a row and column of a range',
+    args: ['array', 'row_num', 'column_num'],
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: ([array, rowArg, colArg]) => {
+      const range = toRange(array);
+      let row = toPosition(rowArg, 'INDEX');
+      let col = colArg === undefined ? 0 : toPosition(colArg, 'INDEX');
+      // A single row or column needs only one position
+      if (colArg === undefined) {
+        if (range.length === 1) [row, col] = [1, row];
+        else if (range[0].length === 1) col = 1;
+      }
+
+      if (row > range.length || col > range[0].length) {
+        throw new FormulaError('#REF!', 'INDEX position is outside the range');
+      }
+      // Position 0 selects the whole row or column
+      if (row === 0 && col === 0) return range;
+      if (row === 0) return range.map(cells => [cells[col - 1]]);
+      if (col === 0) return [range[row - 1]];
+      return range[row - 1][col - 1];
+    }
+  },
+
+  MATCH: {
+    description: 'Returns the position of a value in a row or column',
+    args: ['lookup_value', 'lookup_array', 'match_type'],
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: ([lookupArg, lookupArray, matchType = 1]) => {
+      const lookup = toLookupValue(lookupArg);
+      const { values } = toVector(lookupArray, 'MATCH');
+      const type = Math.sign(toNumber(matchType));
+      const mode = type === 0 ? 'wildcard' : type > 0 ? 'next-smaller' : 'next-larger';
+
+      const match = findMatch(lookup, values, mode);
+      if (match === -1) throw notFound('MATCH', lookup);
+      return match + 1;
+    }
+  }
+};
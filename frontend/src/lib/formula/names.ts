@@ -0,0 +1,88 @@
+import { FormulaError } from './errors';
+import { FormulaNode, parseFormula } from './parser';
+import { isCellReference } from './references';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A name standing for a cell or range, so formulas can say =SUM(Revenue2023)
+ * instead of =SUM(E2:E12)
+ * @property name - Name as entered; formulas match it case-insensitively
+ * @property reference - Cell or range it stands for (e.g. "E2:E12" or "$B$3"),
+ *   or "#REF!" once all of its cells have been deleted
+ */
+export type NamedRange = { name: string; reference: string };
+
+/**
+ * Looks up what a name in a formula refers to
+ * Returns the parsed reference, or undefined for names that are not defined
+ */
+export type NameResolver = (name: string) => FormulaNode | undefined;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Letters, digits, "_" and ".", starting with a letter or "_" (e.g. Revenue2023, tax_rate) */
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check a name before defining or renaming it
+ * @param name - Proposed name
+ * @param names - Names already defined
+ * @param current - Name being renamed, which may keep its own name
+ * @returns Why the name cannot be used, or null if it can
+ */
+export const validateName = (name: string, names: NamedRange[], current?: string): string | null => {
+  if (name === '') return 'Enter a name';
+  if (!NAME_PATTERN.test(name)) {
+    return 'Names start with a letter or "_" and contain only letters, digits, "_" and "."';
+  }
+  if (isCellReference(name)) return `"${name}" looks like a cell reference`;
+  if (['TRUE', 'FALSE'].includes(name.toUpperCase())) return `"${name}" is reserved`;
+
+  const upper = name.toUpperCase();
+  const taken = names.some(named => named.name.toUpperCase() === upper && named.name !== current);
+  return taken ? `"${name}" is already defined` : null;
+};
+
+/**
+ * Parse what a name refers to
+ * @param reference - Cell or range text, with or without a leading "="
+ * @returns The parsed reference or range (or #REF! for a deleted one), or null if the
+ *   text is not a single cell or range
+ */
+export const parseNamedReference = (reference: string): FormulaNode | null => {
+  try {
+    const node = parseFormula(reference.trim().replace(/^=/, ''));
+    const isReference = node.type === 'reference' || node.type === 'range';
+    return isReference || (node.type === 'error' && node.code === '#REF!') ? node : null;
+  } catch (error) {
+    if (error instanceof FormulaError) return null;
+    throw error;
+  }
+};
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Build the lookup formulas use to resolve names
+ * Names that do not refer to a cell or range resolve to #REF!
+ * @param names - Defined names
+ * @returns Resolver matching names case-insensitively
+ */
+export const createNameResolver = (names: NamedRange[]): NameResolver => {
+  const nodes = new Map<string, FormulaNode>(names.map(({ name, reference }) => [
+    name.toUpperCase(),
+    parseNamedReference(reference) ?? { type: 'error', code: '#REF!' }
+  ]));
+  return name => nodes.get(name.toUpperCase());
+};
@@ -0,0 +1,199 @@
+import { ErrorCode, FormulaError } from './errors';
+import { CellAddress, parseCellReference } from './references';
+import { Token, tokenize } from './tokenizer';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** Binary operators in the formula language */
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^' | '&' | '=' | '<>' | '<' | '>' | '<=' | '>=';
+
+/** Unary operators in the formula language (prefix + and -, postfix %) */
+export type UnaryOperator = '+' | '-' | '%';
+
+/**
+ * Node of the formula abstract syntax tree
+ * - reference: a single cell (e.g. B3 or $B$3; anchors do not affect evaluation)
+ * - range: a rectangular block of cells (e.g. B3:D5)
+ * - name: a named range (e.g. Revenue2023), resolved when the formula is evaluated
+ * - error: an error literal such as #REF!
+ * - unary: prefix +/- or postfix % applied to an operand
+ * - call: a function call with its unevaluated arguments
+ */
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'error'; code: ErrorCode }
+  | { type: 'reference'; address: CellAddress }
+  | { type: 'range'; start: CellAddress; end: CellAddress }
+  | { type: 'name'; name: string }
+  | { type: 'unary'; operator: UnaryOperator; operand: FormulaNode }
+  | { type: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Binary operator precedence, lowest first (matches Excel)
+ * All binary operators are left-associative, including ^
+ */
+export const PRECEDENCE: BinaryOperator[][] = [
+  ['=', '<>', '<', '>', '<=', '>='],
+  ['&'],
+  ['+', '-'],
+  ['*', '/'],
+  ['^']
+];
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+/**
+ * Parse formula text (without the leading "=") into an AST
+ *
+ * Grammar, lowest precedence first:
+ *   comparison  := concat (("=" | "<>" | "<" | ">" | "<=" | ">=") concat)*
+ *   concat      := additive ("&" additive)*
+ *   additive    := term (("+" | "-") term)*
+ *   term        := power (("*" | "/") power)*
+ *   power       := unary ("^" unary)*
+ *   unary       := ("+" | "-") unary | postfix
+ *   postfix     := primary "%"*
+ *   primary     := number | string | TRUE | FALSE | error | reference [":" reference]
+ *                | identifier "(" [comparison ("," comparison)*] ")" | identifier | "(" comparison ")"
+ *
+ * @param source - Formula text
+ * @returns Root node of the AST
+ * @throws FormulaError if the text is not a valid formula
+ */
+export const parseFormula = (source: string): FormulaNode => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = (): Token => tokens[index];
+  const next = (): Token => tokens[index++];
+
+  const fail = (message: string): never => {
+    throw new FormulaError('#ERROR!', message);
+  };
+
+  const expect = (type: Token['type'], description: string): Token => {
+    const token = next();
+    if (token.type !== type) {
+      fail(`Expected ${description} at position ${token.position}`);
+    }
+    return token;
+  };
+
+  /**
+   * Parse a chain of left-associative binary operators at one precedence level
+   * @param level - Index into PRECEDENCE
+   */
+  const parseBinary = (level: number): FormulaNode => {
+    if (level >= PRECEDENCE.length) {
+      return parseUnary();
+    }
+
+    let left = parseBinary(level + 1);
+    while (peek().type === 'operator' && (PRECEDENCE[level] as string[]).includes(peek().value)) {
+      const operator = next().value as BinaryOperator;
+      const right = parseBinary(level + 1);
+      left = { type: 'binary', operator, left, right };
+    }
+    return left;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    const token = peek();
+    if (token.type === 'operator' && (token.value === '-' || token.value === '+')) {
+      next();
+      return { type: 'unary', operator: token.value, operand: parseUnary() };
+    }
+    return parsePostfix();
+  };
+
+  const parsePostfix = (): FormulaNode => {
+    let node = parsePrimary();
+    while (peek().type === 'operator' && peek().value === '%') {
+      next();
+      node = { type: 'unary', operator: '%', operand: node };
+    }
+    return node;
+  };
+
+  const parseReference = (token: Token): CellAddress => {
+    const address = parseCellReference(token.value);
+    if (!address) {
+      fail(`Invalid cell reference "${token.value}"`);
+    }
+    return address as CellAddress;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: parseFloat(token.value) };
+
+      case 'string':
+        return { type: 'string', value: token.value };
+
+      case 'error':
+        return { type: 'error', code: token.value as ErrorCode };
+
+      case 'reference': {
+        const start = parseReference(token);
+        if (peek().type === 'colon') {
+          next();
+          const end = parseReference(expect('reference', 'a cell reference after ":"'));
+          return { type: 'range', start, end };
+        }
+        return { type: 'reference', address: start };
+      }
+
+      case 'identifier': {
+        const name = token.value.toUpperCase();
+        if (peek().type === 'lparen') {
+          next();
+          const args: FormulaNode[] = [];
+          if (peek().type !== 'rparen') {
+            args.push(parseBinary(0));
+            while (peek().type === 'comma') {
+              next();
+              args.push(parseBinary(0));
+            }
+          }
+          expect('rparen', '")" to close the call to ' + name);
+          return { type: 'call', name, args };
+        }
+        if (name === 'TRUE' || name === 'FALSE') {
+          return { type: 'boolean', value: name === 'TRUE' };
+        }
+        return { type: 'name', name: token.value };
+      }
+
+      case 'lparen': {
+        const inner = parseBinary(0);
+        expect('rparen', '")"');
+        return inner;
+      }
+
+      default:
+        return fail(token.type === 'eof'
+          ? 'Unexpected end of formula'
+          : `Unexpected "${token.value}" at position ${token.position}`);
+    }
+  };
+
+  const root = parseBinary(0);
+  if (peek().type !== 'eof') {
+    fail(`Unexpected "${peek().value}" at position ${peek().position}`);
+  }
+  return root;
+};
@@ -0,0 +1,633 @@
+import { DateValue, formatDateSerial, parseDateText } from './calendar';
+import {
+  DependencyGraph,
+  Precedent,
+  addressKey,
+  buildDependencyGraph,
+  collectPrecedents,
+  findCycles,
+  findDependents,
+  sortTopologically
+} from './dependencies';
+import { CIRCULAR_REFERENCE, FormulaError, SPILL_BLOCKED, isErrorCode } from './errors';
+import { EvaluationContext, evaluateArrayFormulaNode } from './evaluator';
+import { findFunction } from './functions';
+import { NamedRange, NameResolver, createNameResolver } from './names';
+import { FormulaNode, parseFormula } from './parser';
+import { CellAddress, formatCellReference } from './references';
+import { CellValue, RangeValue, isDate, isError, isRange } from './values';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Explanation of an error value shown in a cell
+ * @property message - What went wrong
+ * @property source - Cell the error started in (the cell itself unless it was propagated)
+ */
+export type CellError = { message: string; source: CellAddress };
+
+/**
+ * Size of the block a multi-cell formula result fills, starting at the formula's cell
+ * @property rows - Number of rows
+ * @property cols - Number of columns
+ */
+export type SpillSize = { rows: number; cols: number };
+
+/**
+ * The part of a spreadsheet cell the recalculation engine reads and writes
+ * Dates are stored as their serial number with type "date", so they sort and
+ * subtract like numbers and survive copying as plain data. A formula with a
+ * multi-cell result (e.g. =SORT(A2:E12, 5, -1)) shows its first value and
+ * spills the rest into the empty cells below and to the right; those cells
+ * hold a copy of their value and point back at the formula
+ * @property value - Displayed value (the computed result for formula cells)
+ * @property type - "date" when the value is a date serial number
+ * @property formula - Formula text including the leading "=", if any
+ * @property error - Why the cell shows an error value, if it does
+ * @property spill - Size of the formula's spilled result, when it has one
+ * @property spilledFrom - Formula cell whose result this cell shows, for spilled cells
+ */
+export type GridCell = {
+  value: string | number;
+  type?: 'date';
+  formula?: string;
+  error?: CellError;
+  spill?: SpillSize;
+  spilledFrom?: CellAddress;
+};
+
+/**
+ * Everything recalculation writes to a cell
+ */
+export type CellState = Pick<GridCell, 'value' | 'type' | 'error' | 'spill' | 'spilledFrom'>;
+
+/**
+ * Receives recalculation progress
+ * @param done - Formulas evaluated so far
+ * @param total - Formulas to evaluate
+ */
+export type RecalculationProgress = (done: number, total: number) => void;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Most recalculation passes per change; another pass runs while spilled
+ * results grow, shrink or get unblocked, which normally settles after one or two
+ */
+const MAX_SPILL_PASSES = 10;
+
+/**
+ * Most parsed formulas kept at once; least recently used ones are dropped
+ * beyond this. Large enough for the distinct formulas of a big sheet, since a
+ * full recalculation visits all of them
+ */
+const PARSE_CACHE_SIZE = 10000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Parsed formulas by source text, so unchanged formulas are not re-parsed on every edit
+ * Kept in least to most recently used order, so the oldest entry is the first one
+ */
+const parseCache = new Map<string, FormulaNode | FormulaError>();
+
+/**
+ * Parse formula text, remembering the result
+ * @param formula - Formula text including the leading "="
+ * @returns The AST, or the error explaining why the formula does not parse
+ */
+const parseCached = (formula: string): FormulaNode | FormulaError => {
+  let parsed = parseCache.get(formula);
+  if (parsed) {
+    // Move to the most recently used end
+    parseCache.delete(formula);
+  } else {
+    try {
+      parsed = parseFormula(formula.slice(1));
+    } catch (error) {
+      if (!(error instanceof FormulaError)) throw error;
+      parsed = error;
+    }
+    if (parseCache.size >= PARSE_CACHE_SIZE) {
+      parseCache.delete(parseCache.keys().next().value!);
+    }
+  }
+  parseCache.set(formula, parsed);
+  return parsed;
+};
+
+/**
+ * Check whether a formula calls a volatile function (e.g. TODAY) anywhere in it
+ * @param node - Formula AST
+ * @returns True if the formula has to be recalculated on every change
+ */
+const callsVolatileFunction = (node: FormulaNode): boolean => {
+  switch (node.type) {
+    case 'unary':
+      return callsVolatileFunction(node.operand);
+    case 'binary':
+      return callsVolatileFunction(node.left) || callsVolatileFunction(node.right);
+    case 'call':
+      return Boolean(findFunction(node.name)?.volatile) || node.args.some(callsVolatileFunction);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Convert an evaluation result to something a grid cell can hold
+ * Grid cells store strings and numbers only, so booleans become TRUE/FALSE,
+ * dates become their serial number (see gridValueType) and errors become their code
+ * @param value - Evaluation result
+ * @returns Value to store in the cell
+ */
+export const toGridValue = (value: CellValue): string | number => {
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (isError(value)) return value.code;
+  if (isDate(value)) return value.serial;
+  return value ?? '';
+};
+
+/**
+ * The cell type to store alongside an evaluation result
+ * @param value - Evaluation result
+ * @returns "date" for dates, otherwise undefined
+ */
+export const gridValueType = (value: CellValue): GridCell['type'] => (isDate(value) ? 'date' : undefined);
+
+/**
+ * Interpret text entered into a cell
+ * Date text (e.g. "2023-01-15" or "1/15/2023") becomes a date; anything else is kept as entered
+ * @param input - Entered value
+ * @returns The value and type to store
+ */
+export const parseGridInput = (input: string | number): Pick<GridCell, 'value' | 'type'> => {
+  const serial = typeof input === 'string' ? parseDateText(input) : null;
+  return serial === null ? { value: input, type: undefined } : { value: serial, type: 'date' };
+};
+
+/**
+ * The text or number to display for a grid cell
+ * @param cell - Grid cell
+ * @returns Dates as ISO text, everything else as stored
+ */
+export const displayGridValue = (cell: GridCell): string | number =>
+  cell.type === 'date' && typeof cell.value === 'number' ? formatDateSerial(cell.value) : cell.value;
+
+/**
+ * Read a grid cell as a formula value
+ * Empty strings are blank, TRUE/FALSE are booleans, date cells are dates and
+ * error codes become error values that remember where they started; everything
+ * else is returned as stored
+ * @param cell - Grid cell, if it exists
+ * @param address - Position of the cell
+ * @returns Cell value for the evaluator
+ */
+export const readGridCell = (cell: GridCell | undefined, address: CellAddress): CellValue => {
+  if (cell === undefined || cell.value === '') return null;
+  if (cell.type === 'date' && typeof cell.value === 'number') return new DateValue(cell.value);
+  if (isErrorCode(cell.value)) {
+    return new FormulaError(
+      cell.value,
+      cell.error?.message ?? `${formatCellReference(address)} contains ${cell.value}`,
+      cell.error?.source ?? address
+    );
+  }
+  if (typeof cell.value === 'string') {
+    const upper = cell.value.toUpperCase();
+    if (upper === 'TRUE' || upper === 'FALSE') return upper === 'TRUE';
+  }
+  return cell.value;
+};
+
+/**
+ * Describe why a cell shows an error, for its tooltip
+ * @param cell - Grid cell
+ * @param address - Position of the cell
+ * @returns A sentence such as "#DIV/0!: Division by zero (from C3)", or undefined
+ */
+export const describeCellError = (cell: GridCell, address: CellAddress): string | undefined => {
+  if (!cell.error || !isErrorCode(cell.value)) return undefined;
+  const { message, source } = cell.error;
+  const origin = source.row === address.row && source.col === address.col
+    ? ''
+    : ` (from ${formatCellReference(source)})`;
+  return `${cell.value}: ${message}${origin}`;
+};
+
+/**
+ * Check whether two addresses are the same cell (both missing counts as the same)
+ * @param a - First address
+ * @param b - Second address
+ */
+const sameAddress = (a?: CellAddress, b?: CellAddress): boolean => a?.row === b?.row && a?.col === b?.col;
+
+/**
+ * The block of cells a formula's spilled result covers, including the formula's cell
+ * @param anchor - Formula cell
+ * @param spill - Size of the result
+ */
+const spillArea = (anchor: CellAddress, spill: SpillSize): Precedent => ({
+  start: anchor,
+  end: { row: anchor.row + spill.rows - 1, col: anchor.col + spill.cols - 1 }
+});
+
+/**
+ * Check whether a cell lies inside a block of cells
+ * @param block - Block of cells
+ * @param address - Cell to test
+ */
+const inBlock = ({ start, end }: Precedent, { row, col }: CellAddress): boolean =>
+  row >= start.row && row <= end.row && col >= start.col && col <= end.col;
+
+/**
+ * Check whether two blocks of cells share any cell
+ * @param a - First block
+ * @param b - Second block
+ */
+const overlaps = (a: Precedent, b: Precedent): boolean =>
+  a.start.row <= b.end.row && b.start.row <= a.end.row && a.start.col <= b.end.col && b.start.col <= a.end.col;
+
+/**
+ * Visit every cell of a block
+ * @param block - Block of cells
+ * @param visit - Called with each cell's address, row by row
+ */
+const forEachInBlock = ({ start, end }: Precedent, visit: (address: CellAddress) => void): void => {
+  for (let row = start.row; row <= end.row; row++) {
+    for (let col = start.col; col <= end.col; col++) visit({ row, col });
+  }
+};
+
+/**
+ * Parse every formula in the grid and build its dependency graph
+ * A formula reading any cell of another formula's spilled result depends on
+ * that formula, so it is recomputed after it (and a formula reading its own
+ * spilled result is a circular reference)
+ * @param grid - Grid rows
+ * @param resolveName - Looks up the named ranges formulas may use
+ * @param include - Optional filter deciding which formula cells to include
+ * @returns The graph, each included cell's parsed formula keyed by "row,col",
+ *   and the cells whose formulas do not parse
+ */
+const buildGridGraph = <T extends GridCell>(
+  grid: T[][],
+  resolveName: NameResolver,
+  include: (cell: T) => boolean = () => true
+): {
+  graph: DependencyGraph;
+  nodes: Map<string, FormulaNode>;
+  invalid: { address: CellAddress; error: FormulaError }[];
+} => {
+  const formulas: { address: CellAddress; node: FormulaNode }[] = [];
+  const invalid: { address: CellAddress; error: FormulaError }[] = [];
+  const spills: { address: CellAddress; area: Precedent }[] = [];
+
+  grid.forEach((cells, row) => {
+    cells.forEach((cell, col) => {
+      if (!cell.formula?.startsWith('=')) return;
+      if (cell.spill) spills.push({ address: { row, col }, area: spillArea({ row, col }, cell.spill) });
+      if (!include(cell)) return;
+      const parsed = parseCached(cell.formula);
+      if (parsed instanceof FormulaError) {
+        invalid.push({ address: { row, col }, error: parsed });
+      } else {
+        formulas.push({ address: { row, col }, node: parsed });
+      }
+    });
+  });
+
+  const graph = buildDependencyGraph(formulas, resolveName);
+  graph.forEach(entry => {
+    spills.forEach(({ address, area }) => {
+      if (entry.precedents.some(precedent => overlaps(precedent, area))) {
+        entry.precedents.push({ start: address, end: address });
+      }
+    });
+  });
+
+  return {
+    graph,
+    nodes: new Map(formulas.map(({ address, node }) => [addressKey(address), node])),
+    invalid
+  };
+};
+
+/**
+ * Empty the cells left over from spilled results that no longer cover them
+ * A spilled cell stays only while its formula is still there and still spills
+ * over it (rows may have been sorted, moved or deleted since). Cells that no
+ * longer hold a formula also forget their spill size
+ * @param grid - Grid rows
+ * @returns The grid (the same grid when nothing was left over) and the emptied cells
+ */
+const clearStaleSpills = <T extends GridCell>(grid: T[][]): { grid: T[][]; cleared: CellAddress[] } => {
+  let result = grid;
+  const cleared: CellAddress[] = [];
+  const replace = (address: CellAddress, cell: T) => {
+    if (result === grid) result = grid.slice();
+    if (result[address.row] === grid[address.row]) result[address.row] = grid[address.row].slice();
+    result[address.row][address.col] = cell;
+  };
+
+  grid.forEach((cells, row) => {
+    cells.forEach((cell, col) => {
+      if (cell.spill && !cell.formula) replace({ row, col }, { ...cell, spill: undefined });
+      if (!cell.spilledFrom) return;
+
+      const anchor = grid[cell.spilledFrom.row]?.[cell.spilledFrom.col];
+      const covered = !cell.formula &&
+        anchor?.formula &&
+        anchor.spill &&
+        anchor.value !== CIRCULAR_REFERENCE &&
+        inBlock(spillArea(cell.spilledFrom, anchor.spill), { row, col });
+      if (covered) return;
+
+      // A formula entered over a spilled cell keeps its own value
+      replace({ row, col }, cell.formula
+        ? { ...cell, spilledFrom: undefined }
+        : { ...cell, value: '', type: undefined, error: undefined, spilledFrom: undefined });
+      cleared.push({ row, col });
+    });
+  });
+
+  return { grid: result, cleared };
+};
+
+// ============================================================================
+// RECALCULATION
+// ============================================================================
+
+/**
+ * Recompute formula cells once, in dependency order
+ * @param grid - Grid rows, data rows only (row 0 is Excel row 2)
+ * @param headers - Column names, readable as row 1
+ * @param changed - Cells whose values changed, or undefined to recompute every formula
+ * @param resolveName - Looks up the named ranges formulas may use
+ * @param onProgress - Called after each formula is evaluated
+ * @returns The updated grid, and the cells that started or stopped showing part of a
+ *   spilled result (formulas reading them may not have been ordered correctly yet)
+ */
+const recalculateOnce = <T extends GridCell>(
+  grid: T[][],
+  headers: string[],
+  changed: CellAddress[] | undefined,
+  resolveName: NameResolver,
+  onProgress?: RecalculationProgress
+): { grid: T[][]; moved: CellAddress[] } => {
+  const swept = clearStaleSpills(grid);
+  const { graph, nodes, invalid } = buildGridGraph(swept.grid, resolveName);
+  if (graph.size === 0 && invalid.length === 0) return { grid: swept.grid, moved: [] };
+
+  // Formulas showing #SPILL! are retried on every change, since any edit may have made room
+  const blocked = Array.from(graph.values())
+    .filter(({ address }) => swept.grid[address.row][address.col].value === SPILL_BLOCKED)
+    .map(({ address }) => address);
+  // Formulas calling volatile functions are recalculated on every change too
+  const volatile = changed
+    ? Array.from(nodes).filter(([, node]) => callsVolatileFunction(node)).map(([key]) => graph.get(key)!.address)
+    : [];
+  const affected = changed
+    ? findDependents(graph, [...changed, ...swept.cleared, ...blocked, ...volatile])
+    : new Set(graph.keys());
+
+  const result = swept.grid.slice();
+  const copiedRows = new Set<number>();
+  const moved: CellAddress[] = [];
+
+  const context: EvaluationContext = {
+    getCellValue: address =>
+      address.row === -1
+        ? headers[address.col] ?? null
+        : readGridCell(result[address.row]?.[address.col], address),
+    resolveName
+  };
+
+  const write = (address: CellAddress, state: CellState) => {
+    const current = result[address.row][address.col];
+    const unchanged = current.value === state.value &&
+      current.type === state.type &&
+      current.error?.message === state.error?.message &&
+      sameAddress(current.error?.source, state.error?.source) &&
+      current.spill?.rows === state.spill?.rows &&
+      current.spill?.cols === state.spill?.cols &&
+      sameAddress(current.spilledFrom, state.spilledFrom);
+    if (unchanged) return;
+
+    if (!copiedRows.has(address.row)) {
+      result[address.row] = result[address.row].slice();
+      copiedRows.add(address.row);
+    }
+    result[address.row][address.col] = { ...current, ...state };
+  };
+
+  // Value, type and error of a cell showing a result; errors without a source started at `source`
+  const describe = (outcome: CellValue, source: CellAddress) => ({
+    value: toGridValue(outcome),
+    type: gridValueType(outcome),
+    error: isError(outcome) ? { message: outcome.message, source: outcome.source ?? source } : undefined
+  });
+
+  // Why a result cannot spill from a formula cell, if it cannot. Spilled cells
+  // only fit over empty cells and the formula's own earlier result
+  const spillBlocker = (address: CellAddress, area: Precedent): string | undefined => {
+    let blocker: string | undefined;
+    forEachInBlock(area, cell => {
+      if (blocker || sameAddress(cell, address)) return;
+      const current = result[cell.row]?.[cell.col];
+      if (!current) {
+        blocker = 'it runs past the edge of the sheet';
+      } else if (current.spilledFrom ? !sameAddress(current.spilledFrom, address) : current.formula || current.value !== '') {
+        blocker = `${formatCellReference(cell)} is not empty`;
+      }
+    });
+    return blocker;
+  };
+
+  const store = (address: CellAddress, outcome: CellValue | RangeValue) => {
+    const current = result[address.row][address.col];
+    const previous = current.spill && current.value !== CIRCULAR_REFERENCE
+      ? spillArea(address, current.spill)
+      : undefined;
+
+    let value: CellValue;
+    let spill: SpillSize | undefined;
+    if (isRange(outcome)) {
+      spill = { rows: outcome.length, cols: outcome[0].length };
+      const area = spillArea(address, spill);
+      const blocker = spillBlocker(address, area);
+      value = blocker
+        ? new FormulaError(SPILL_BLOCKED, `The result needs ${formatCellReference(area.start)}:${formatCellReference(area.end)}, but ${blocker}`)
+        : outcome[0][0];
+      if (blocker) spill = undefined;
+    } else {
+      value = outcome;
+      // A formula caught in a cycle keeps its size, so a cycle through its spilled cells stays visible
+      spill = isError(outcome) && outcome.code === CIRCULAR_REFERENCE ? current.spill : undefined;
+    }
+    write(address, { ...describe(value, address), spill, spilledFrom: undefined });
+
+    const next = spill && isRange(outcome) ? spillArea(address, spill) : undefined;
+    if (previous) {
+      forEachInBlock(previous, cell => {
+        const leftover = !sameAddress(cell, address) &&
+          !(next && inBlock(next, cell)) &&
+          sameAddress(result[cell.row]?.[cell.col]?.spilledFrom, address);
+        if (leftover) {
+          write(cell, { value: '', type: undefined, error: undefined, spill: undefined, spilledFrom: undefined });
+        }
+      });
+    }
+    if (next && isRange(outcome)) {
+      forEachInBlock(next, cell => {
+        if (sameAddress(cell, address)) return;
+        const element = outcome[cell.row - address.row][cell.col - address.col];
+        write(cell, { ...describe(element, address), spill: undefined, spilledFrom: address });
+      });
+    }
+
+    const resized = previous?.end.row !== next?.end.row || previous?.end.col !== next?.end.col;
+    if (resized) {
+      [previous, next].forEach(area => area && forEachInBlock(area, cell => {
+        if (!sameAddress(cell, address)) moved.push(cell);
+      }));
+    }
+  };
+
+  const total = affected.size;
+  let done = 0;
+  const evaluateInOrder = (keys: string[]) => keys.forEach(key => {
+    store(graph.get(key)!.address, evaluateArrayFormulaNode(nodes.get(key)!, context));
+    onProgress?.(++done, total);
+  });
+
+  invalid.forEach(({ address, error }) => store(address, error));
+
+  // Cells left unordered are either in a cycle or read from one. Cycle members
+  // show #CIRC!; the cells downstream of them are evaluated afterwards and pick
+  // the error up like any other. Anything still unordered after that belongs
+  // to a cycle too (a second loop through the same cells)
+  const { order, cyclic } = sortTopologically(graph, affected);
+  evaluateInOrder(order);
+
+  if (cyclic.length > 0) {
+    const circular = new Set<string>();
+    findCycles(graph, new Set(cyclic)).forEach(path => {
+      const description = path.map(key => formatCellReference(graph.get(key)!.address)).join(' → ');
+      path.forEach(key => {
+        circular.add(key);
+        store(graph.get(key)!.address, new FormulaError(CIRCULAR_REFERENCE, `Circular reference: ${description}`));
+      });
+    });
+
+    const downstream = sortTopologically(graph, new Set(cyclic.filter(key => !circular.has(key))));
+    downstream.cyclic.forEach(key => {
+      store(graph.get(key)!.address, new FormulaError(CIRCULAR_REFERENCE, 'Circular reference'));
+    });
+    evaluateInOrder(downstream.order);
+  }
+
+  return { grid: copiedRows.size > 0 ? result : swept.grid, moved };
+};
+
+/**
+ * Recompute formula cells after a change, in dependency order
+ * Only the changed cells' dependents, and formulas calling volatile functions
+ * like TODAY, are recomputed; omit `changed` to recompute every formula (after
+ * undo, sorting or structural edits).
+ * Multi-cell results spill into the empty cells below and to the right of
+ * their formula, or show #SPILL! when a cell there is in the way
+ * @param grid - Grid rows, data rows only (row 0 is Excel row 2)
+ * @param headers - Column names, readable as row 1
+ * @param changed - Cells whose values changed
+ * @param names - Named ranges formulas may use
+ * @param onProgress - Called as formulas are evaluated, for showing the progress of
+ *   long recalculations (each spill pass counts from zero again)
+ * @returns A grid with updated formula values (unchanged rows and cells keep their identity)
+ */
+export const recalculateGrid = <T extends GridCell>(
+  grid: T[][],
+  headers: string[],
+  changed?: CellAddress[],
+  names: NamedRange[] = [],
+  onProgress?: RecalculationProgress
+): T[][] => {
+  const resolveName = createNameResolver(names);
+  let result = grid;
+  let pending = changed;
+  // A result that grew or shrank changes which cells formulas see, so those
+  // cells are treated as changed in another pass
+  for (let pass = 0; pass < MAX_SPILL_PASSES; pass++) {
+    const { grid: next, moved } = recalculateOnce(result, headers, pending, resolveName, onProgress);
+    result = next;
+    if (moved.length === 0) break;
+    pending = moved;
+  }
+  return result;
+};
+
+/**
+ * Find the reference cycles in a grid, for explaining #CIRC! errors
+ * Only cells currently showing #CIRC! are inspected, so this stays cheap
+ * @param grid - Grid rows, as returned by recalculateGrid
+ * @param names - Named ranges formulas may use
+ * @returns One closed path of cell addresses per cycle (e.g. B2 → C2 → B2)
+ */
+export const findCircularReferences = <T extends GridCell>(grid: T[][], names: NamedRange[] = []): CellAddress[][] => {
+  const { graph } = buildGridGraph(grid, createNameResolver(names), cell => cell.value === CIRCULAR_REFERENCE);
+  if (graph.size === 0) return [];
+  return findCycles(graph, new Set(graph.keys()))
+    .map(path => path.map(key => graph.get(key)!.address));
+};
+
+// ============================================================================
+// AUDITING
+// ============================================================================
+
+/**
+ * Find the cells a cell's value comes from directly, for tracing precedents
+ * A spilled cell comes from the formula it was spilled by
+ * @param grid - Grid rows
+ * @param address - Cell to trace
+ * @param names - Named ranges formulas may use
+ * @returns Blocks of cells the cell's formula reads (none for plain values and
+ *   formulas that do not parse)
+ */
+export const tracePrecedents = <T extends GridCell>(
+  grid: T[][],
+  address: CellAddress,
+  names: NamedRange[] = []
+): Precedent[] => {
+  const cell = grid[address.row]?.[address.col];
+  if (cell?.spilledFrom) return [{ start: cell.spilledFrom, end: cell.spilledFrom }];
+  if (!cell?.formula?.startsWith('=')) return [];
+  const parsed = parseCached(cell.formula);
+  return parsed instanceof FormulaError ? [] : collectPrecedents(parsed, createNameResolver(names));
+};
+
+/**
+ * Find the formula cells that read a cell directly, for tracing dependents
+ * A formula reading part of a spilled result depends on the formula that spilled it
+ * @param grid - Grid rows
+ * @param address - Cell to trace (row -1 for a header cell)
+ * @param names - Named ranges formulas may use
+ * @returns Addresses of the dependent formula cells, row by row
+ */
+export const traceDependents = <T extends GridCell>(
+  grid: T[][],
+  address: CellAddress,
+  names: NamedRange[] = []
+): CellAddress[] => {
+  const { graph } = buildGridGraph(grid, createNameResolver(names));
+  return Array.from(graph.values())
+    .filter(entry =>
+      !sameAddress(entry.address, address) && entry.precedents.some(precedent => inBlock(precedent, address))
+    )
+    .map(entry => entry.address);
+};
@@ -0,0 +1,128 @@
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Position of a cell in the grid using the Spreadsheet's coordinates
+ * Row -1 is the header row (Excel row 1), row 0 is the first data row (Excel row 2)
+ * @property row - Zero-based data row index, or -1 for the header row
+ * @property col - Zero-based column index
+ */
+export type CellAddress = { row: number; col: number };
+
+// ============================================================================
+// COLUMN LETTERS
+// ============================================================================
+
+/**
+ * Convert Excel-style column letter to zero-based index
+ * Examples: A=0, B=1, Z=25, AA=26, AB=27, etc.
+ * @param letter - The column letter(s) to convert
+ * @returns Zero-based column index
+ */
+export const columnLetterToIndex = (letter: string): number => {
+  let result = 0;
+  const upper = letter.toUpperCase();
+  for (let i = 0; i < upper.length; i++) {
+    result = result * 26 + (upper.charCodeAt(i) - 65 + 1);
+  }
+  return result - 1;
+};
+
+/**
+ * Convert column index to Excel-style letter (0=A, 1=B, 25=Z, 26=AA, etc.)
+ * @param index - Zero-based column index
+ * @returns Excel-style column letter(s)
+ */
+export const columnIndexToLetter = (index: number): string => {
+  let result = '';
+  while (index >= 0) {
+    result = String.fromCharCode(65 + (index % 26)) + result;
+    index = Math.floor(index / 26) - 1;
+  }
+  return result;
+};
+
+// ============================================================================
+// CELL REFERENCES
+// ============================================================================
+
+/** Matches an A1-style cell reference such as "B3", "AA12" or "$B$3" */
+const CELL_REFERENCE_PATTERN = /^(\$?)([A-Za-z]{1,3})(\$?)(\d+)$/;
+
+/**
+ * A cell reference as written in a formula
+ * @property address - Grid coordinates of the cell
+ * @property absoluteCol - Column is anchored with "$" (e.g. $B3)
+ * @property absoluteRow - Row is anchored with "$" (e.g. B$3)
+ */
+export type ReferenceParts = { address: CellAddress; absoluteCol: boolean; absoluteRow: boolean };
+
+/**
+ * Check whether a word is an A1-style cell reference
+ * @param text - Candidate reference text
+ * @returns True if the text is a cell reference
+ */
+export const isCellReference = (text: string): boolean => CELL_REFERENCE_PATTERN.test(text);
+
+/**
+ * Parse an A1-style reference, keeping its "$" anchors
+ * @param text - Reference text (e.g. "B3" or "$B$3")
+ * @returns Address and anchors, or null if the text is not a valid reference
+ */
+export const parseReferenceParts = (text: string): ReferenceParts | null => {
+  const match = text.match(CELL_REFERENCE_PATTERN);
+  if (!match) return null;
+
+  const rowNumber = parseInt(match[4], 10);
+  if (rowNumber < 1) return null;
+
+  return {
+    address: {
+      row: rowNumber - 2, // Excel row 1 is the header row (-1)
+      col: columnLetterToIndex(match[2])
+    },
+    absoluteCol: match[1] === '$',
+    absoluteRow: match[3] === '$'
+  };
+};
+
+/**
+ * Parse an A1-style reference into grid coordinates
+ * "$" anchors are accepted and ignored
+ * @param text - Reference text (e.g. "B3")
+ * @returns Cell address, or null if the text is not a valid reference
+ */
+export const parseCellReference = (text: string): CellAddress | null =>
+  parseReferenceParts(text)?.address ?? null;
+
+/**
+ * Format grid coordinates as an A1-style reference
+ * @param address - Cell address
+ * @returns Reference text (e.g. "B3")
+ */
+export const formatCellReference = ({ row, col }: CellAddress): string =>
+  `${columnIndexToLetter(col)}${row + 2}`;
+
+/**
+ * Format the block between two corners as an A1-style range
+ * Corners are normalized so the range reads top-left to bottom-right
+ * @param start - One corner
+ * @param end - The opposite corner
+ * @returns Range text (e.g. "B2:C4"), or a single reference when the corners are the same cell
+ */
+export const formatRangeReference = (start: CellAddress, end: CellAddress): string => {
+  const topLeft = { row: Math.min(start.row, end.row), col: Math.min(start.col, end.col) };
+  const bottomRight = { row: Math.max(start.row, end.row), col: Math.max(start.col, end.col) };
+  const first = formatCellReference(topLeft);
+  const last = formatCellReference(bottomRight);
+  return first === last ? first : `${first}:${last}`;
+};
+
+/**
+ * Format a reference with its "$" anchors
+ * @param parts - Address and anchors
+ * @returns Reference text (e.g. "$B3")
+ */
+export const formatReferenceParts = ({ address, absoluteCol, absoluteRow }: ReferenceParts): string =>
+  `${absoluteCol ? '$' : ''}${columnIndexToLetter(address.col)}${absoluteRow ? '$' : ''}${address.row + 2}`;
@@ -0,0 +1,323 @@
+import { FormulaError } from './errors';
+import type { NamedRange } from './names';
+import { formatReferenceParts, parseReferenceParts } from './references';
+import { Token, tokenize } from './tokenizer';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A change to the grid's structure that moves cells around
+ * Row indexes are data rows (0 is Excel row 2); the header row never moves
+ * - insert: `count` empty rows/columns are inserted before `index`
+ * - delete: `count` rows/columns starting at `index` are removed
+ * - move: the row/column at `from` is taken out and reinserted at `to`
+ */
+export type StructuralChange = { axis: 'row' | 'column' } & (
+  | { type: 'insert'; index: number; count: number }
+  | { type: 'delete'; index: number; count: number }
+  | { type: 'move'; from: number; to: number }
+);
+
+// ============================================================================
+// INDEX MAPPING
+// ============================================================================
+
+/**
+ * Where a row or column index ends up after a change
+ * @param change - Structural change on the same axis
+ * @param index - Index before the change
+ * @returns Index after the change, or null if it was deleted
+ */
+export const mapIndex = (change: StructuralChange, index: number): number | null => {
+  switch (change.type) {
+    case 'insert':
+      return index >= change.index ? index + change.count : index;
+    case 'delete':
+      if (index < change.index) return index;
+      return index < change.index + change.count ? null : index - change.count;
+    case 'move': {
+      if (index === change.from) return change.to;
+      const withoutMoved = index > change.from ? index - 1 : index;
+      return withoutMoved >= change.to ? withoutMoved + 1 : withoutMoved;
+    }
+  }
+};
+
+/**
+ * Where the span between two range corners ends up after a change
+ * Deleting part of a range shrinks it; deleting all of it removes it
+ * @param change - Structural change on the same axis
+ * @param start - Lower corner index
+ * @param end - Upper corner index
+ * @returns New [start, end], or null if the whole span was deleted
+ */
+const mapSpan = (change: StructuralChange, start: number, end: number): [number, number] | null => {
+  if (change.type !== 'delete') {
+    const a = mapIndex(change, start)!;
+    const b = mapIndex(change, end)!;
+    return [Math.min(a, b), Math.max(a, b)];
+  }
+
+  const deletedEnd = change.index + change.count;
+  const newStart = start < change.index ? start : start < deletedEnd ? change.index : start - change.count;
+  const newEnd = end < change.index ? end : end < deletedEnd ? change.index - 1 : end - change.count;
+  return newEnd < newStart ? null : [newStart, newEnd];
+};
+
+// ============================================================================
+// FORMULA REWRITING
+// ============================================================================
+
+/**
+ * Rewrite a single reference token
+ * @param text - Reference text (e.g. "$B3")
+ * @param change - Structural change
+ * @returns New reference text, or null if the cell was deleted
+ */
+const rewriteReference = (text: string, change: StructuralChange): string | null => {
+  const parts = parseReferenceParts(text)!;
+  const key = change.axis === 'row' ? 'row' : 'col';
+  // The header row is not part of any row change
+  if (key === 'row' && parts.address.row < 0) return text;
+
+  const mapped = mapIndex(change, parts.address[key]);
+  if (mapped === null) return null;
+  if (mapped === parts.address[key]) return text;
+  return formatReferenceParts({ ...parts, address: { ...parts.address, [key]: mapped } });
+};
+
+/**
+ * Rewrite a range given as its two corner tokens
+ * @param startText - First corner (e.g. "B2")
+ * @param endText - Second corner (e.g. "B10")
+ * @param change - Structural change
+ * @returns New range text, or null if every cell in it was deleted
+ */
+const rewriteRange = (startText: string, endText: string, change: StructuralChange): string | null => {
+  const start = parseReferenceParts(startText)!;
+  const end = parseReferenceParts(endText)!;
+  const key = change.axis === 'row' ? 'row' : 'col';
+
+  const low = Math.min(start.address[key], end.address[key]);
+  const high = Math.max(start.address[key], end.address[key]);
+
+  let span: [number, number] | null;
+  if (key === 'row' && low < 0) {
+    // A range starting in the header keeps its header cell; only its data rows move
+    const dataSpan = high < 0 ? null : mapSpan(change, 0, high);
+    span = [low, dataSpan ? dataSpan[1] : low];
+  } else {
+    span = mapSpan(change, low, high);
+  }
+  if (span === null) return null;
+
+  const [newLow, newHigh] = span;
+  if (newLow === low && newHigh === high) return `${startText}:${endText}`;
+  const startIsLow = start.address[key] <= end.address[key];
+  const withIndex = (parts: typeof start, index: number) =>
+    formatReferenceParts({ ...parts, address: { ...parts.address, [key]: index } });
+
+  return `${withIndex(start, startIsLow ? newLow : newHigh)}:${withIndex(end, startIsLow ? newHigh : newLow)}`;
+};
+
+/**
+ * Adjust a formula's references for a change in the grid's structure
+ * References follow the cells they point at; references to deleted cells
+ * become #REF!. Everything else in the formula text is kept as written
+ * @param formula - Formula text including the leading "="
+ * @param change - Structural change
+ * @returns The rewritten formula (unchanged if it does not parse)
+ */
+export const rewriteFormula = (formula: string, change: StructuralChange): string => {
+  const source = formula.slice(1);
+  let tokens: Token[];
+  try {
+    tokens = tokenize(source);
+  } catch (error) {
+    if (error instanceof FormulaError) return formula;
+    throw error;
+  }
+
+  let output = '';
+  let copiedTo = 0;
+  const replace = (from: number, to: number, text: string) => {
+    output += source.slice(copiedTo, from) + text;
+    copiedTo = to;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'reference') continue;
+
+    const isRange = tokens[i + 1]?.type === 'colon' && tokens[i + 2]?.type === 'reference';
+    if (isRange) {
+      const end = tokens[i + 2];
+      replace(token.position, end.position + end.value.length, rewriteRange(token.value, end.value, change) ?? '#REF!');
+      i += 2;
+    } else {
+      replace(token.position, token.position + token.value.length, rewriteReference(token.value, change) ?? '#REF!');
+    }
+  }
+
+  return '=' + output + source.slice(copiedTo);
+};
+
+/**
+ * Move a single reference token by an offset, leaving $-anchored parts alone
+ * @param text - Reference text (e.g. "$B3")
+ * @param rows - Rows to move down (negative moves up)
+ * @param cols - Columns to move right (negative moves left)
+ * @returns New reference text, or null if it would fall off the sheet
+ */
+const shiftReference = (text: string, rows: number, cols: number): string | null => {
+  const parts = parseReferenceParts(text)!;
+  const row = parts.absoluteRow ? parts.address.row : parts.address.row + rows;
+  const col = parts.absoluteCol ? parts.address.col : parts.address.col + cols;
+  // Row -1 is the header row (Excel row 1); nothing is above it
+  if (row < -1 || col < 0) return null;
+  return formatReferenceParts({ ...parts, address: { row, col } });
+};
+
+/**
+ * Adjust a formula's relative references for copying it to another cell
+ * As in Excel, relative references keep their distance from the formula, so
+ * "=A2*2" copied one row down becomes "=A3*2"; $-anchored rows and columns stay
+ * put. References (and whole ranges) moved off the sheet become #REF!
+ * @param formula - Formula text including the leading "="
+ * @param rows - Rows the formula moves down (negative moves up)
+ * @param cols - Columns the formula moves right (negative moves left)
+ * @returns The adjusted formula (unchanged if it does not parse)
+ */
+export const shiftFormula = (formula: string, rows: number, cols: number): string => {
+  if (rows === 0 && cols === 0) return formula;
+  const source = formula.slice(1);
+  let tokens: Token[];
+  try {
+    tokens = tokenize(source);
+  } catch (error) {
+    if (error instanceof FormulaError) return formula;
+    throw error;
+  }
+
+  let output = '';
+  let copiedTo = 0;
+  const replace = (from: number, to: number, text: string) => {
+    output += source.slice(copiedTo, from) + text;
+    copiedTo = to;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'reference') continue;
+
+    const isRange = tokens[i + 1]?.type === 'colon' && tokens[i + 2]?.type === 'reference';
+    if (isRange) {
+      const end = tokens[i + 2];
+      const start = shiftReference(token.value, rows, cols);
+      const finish = shiftReference(end.value, rows, cols);
+      replace(token.position, end.position + end.value.length, start && finish ? `${start}:${finish}` : '#REF!');
+      i += 2;
+    } else {
+      replace(token.position, token.position + token.value.length, shiftReference(token.value, rows, cols) ?? '#REF!');
+    }
+  }
+
+  return '=' + output + source.slice(copiedTo);
+};
+
+/**
+ * Rename a named range wherever a formula uses it
+ * Names match case-insensitively; function names and text in quotes are left alone
+ * @param formula - Formula text including the leading "="
+ * @param from - Current name
+ * @param to - New name
+ * @returns The rewritten formula (unchanged if it does not parse)
+ */
+export const renameInFormula = (formula: string, from: string, to: string): string => {
+  const source = formula.slice(1);
+  let tokens: Token[];
+  try {
+    tokens = tokenize(source);
+  } catch (error) {
+    if (error instanceof FormulaError) return formula;
+    throw error;
+  }
+
+  const target = from.toUpperCase();
+  let output = '';
+  let copiedTo = 0;
+  tokens.forEach((token, i) => {
+    const isName = token.type === 'identifier' && tokens[i + 1]?.type !== 'lparen';
+    if (!isName || token.value.toUpperCase() !== target) return;
+    output += source.slice(copiedTo, token.position) + to;
+    copiedTo = token.position + token.value.length;
+  });
+
+  return '=' + output + source.slice(copiedTo);
+};
+
+/**
+ * Apply a rewrite to every formula in a grid
+ * @param grid - Grid rows
+ * @param rewrite - Produces the new text of one formula
+ * @returns A grid with rewritten formulas (same grid if none changed)
+ */
+const mapGridFormulas = <T extends { formula?: string }>(grid: T[][], rewrite: (formula: string) => string): T[][] => {
+  let changed = false;
+  const result = grid.map(row => {
+    if (!row.some(cell => cell.formula?.startsWith('='))) return row;
+    return row.map(cell => {
+      if (!cell.formula?.startsWith('=')) return cell;
+      const formula = rewrite(cell.formula);
+      if (formula === cell.formula) return cell;
+      changed = true;
+      return { ...cell, formula };
+    });
+  });
+  return changed ? result : grid;
+};
+
+/**
+ * Rewrite every formula in a grid for a structural change
+ * The grid itself should already have the change applied; only formula text is touched
+ * @param grid - Grid rows
+ * @param change - Structural change
+ * @returns A grid whose formulas follow the cells they referenced (same grid if none changed)
+ */
+export const rewriteGridFormulas = <T extends { formula?: string }>(grid: T[][], change: StructuralChange): T[][] =>
+  mapGridFormulas(grid, formula => rewriteFormula(formula, change));
+
+/**
+ * Rename a named range in every formula in a grid
+ * @param grid - Grid rows
+ * @param from - Current name
+ * @param to - New name
+ * @returns A grid whose formulas use the new name (same grid if none changed)
+ */
+export const renameInGridFormulas = <T extends { formula?: string }>(grid: T[][], from: string, to: string): T[][] =>
+  mapGridFormulas(grid, formula => renameInFormula(formula, from, to));
+
+// ============================================================================
+// NAMED RANGES
+// ============================================================================
+
+/**
+ * Adjust what named ranges refer to for a change in the grid's structure
+ * Names follow their cells like formula references do; a name whose cells
+ * were all deleted refers to #REF!
+ * @param names - Named ranges
+ * @param change - Structural change
+ * @returns The rewritten names (same array if none changed)
+ */
+export const rewriteNamedRanges = (names: NamedRange[], change: StructuralChange): NamedRange[] => {
+  let changed = false;
+  const result = names.map(named => {
+    const reference = rewriteFormula('=' + named.reference, change).slice(1);
+    if (reference === named.reference) return named;
+    changed = true;
+    return { ...named, reference };
+  });
+  return changed ? result : names;
+};
@@ -0,0 +1,299 @@
+import { FormulaError } from './errors';
+import type { FormulaFunction } from './functions';
+import { FormulaValue, collectNumbers, isError, numericValue, toNumber, toRange } from './values';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Collect the numbers of a statistical function's arguments, requiring some
+ * @param args - Evaluated arguments
+ * @param name - Function name, for error messages
+ * @returns The numbers, in argument order
+ * @throws FormulaError (#NUM!) when there are no numbers
+ */
+const requireNumbers = (args: FormulaValue[], name: string): number[] => {
+  const numbers = collectNumbers(args);
+  if (numbers.length === 0) {
+    throw new FormulaError('#NUM!', `${name} needs at least one number`);
+  }
+  return numbers;
+};
+
+/**
+ * Mean of a non-empty list of numbers
+ * @param numbers - Numbers to average
+ */
+const mean = (numbers: number[]): number => numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+
+/**
+ * Variance of the numbers in the arguments
+ * @param args - Evaluated arguments
+ * @param sample - Treat the numbers as a sample (divide by n - 1) rather than the whole population
+ * @param name - Function name, for error messages
+ * @throws FormulaError (#DIV/0!) with too few numbers
+ */
+const variance = (args: FormulaValue[], sample: boolean, name: string): number => {
+  const numbers = collectNumbers(args);
+  const divisor = sample ? numbers.length - 1 : numbers.length;
+  if (divisor <= 0) {
+    throw new FormulaError('#DIV/0!', `${name} needs at least ${sample ? 2 : 1} numbers`);
+  }
+  const average = mean(numbers);
+  return numbers.reduce((sum, n) => sum + (n - average) ** 2, 0) / divisor;
+};
+
+/**
+ * Interpolated percentile of a list of numbers
+ * @param args - The range and k, as passed to PERCENTILE
+ * @param exclusive - Use the exclusive method (k strictly between 0 and 1, rank (n + 1)k)
+ *   instead of the inclusive one (rank (n - 1)k + 1)
+ * @param name - Function name, for error messages
+ * @throws FormulaError (#NUM!) when k is out of range for the data
+ */
+const percentile = ([range, kArg]: FormulaValue[], exclusive: boolean, name: string): number => {
+  const sorted = requireNumbers([range], name).sort((a, b) => a - b);
+  const k = toNumber(kArg);
+  const rank = exclusive ? (sorted.length + 1) * k : (sorted.length - 1) * k + 1;
+  if (k < 0 || k > 1 || rank < 1 || rank > sorted.length) {
+    throw new FormulaError('#NUM!', `${name} percentile ${k} is out of range for ${sorted.length} numbers`);
+  }
+
+  const lower = Math.floor(rank);
+  const fraction = rank - lower;
+  if (fraction === 0) return sorted[lower - 1];
+  return sorted[lower - 1] + fraction * (sorted[lower] - sorted[lower - 1]);
+};
+
+/**
+ * Quartile of a list of numbers, as a percentile
+ * @param args - The range and the quartile number, as passed to QUARTILE
+ * @param exclusive - Use the exclusive percentile method (quartiles 1-3 only)
+ * @param name - Function name, for error messages
+ * @throws FormulaError (#NUM!) for quartile numbers out of range
+ */
+const quartile = ([range, quartArg]: FormulaValue[], exclusive: boolean, name: string): number => {
+  const quart = Math.trunc(toNumber(quartArg));
+  if (exclusive ? quart < 1 || quart > 3 : quart < 0 || quart > 4) {
+    throw new FormulaError('#NUM!', `${name} quartile must be ${exclusive ? '1 to 3' : '0 to 4'}`);
+  }
+  return percentile([range, quart / 4], exclusive, name);
+};
+
+/**
+ * Rank of a number within a list, 1 for the largest unless ascending
+ * @param args - The number, the range and the optional order, as passed to RANK
+ * @param average - Give ties the average of the ranks they share instead of the best one
+ * @param name - Function name, for error messages
+ * @throws FormulaError (#N/A) when the number is not in the list
+ */
+const rank = ([numberArg, range, order = 0]: FormulaValue[], average: boolean, name: string): number => {
+  const value = toNumber(numberArg);
+  const numbers = collectNumbers([range]);
+  const ascending = toNumber(order) !== 0;
+
+  const ties = numbers.filter(n => n === value).length;
+  if (ties === 0) {
+    throw new FormulaError('#N/A', `${name}: ${value} is not in the list`);
+  }
+  const ahead = numbers.filter(n => (ascending ? n < value : n > value)).length;
+  return average ? ahead + (ties + 1) / 2 : ahead + 1;
+};
+
+// ============================================================================
+// FUNCTIONS
+// ============================================================================
+
+/**
+ * Statistical functions, keyed by upper-case name
+ * Like the aggregates, they read only the numeric cells of ranges. Names with
+ * a .S/.P suffix choose the sample or population formula; the plain names are
+ * the sample versions. Ties follow the usual spreadsheet rules: MODE returns
+ * the first of the most frequent values, RANK gives tied numbers the best rank
+ * and RANK.AVG the average of the ranks they share
+ */
+export const STATISTICAL_FUNCTIONS: Record<string, FormulaFunction> = {
+  MEDIAN: {
+    description: 'Returns the middle number',
+    args: ['number'],
+    minArgs: 1,
+    evaluate: args => percentile([[requireNumbers(args, 'MEDIAN')], 0.5], false, 'MEDIAN')
+  },
+
+  MODE: {
+    description: 'Returns the most common number',
+    args: ['number'],
+    minArgs: 1,
+    evaluate: args => {
+      const counts = new Map<number, number>();
+      requireNumbers(args, 'MODE').forEach(n => counts.set(n, (counts.get(n) ?? 0) + 1));
+      // Maps keep insertion order, so the first most frequent number wins ties
+      let mode = 0;
+      let best = 1;
+      counts.forEach((count, n) => {
+        if (count > best) [mode, best] = [n, count];
+      });
+      if (best === 1) {
+        throw new FormulaError('#N/A', 'MODE found no repeated number');
+      }
+      return mode;
+    }
+  },
+
+  STDEV: {
+    description: 'Standard deviation of a sample',
+    args: ['number'],
+    minArgs: 1,
+    evaluate: args => Math.sqrt(variance(args, true, 'STDEV'))
+  },
+  'STDEV.S': {
+    description: 'Standard deviation of a sample',
+    args: ['number'],
+    minArgs: 1,
+    evaluate: args => Math.sqrt(variance(args, true, 'STDEV.S'))
+  },
+  'STDEV.P': {
+    description: 'Standard deviation of a whole population',
+    args: ['number'],
+    minArgs: 1,
+    evaluate: args => Math.sqrt(variance(args, false, 'STDEV.P'))
+  },
+  STDEVP: {
+    description: 'Standard deviation of a whole population',
+    args: ['number'],
+    minArgs: 1,
+    evaluate: args => Math.sqrt(variance(args, false, 'STDEVP'))
+  },
+
+  VAR: {
+    description: 'Variance of a sample',
+    args: ['number'],
+    minArgs: 1,
+    evaluate: args => variance(args, true, 'VAR')
+  },
+  'VAR.S': {
+    description: 'Variance of a sample',
+    args: ['number'],
+    minArgs: 1,
+    evaluate: args => variance(args, true, 'VAR.S')
+  },
+  'VAR.P': {
+    description: 'Variance of a whole population',
+    args: ['number'],
+    minArgs: 1,
+    evaluate: args => variance(args, false, 'VAR.P')
+  },
+  VARP: {
+    description: 'Variance of a whole population',
+    args: ['number'],
+    minArgs: 1,
+    evaluate: args => variance(args, false, 'VARP')
+  },
+
+  PERCENTILE: {
+    description: 'Returns the k-th percentile of a range, for k from 0 to 1',
+    args: ['array', 'k'],
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: args => percentile(args, false, 'PERCENTILE')
+  },
+  'PERCENTILE.INC': {
+    description: 'Returns the k-th percentile of a range, for k from 0 to 1',
+    args: ['array', 'k'],
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: args => percentile(args, false, 'PERCENTILE.INC')
+  },
+  'PERCENTILE.EXC': {
+    description: 'Returns the k-th percentile of a range, for k between 0 and 1',
+    args: ['array', 'k'],
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: args => percentile(args, true, 'PERCENTILE.EXC')
+  },
+
+  QUARTILE: {
+    description: 'Returns a quartile of a range, for quart from 0 to 4',
+    args: ['array', 'quart'],
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: args => quartile(args, false, 'QUARTILE')
+  },
+  'QUARTILE.INC': {
+    description: 'Returns a quartile of a range, for quart from 0 to 4',
+    args: ['array', 'quart'],
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: args => quartile(args, false, 'QUARTILE.INC')
+  },
+  'QUARTILE.EXC': {
+    description: 'Returns a quartile of a range, for quart from 1 to 3',
+    args: ['array', 'quart'],
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: args => quartile(args, true, 'QUARTILE.EXC')
+  },
+
+  CORREL: {
+    description: 'Correlation coefficient of two ranges',
+    args: ['array1', 'array2'],
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([first, second]) => {
+      const xs = toRange(first).flat();
+      const ys = toRange(second).flat();
+      if (xs.length !== ys.length) {
+        throw new FormulaError('#N/A', 'CORREL ranges must be the same size');
+      }
+
+      // Only positions holding a number in both ranges are paired
+      const pairs: [number, number][] = [];
+      xs.forEach((xValue, i) => {
+        const yValue = ys[i];
+        if (isError(xValue)) throw xValue;
+        if (isError(yValue)) throw yValue;
+        const x = numericValue(xValue);
+        const y = numericValue(yValue);
+        if (x !== null && y !== null) pairs.push([x, y]);
+      });
+
+      const meanX = mean(pairs.map(([x]) => x));
+      const meanY = mean(pairs.map(([, y]) => y));
+      let covariance = 0;
+      let spreadX = 0;
+      let spreadY = 0;
+      pairs.forEach(([x, y]) => {
+        covariance += (x - meanX) * (y - meanY);
+        spreadX += (x - meanX) ** 2;
+        spreadY += (y - meanY) ** 2;
+      });
+      if (pairs.length < 2 || spreadX === 0 || spreadY === 0) {
+        throw new FormulaError('#DIV/0!', 'CORREL needs at least two pairs of values that vary');
+      }
+      return covariance / Math.sqrt(spreadX * spreadY);
+    }
+  },
+
+  RANK: {
+    description: 'Rank of a number in a list of numbers',
+    args: ['number', 'ref', 'order'],
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: args => rank(args, false, 'RANK')
+  },
+  'RANK.EQ': {
+    description: 'Rank of a number in a list of numbers; ties share the highest rank',
+    args: ['number', 'ref', 'order'],
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: args => rank(args, false, 'RANK.EQ')
+  },
+  'RANK.AVG': {
+    description: 'Rank of a number in a list of numbers; ties share the average rank',
+    args: ['number', 'ref', 'order'],
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: args => rank(args, true, 'RANK.AVG')
+  }
+};
@@ -0,0 +1,293 @@
+import { partsFromSerial } from './calendar';
+import { FormulaError } from './errors';
+import type { FormulaFunction } from './functions';
+import { CellValue, FormulaValue, isRange, toBoolean, toNumber, toText } from './values';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** Pieces of a TEXT format: quoted literals, date/time codes, or single characters */
+const FORMAT_TOKEN_PATTERN = /"[^"]*"|yyyy|yy|m{1,4}|d{1,4}|hh?|ss?|am\/pm|[\s\S]/gi;
+
+/** Format codes that only make sense for dates and times */
+const DATE_CODE_PATTERN = /^(y+|d+|h+|s+|mmm+|am\/pm)$/i;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Read a character count argument
+ * @param value - Evaluated argument, undefined when omitted
+ * @param fallback - Count used when the argument is omitted
+ * @param name - Function name, for error messages
+ * @throws FormulaError (#VALUE!) for negative counts
+ */
+const toCount = (value: FormulaValue | undefined, fallback: number, name: string): number => {
+  const count = value === undefined ? fallback : Math.trunc(toNumber(value));
+  if (count < 0) {
+    throw new FormulaError('#VALUE!', `${name} cannot take a negative number of characters`);
+  }
+  return count;
+};
+
+/**
+ * Format a serial number with date and time codes such as "yyyy-mm-dd" or "mmm d, h:mm AM/PM"
+ * "m" means minutes right after an hour code or right before a seconds code
+ * @param serial - Serial number
+ * @param tokens - Format split into tokens
+ */
+const formatDateCodes = (serial: number, tokens: string[]): string => {
+  const { year, month, day, hours, minutes, seconds, weekday } = partsFromSerial(serial);
+  const twelveHour = tokens.some(token => token.toLowerCase() === 'am/pm');
+  // Positions of the date and time codes, to tell minutes from months
+  const codes = tokens.map((token, i) => (/^(y+|m+|d+|h+|s+)$/i.test(token) ? i : -1)).filter(i => i >= 0);
+  const pad = (n: number) => String(n).padStart(2, '0');
+
+  return tokens.map((token, i) => {
+    if (token.startsWith('"')) return token.slice(1, -1);
+    const code = token.toLowerCase();
+    const position = codes.indexOf(i);
+    const previous = tokens[codes[position - 1]]?.toLowerCase() ?? '';
+    const next = tokens[codes[position + 1]]?.toLowerCase() ?? '';
+    const hour = twelveHour ? (hours % 12 || 12) : hours;
+
+    switch (code) {
+      case 'yyyy': return String(year);
+      case 'yy': return pad(year % 100);
+      case 'mmmm': return MONTH_NAMES[month - 1];
+      case 'mmm': return MONTH_NAMES[month - 1].slice(0, 3);
+      case 'mm':
+      case 'm': {
+        const isMinutes = previous.startsWith('h') || next.startsWith('s');
+        const n = isMinutes ? minutes : month;
+        return code === 'mm' ? pad(n) : String(n);
+      }
+      case 'dddd': return DAY_NAMES[weekday];
+      case 'ddd': return DAY_NAMES[weekday].slice(0, 3);
+      case 'dd': return pad(day);
+      case 'd': return String(day);
+      case 'hh': return pad(hour);
+      case 'h': return String(hour);
+      case 'ss': return pad(seconds);
+      case 's': return String(seconds);
+      case 'am/pm': return hours < 12 ? 'AM' : 'PM';
+      default: return token;
+    }
+  }).join('');
+};
+
+/**
+ * Format a number with a pattern such as "0.00", "#,##0", "0%" or "$#,##0.00"
+ * Text around the digit placeholders is kept as written
+ * @param value - Number to format
+ * @param tokens - Format split into tokens
+ */
+const formatNumberCodes = (value: number, tokens: string[]): string => {
+  const first = tokens.findIndex(token => /^[0#]$/.test(token));
+  if (first === -1) return tokens.map(token => token.replace(/^"|"$/g, '')).join('');
+  let last = first;
+  while (last + 1 < tokens.length && /^[0#,.]$/.test(tokens[last + 1])) last++;
+
+  const pattern = tokens.slice(first, last + 1).join('');
+  const [integerPattern, fractionPattern = ''] = pattern.split('.');
+  const percent = tokens.includes('%');
+  const scaled = Math.abs(percent ? value * 100 : value);
+
+  const [integerDigits, fractionDigits = ''] = scaled.toFixed(fractionPattern.length).split('.');
+  const minimumDigits = integerPattern.replace(/[^0]/g, '').length;
+  let integer = integerDigits === '0' && minimumDigits === 0 ? '' : integerDigits.padStart(minimumDigits, '0');
+  if (integerPattern.includes(',')) integer = integer.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  // "#" places in the fraction are optional, so their trailing zeros are dropped
+  const optional = fractionPattern.length - fractionPattern.replace(/#+$/, '').length;
+  let fraction = fractionDigits;
+  for (let i = 0; i < optional && fraction.endsWith('0'); i++) fraction = fraction.slice(0, -1);
+
+  const literal = (part: string[]) => part.map(token => token.replace(/^"|"$/g, '')).join('');
+  const sign = value < 0 && Number(integerDigits + fractionDigits) !== 0 ? '-' : '';
+  return sign + literal(tokens.slice(0, first)) + integer + (fraction ? `.${fraction}` : '') + literal(tokens.slice(last + 1));
+};
+
+/**
+ * Format a value the way TEXT does
+ * @param value - Number, date or numeric text to format (other text is returned unchanged)
+ * @param format - Format pattern
+ * @returns The formatted text
+ */
+const formatText = (value: CellValue, format: string): string => {
+  let number: number;
+  try {
+    number = toNumber(value);
+  } catch (error) {
+    if (error instanceof FormulaError && typeof value === 'string') return value;
+    throw error;
+  }
+
+  const tokens = format.match(FORMAT_TOKEN_PATTERN) ?? [];
+  return tokens.some(token => DATE_CODE_PATTERN.test(token))
+    ? formatDateCodes(number, tokens)
+    : formatNumberCodes(number, tokens);
+};
+
+/**
+ * Turn one part of split text into a cell value; numeric parts become numbers
+ * @param part - Text between delimiters
+ */
+const splitPart = (part: string): CellValue => (part.trim() !== '' && !isNaN(Number(part)) ? Number(part) : part);
+
+// ============================================================================
+// FUNCTIONS
+// ============================================================================
+
+/**
+ * Text functions, keyed by upper-case name
+ * Arguments are converted to text first, so =LEN(B2) counts the digits of a number.
+ * Character positions are 1-based
+ */
+export const TEXT_FUNCTIONS: Record<string, FormulaFunction> = {
+  LEFT: {
+    description: 'Returns the first characters of text',
+    args: ['text', 'num_chars'],
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate: ([text, count]) => toText(text).slice(0, toCount(count, 1, 'LEFT'))
+  },
+
+  RIGHT: {
+    description: 'Returns the last characters of text',
+    args: ['text', 'num_chars'],
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate: ([text, count]) => {
+      const value = toText(text);
+      return value.slice(Math.max(0, value.length - toCount(count, 1, 'RIGHT')));
+    }
+  },
+
+  MID: {
+    description: 'Returns characters from the middle of text',
+    args: ['text', 'start_num', 'num_chars'],
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: ([text, startArg, count]) => {
+      const start = Math.trunc(toNumber(startArg));
+      if (start < 1) {
+        throw new FormulaError('#VALUE!', 'MID start position must be at least 1');
+      }
+      return toText(text).slice(start - 1, start - 1 + toCount(count, 0, 'MID'));
+    }
+  },
+
+  LEN: {
+    description: 'Returns the number of characters in text',
+    args: ['text'],
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([text]) => toText(text).length
+  },
+
+  TRIM: {
+    description: 'Removes extra spaces from text',
+    args: ['text'],
+    minArgs: 1,
+    maxArgs: 1,
+    // Removes leading and trailing spaces and collapses runs of spaces inside
+    evaluate: ([text]) => toText(text).trim().replace(/ {2,}/g, ' ')
+  },
+
+  UPPER: {
+    description: 'Converts text to upper case',
+    args: ['text'],
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([text]) => toText(text).toUpperCase()
+  },
+
+  LOWER: {
+    description: 'Converts text to lower case',
+    args: ['text'],
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: ([text]) => toText(text).toLowerCase()
+  },
+
+  CONCAT: {
+    description: 'Joins text and ranges into one text',
+    args: ['text'],
+    minArgs: 1,
+    // Ranges are joined cell by cell, row by row
+    evaluate: args => args.map(arg => (isRange(arg) ? arg.flat().map(toText).join('') : toText(arg))).join('')
+  },
+
+  TEXT: {
+    description: 'Formats a number or date as text',
+    args: ['value', 'format_text'],
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: ([value, format]) => {
+      if (isRange(value)) {
+        throw new FormulaError('#VALUE!', 'TEXT formats a single value');
+      }
+      return formatText(value, toText(format));
+    }
+  },
+
+  SUBSTITUTE: {
+    description: 'Replaces occurrences of text with new text',
+    args: ['text', 'old_text', 'new_text', 'instance_num'],
+    minArgs: 3,
+    maxArgs: 4,
+    evaluate: ([textArg, oldArg, newArg, instanceArg]) => {
+      const text = toText(textArg);
+      const search = toText(oldArg);
+      const replacement = toText(newArg);
+      if (search === '') return text;
+      if (instanceArg === undefined) return text.split(search).join(replacement);
+
+      // Replace only the nth occurrence
+      const instance = Math.trunc(toNumber(instanceArg));
+      if (instance < 1) {
+        throw new FormulaError('#VALUE!', 'SUBSTITUTE instance must be at least 1');
+      }
+      let index = -1;
+      for (let i = 0; i < instance; i++) {
+        index = text.indexOf(search, index + 1);
+        if (index === -1) return text;
+      }
+      return text.slice(0, index) + replacement + text.slice(index + search.length);
+    }
+  },
+
+  SPLIT: {
+    description: 'Splits text around a delimiter into a row of cells',
+    args: ['text', 'delimiter', 'split_by_each', 'remove_empty'],
+    minArgs: 2,
+    maxArgs: 4,
+    // =SPLIT(text, delimiter, [split_by_each], [remove_empty]) returns one row.
+    // By default every character of the delimiter separates and empty parts are dropped
+    evaluate: ([textArg, delimiterArg, byEachArg = true, removeEmptyArg = true]) => {
+      const text = toText(textArg);
+      const delimiter = toText(delimiterArg);
+      if (delimiter === '') {
+        throw new FormulaError('#VALUE!', 'SPLIT needs a delimiter');
+      }
+
+      let parts = toBoolean(byEachArg)
+        ? text.split(new RegExp(`[${delimiter.replace(/[\]\\^-]/g, '\\$&')}]`))
+        : text.split(delimiter);
+      if (toBoolean(removeEmptyArg)) parts = parts.filter(part => part !== '');
+      if (parts.length === 0) {
+        throw new FormulaError('#VALUE!', 'SPLIT produced no values');
+      }
+      return [parts.map(splitPart)];
+    }
+  }
+};
@@ -0,0 +1,159 @@
+import { ERROR_CODES, FormulaError } from './errors';
+import { isCellReference } from './references';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Kinds of tokens produced by the tokenizer
+ * - reference: an A1-style cell reference (e.g. B3, $B$3)
+ * - identifier: a function name or bare word (e.g. SUM, TRUE)
+ * - error: an error literal (e.g. #REF! left behind when a referenced cell is deleted)
+ */
+export type TokenType =
+  | 'number'
+  | 'string'
+  | 'reference'
+  | 'error'
+  | 'identifier'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'comma'
+  | 'colon'
+  | 'eof';
+
+/**
+ * A single lexical token
+ * @property type - Token kind
+ * @property value - Token text (string literals are unquoted)
+ * @property position - Offset of the token in the source
+ */
+export type Token = { type: TokenType; value: string; position: number };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Operators, longest first so "<=" wins over "<" */
+const OPERATORS = ['<>', '<=', '>=', '+', '-', '*', '/', '^', '&', '=', '<', '>', '%'];
+
+/** Number literal: 12, 1.5, .5, 1e6, 2.5E-3 */
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+
+/** Word: function names, cell references (optionally with "$" anchors) and bare identifiers */
+const WORD_PATTERN = /^\$?[A-Za-z_][A-Za-z0-9_.]*(\$\d+)?/;
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+/**
+ * Split formula text (without the leading "=") into tokens
+ * @param source - Formula text
+ * @returns Tokens, always terminated by an eof token
+ * @throws FormulaError on characters that cannot start a token or unterminated strings
+ */
+export const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+    const rest = source.slice(position);
+
+    // Skip whitespace
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    // String literal - "" inside a string is an escaped quote
+    if (char === '"') {
+      let value = '';
+      let end = position + 1;
+      while (true) {
+        if (end >= source.length) {
+          throw new FormulaError('#ERROR!', 'Unterminated string literal');
+        }
+        if (source[end] === '"') {
+          if (source[end + 1] === '"') {
+            value += '"';
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        value += source[end];
+        end++;
+      }
+      tokens.push({ type: 'string', value, position });
+      position = end + 1;
+      continue;
+    }
+
+    // Error literal - matched case-insensitively, stored in canonical form
+    if (char === '#') {
+      const code = ERROR_CODES.find(candidate => rest.toUpperCase().startsWith(candidate));
+      if (code) {
+        tokens.push({ type: 'error', value: code, position });
+        position += code.length;
+        continue;
+      }
+    }
+
+    const numberMatch = rest.match(NUMBER_PATTERN);
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: numberMatch[0], position });
+      position += numberMatch[0].length;
+      continue;
+    }
+
+    const wordMatch = rest.match(WORD_PATTERN);
+    if (wordMatch) {
+      const word = wordMatch[0];
+      const isCall = source.slice(position + word.length).trimStart().startsWith('(');
+      tokens.push({
+        type: !isCall && isCellReference(word) ? 'reference' : 'identifier',
+        value: word,
+        position
+      });
+      position += word.length;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ type: 'lparen', value: char, position });
+      position++;
+      continue;
+    }
+    if (char === ')') {
+      tokens.push({ type: 'rparen', value: char, position });
+      position++;
+      continue;
+    }
+    if (char === ',') {
+      tokens.push({ type: 'comma', value: char, position });
+      position++;
+      continue;
+    }
+    if (char === ':') {
+      tokens.push({ type: 'colon', value: char, position });
+      position++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => rest.startsWith(op));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position });
+      position += operator.length;
+      continue;
+    }
+
+    throw new FormulaError('#ERROR!', `Unexpected character "${char}" at position ${position}`);
+  }
+
+  tokens.push({ type: 'eof', value: '', position });
+  return tokens;
+};
@@ -0,0 +1,238 @@
+import { DateValue, formatDateSerial, parseDateText } from './calendar';
+import { FormulaError } from './errors';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A single value a formula can read or produce
+ * null represents a blank cell; a DateValue is a date held as its serial number;
+ * a FormulaError is an error value such as #DIV/0!
+ */
+export type CellValue = string | number | boolean | null | DateValue | FormulaError;
+
+/**
+ * A rectangular block of values, indexed [row][col]
+ */
+export type RangeValue = CellValue[][];
+
+/**
+ * Any intermediate result while evaluating a formula
+ */
+export type FormulaValue = CellValue | RangeValue;
+
+// ============================================================================
+// TYPE GUARDS
+// ============================================================================
+
+/**
+ * Check whether a value is a range rather than a single value
+ * @param value - Value to check
+ */
+export const isRange = (value: FormulaValue): value is RangeValue => Array.isArray(value);
+
+/**
+ * Check whether a value is an error value
+ * @param value - Value to check
+ */
+export const isError = (value: FormulaValue): value is FormulaError => value instanceof FormulaError;
+
+/**
+ * Check whether a value is a date
+ * @param value - Value to check
+ */
+export const isDate = (value: FormulaValue): value is DateValue => value instanceof DateValue;
+
+/**
+ * Read a value as a number only if it is numeric: numbers as they are and
+ * dates as their serial number
+ * Used where ranges contribute only their numeric cells
+ * @param value - Value to read
+ * @returns The number, or null for text, booleans, blanks and errors
+ */
+export const numericValue = (value: CellValue): number | null => {
+  if (typeof value === 'number') return value;
+  return isDate(value) ? value.serial : null;
+};
+
+/**
+ * Throw the first error value found in a value or range
+ * Used by functions that must fail when any of their inputs is an error
+ * @param value - Value or range to check
+ * @throws FormulaError if the value is, or the range contains, an error
+ */
+export const throwIfError = (value: FormulaValue): void => {
+  if (isRange(value)) {
+    value.forEach(row => row.forEach(throwIfError));
+  } else if (isError(value)) {
+    throw value;
+  }
+};
+
+// ============================================================================
+// COERCIONS
+// ============================================================================
+
+/**
+ * Reduce a value to a single cell value
+ * A 1x1 range is unwrapped; larger ranges cannot be used where one value is expected
+ * @param value - Value to reduce
+ * @returns The single value
+ * @throws FormulaError for multi-cell ranges
+ */
+export const toScalar = (value: FormulaValue): CellValue => {
+  if (!isRange(value)) return value;
+  if (value.length === 1 && value[0].length === 1) return value[0][0];
+  throw new FormulaError('#VALUE!', 'A range cannot be used where a single value is expected');
+};
+
+/**
+ * Use a value as a range; a single value becomes a 1x1 range
+ * Lets functions that take ranges accept a single cell reference too
+ * @param value - Value to convert
+ * @returns The range, indexed [row][col]
+ */
+export const toRange = (value: FormulaValue): RangeValue => (isRange(value) ? value : [[value]]);
+
+/**
+ * Swap a range's rows and columns
+ * @param range - Range to transpose
+ * @returns The transposed range
+ */
+export const transpose = (range: RangeValue): RangeValue =>
+  (range[0] ?? []).map((_, col) => range.map(row => row[col]));
+
+/**
+ * Convert a value to a number using spreadsheet rules
+ * Blank is 0, booleans are 1/0, dates are their serial number, numeric text
+ * is parsed and date text becomes a serial number
+ * @param value - Value to convert
+ * @returns The numeric value
+ * @throws FormulaError for non-numeric text, or the error itself for error values
+ */
+export const toNumber = (value: FormulaValue): number => {
+  const scalar = toScalar(value);
+  if (isError(scalar)) throw scalar;
+  if (scalar === null) return 0;
+  if (typeof scalar === 'number') return scalar;
+  if (typeof scalar === 'boolean') return scalar ? 1 : 0;
+  if (isDate(scalar)) return scalar.serial;
+
+  const trimmed = scalar.trim();
+  if (trimmed === '') return 0;
+  const parsed = Number(trimmed);
+  if (isNaN(parsed)) {
+    const date = parseDateText(trimmed);
+    if (date !== null) return date;
+    throw new FormulaError('#VALUE!', `"${scalar}" is not a number`);
+  }
+  return parsed;
+};
+
+/**
+ * Convert a value to text using spreadsheet rules
+ * Blank is the empty string, booleans are TRUE/FALSE, dates are ISO text
+ * @param value - Value to convert
+ * @returns The text value
+ * @throws The error itself for error values
+ */
+export const toText = (value: FormulaValue): string => {
+  const scalar = toScalar(value);
+  if (isError(scalar)) throw scalar;
+  if (scalar === null) return '';
+  if (typeof scalar === 'boolean') return scalar ? 'TRUE' : 'FALSE';
+  if (isDate(scalar)) return formatDateSerial(scalar.serial);
+  return String(scalar);
+};
+
+/**
+ * Convert a value to a boolean using spreadsheet rules
+ * Numbers are true when non-zero, text must be TRUE or FALSE
+ * @param value - Value to convert
+ * @returns The boolean value
+ * @throws FormulaError for other text, or the error itself for error values
+ */
+export const toBoolean = (value: FormulaValue): boolean => {
+  const scalar = toScalar(value);
+  if (isError(scalar)) throw scalar;
+  if (scalar === null) return false;
+  if (typeof scalar === 'boolean') return scalar;
+  if (typeof scalar === 'number') return scalar !== 0;
+  if (isDate(scalar)) return scalar.serial !== 0;
+
+  const upper = scalar.trim().toUpperCase();
+  if (upper === 'TRUE') return true;
+  if (upper === 'FALSE') return false;
+  throw new FormulaError('#VALUE!', `"${scalar}" is not TRUE or FALSE`);
+};
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/** Sort order of value types when comparing mixed types (numbers < text < booleans) */
+const TYPE_ORDER = { number: 0, string: 1, boolean: 2 } as const;
+
+/**
+ * Compare two values the way spreadsheet comparison operators do
+ * Text compares case-insensitively; dates compare as their serial number;
+ * blank matches 0, "" and FALSE
+ * @param a - Left value
+ * @param b - Right value
+ * @returns Negative if a < b, positive if a > b, 0 if equal
+ * @throws Either value if it is an error
+ */
+export const compareValues = (a: CellValue, b: CellValue): number => {
+  if (isError(a)) throw a;
+  if (isError(b)) throw b;
+  if (isDate(a)) a = a.serial;
+  if (isDate(b)) b = b.serial;
+
+  // Blank takes the type of the other side
+  if (a === null && b === null) return 0;
+  if (a === null) a = typeof b === 'number' ? 0 : typeof b === 'boolean' ? false : '';
+  if (b === null) b = typeof a === 'number' ? 0 : typeof a === 'boolean' ? false : '';
+
+  const typeA = typeof a as keyof typeof TYPE_ORDER;
+  const typeB = typeof b as keyof typeof TYPE_ORDER;
+  if (typeA !== typeB) {
+    return TYPE_ORDER[typeA] - TYPE_ORDER[typeB];
+  }
+
+  if (typeof a === 'string') {
+    const lowerA = a.toLowerCase();
+    const lowerB = (b as string).toLowerCase();
+    return lowerA < lowerB ? -1 : lowerA > lowerB ? 1 : 0;
+  }
+
+  return Number(a) - Number(b);
+};
+
+// ============================================================================
+// ARGUMENT HELPERS
+// ============================================================================
+
+/**
+ * Collect the numbers from aggregate function arguments
+ * Ranges contribute only their numeric cells (including dates); values passed directly are
+ * converted to numbers (so =SUM(1, TRUE) is 2)
+ * @param args - Evaluated arguments
+ * @returns All numbers in argument order
+ * @throws The first error value found, including errors inside ranges
+ */
+export const collectNumbers = (args: FormulaValue[]): number[] => {
+  const numbers: number[] = [];
+  args.forEach(arg => {
+    if (isRange(arg)) {
+      arg.forEach(row => row.forEach(value => {
+        if (isError(value)) throw value;
+        const number = numericValue(value);
+        if (number !== null) numbers.push(number);
+      }));
+    } else if (arg !== null) {
+      numbers.push(toNumber(arg));
+    }
+  });
+  return numbers;
+};
@@ -0,0 +1,123 @@
+import { CellAddress } from './references';
+import { NamedRange } from './names';
+import { CellState, GridCell, recalculateGrid } from './recalculate';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Asks a recalculation worker to recompute a grid's formulas
+ * Everything in it is plain data, so it survives postMessage
+ * @property type - Always "recalculate"
+ * @property id - Identifies the request in the worker's replies
+ * @property grid - Grid rows, data rows only (row 0 is Excel row 2)
+ * @property headers - Column names, readable as row 1
+ * @property changed - Cells whose values changed; omit to recompute every formula
+ * @property names - Named ranges formulas may use
+ */
+export type RecalculateRequest = {
+  type: 'recalculate';
+  id: number;
+  grid: GridCell[][];
+  headers: string[];
+  changed?: CellAddress[];
+  names: NamedRange[];
+};
+
+/**
+ * New state for one cell, as worked out by a recalculation
+ * @property row - Data row of the cell
+ * @property col - Column of the cell
+ * @property state - Everything recalculation writes to it
+ */
+export type CellPatch = { row: number; col: number; state: CellState };
+
+/**
+ * A recalculation worker's replies to a request
+ * - progress: some of the formulas have been evaluated
+ * - result: the cells whose state changed
+ */
+export type RecalculateResponse =
+  | { type: 'progress'; id: number; done: number; total: number }
+  | { type: 'result'; id: number; patches: CellPatch[] };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Least time between progress replies, so posting them does not slow recalculation down */
+const PROGRESS_INTERVAL_MS = 100;
+
+// ============================================================================
+// PATCHES
+// ============================================================================
+
+/**
+ * List the cells a recalculation changed
+ * Relies on recalculateGrid keeping unchanged rows and cells as they were
+ * @param before - Grid passed to recalculateGrid
+ * @param after - Grid it returned
+ * @returns The new state of every cell that changed
+ */
+export const diffRecalculatedGrid = (before: GridCell[][], after: GridCell[][]): CellPatch[] => {
+  const patches: CellPatch[] = [];
+  after.forEach((cells, row) => {
+    if (cells === before[row]) return;
+    cells.forEach((cell, col) => {
+      if (cell === before[row][col]) return;
+      const { value, type, error, spill, spilledFrom } = cell;
+      patches.push({ row, col, state: { value, type, error, spill, spilledFrom } });
+    });
+  });
+  return patches;
+};
+
+/**
+ * Write a recalculation's results into a grid
+ * Other cell properties (such as formatting) are kept, so the grid may have
+ * changed in other ways since the recalculation was requested
+ * @param grid - Grid rows to update
+ * @param patches - Cells that changed, from diffRecalculatedGrid
+ * @returns The updated grid (rows without patches keep their identity)
+ */
+export const applyCellPatches = <T extends GridCell>(grid: T[][], patches: CellPatch[]): T[][] => {
+  if (patches.length === 0) return grid;
+  const result = grid.slice();
+  const copiedRows = new Set<number>();
+  patches.forEach(({ row, col, state }) => {
+    if (!result[row]?.[col]) return;
+    if (!copiedRows.has(row)) {
+      result[row] = result[row].slice();
+      copiedRows.add(row);
+    }
+    result[row][col] = { ...result[row][col], ...state };
+  });
+  return result;
+};
+
+// ============================================================================
+// REQUEST HANDLING
+// ============================================================================
+
+/**
+ * Carry out a recalculation request, as the recalculation worker does
+ * Progress is reported at most every PROGRESS_INTERVAL_MS, and the result is
+ * sent as patches rather than the whole grid, to keep messages small
+ * @param request - Grid and changes to recalculate
+ * @param post - Sends a reply back to the page
+ */
+export const handleRecalculateRequest = (
+  request: RecalculateRequest,
+  post: (response: RecalculateResponse) => void
+) => {
+  const { id, grid, headers, changed, names } = request;
+  let reported = Date.now();
+  const result = recalculateGrid(grid, headers, changed, names, (done, total) => {
+    const now = Date.now();
+    if (now - reported < PROGRESS_INTERVAL_MS) return;
+    reported = now;
+    post({ type: 'progress', id, done, total });
+  });
+  post({ type: 'result', id, patches: diffRecalculatedGrid(grid, result) });
+};
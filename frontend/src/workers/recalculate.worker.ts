@@ -0,0 +1,13 @@
+import { handleRecalculateRequest, type RecalculateRequest } from '../lib/formula';
+
+// ============================================================================
+// RECALCULATION WORKER
+// ============================================================================
+
+/**
+ * Recomputes formulas off the main thread, so long recalculations do not
+ * freeze scrolling or typing. Started by the useRecalculation hook
+ */
+self.onmessage = (event: MessageEvent<RecalculateRequest>) => {
+  handleRecalculateRequest(event.data, response => self.postMessage(response));
+};